@@ -0,0 +1,132 @@
+pragma solidity ^0.8.24;
+import { FHE, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+interface IConfidentialPayoutToken {
+    function decimals() external view returns (uint8);
+
+    function confidentialBalanceOf(address account) external view returns (euint64);
+
+    function setOperator(address operator, uint48 until) external;
+
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64);
+
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64);
+}
+
+// Minimal ERC-7984-style fungible token with encrypted balances, used to settle payroll batches.
+contract ConfidentialPayrollToken is SepoliaConfig, IConfidentialPayoutToken {
+    using FHE for euint64;
+
+    error NotOwner();
+    error InvalidAddress();
+    error UnauthorizedSpender(address holder, address spender);
+    error UnauthorizedHandle(address caller);
+
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 6;
+    address public owner;
+
+    euint64 private _totalSupply;
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => uint48)) private _operators; // holder -> operator -> valid until
+
+    event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 indexed amount);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+        owner = msg.sender;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert InvalidAddress();
+        address oldOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(oldOwner, newOwner);
+    }
+
+    function confidentialTotalSupply() external view returns (euint64) {
+        return _totalSupply;
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= _operators[holder][spender];
+    }
+
+    function setOperator(address operator, uint48 until) external {
+        if (operator == address(0)) revert InvalidAddress();
+        _operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    function mint(address to, externalEuint64 amountInput, bytes calldata inputProof) external onlyOwner {
+        if (to == address(0)) revert InvalidAddress();
+        euint64 amount = FHE.fromExternal(amountInput, inputProof);
+
+        euint64 newBalance = _balances[to].add(amount);
+        euint64 newSupply = _totalSupply.add(amount);
+        _setBalance(to, newBalance);
+        _totalSupply = newSupply;
+        FHE.allowThis(newSupply);
+        FHE.allow(newSupply, owner);
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, to);
+        emit ConfidentialTransfer(address(0), to, amount);
+    }
+
+    function confidentialTransfer(
+        address to,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external returns (euint64) {
+        return _transfer(msg.sender, to, FHE.fromExternal(amountInput, inputProof));
+    }
+
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64) {
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedHandle(msg.sender);
+        return _transfer(msg.sender, to, amount);
+    }
+
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64) {
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedHandle(msg.sender);
+        if (!isOperator(from, msg.sender)) revert UnauthorizedSpender(from, msg.sender);
+        return _transfer(from, to, amount);
+    }
+
+    function _transfer(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        if (to == address(0)) revert InvalidAddress();
+
+        // An insufficient balance transfers zero instead of reverting, so the outcome leaks nothing
+        ebool hasBalance = amount.le(_balances[from]);
+        transferred = FHE.select(hasBalance, amount, FHE.asEuint64(0));
+
+        _setBalance(from, _balances[from].sub(transferred));
+        _setBalance(to, _balances[to].add(transferred));
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allow(transferred, msg.sender);
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+
+    function _setBalance(address account, euint64 balance) internal {
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+}
@@ -0,0 +1,97 @@
+pragma solidity ^0.8.24;
+
+// Role registry with a per-role admin hierarchy, modelled on OpenZeppelin's AccessControl.
+abstract contract PayrollAccessControl {
+    error MissingRole(bytes32 role, address account);
+    error InvalidRoleRenounce();
+
+    bytes32 public constant DEFAULT_ADMIN_ROLE = 0x00;
+    bytes32 public constant PAYROLL_ADMIN_ROLE = keccak256("PAYROLL_ADMIN_ROLE");
+    bytes32 public constant DATA_PROVIDER_ROLE = keccak256("DATA_PROVIDER_ROLE");
+    bytes32 public constant APPROVER_ROLE = keccak256("APPROVER_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    // Held by companion contracts (treasury, audit grants) that read batch ciphertexts through exportBatchCiphertexts
+    bytes32 public constant PAYROLL_MODULE_ROLE = keccak256("PAYROLL_MODULE_ROLE");
+
+    struct RoleData {
+        mapping(address => bool) members;
+        bytes32 adminRole;
+        address[] memberList; // Enumerable view of members, e.g. the approver set
+        mapping(address => uint256) memberIndex; // Position in memberList plus one
+    }
+    mapping(bytes32 => RoleData) private _roles;
+
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole);
+
+    modifier onlyRole(bytes32 role) {
+        if (!hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return _roles[role].members[account];
+    }
+
+    function getRoleMemberCount(bytes32 role) public view returns (uint256) {
+        return _roles[role].memberList.length;
+    }
+
+    function getRoleMembers(bytes32 role) external view returns (address[] memory) {
+        return _roles[role].memberList;
+    }
+
+    function getRoleAdmin(bytes32 role) public view returns (bytes32) {
+        return _roles[role].adminRole;
+    }
+
+    function grantRole(bytes32 role, address account) external onlyRole(getRoleAdmin(role)) {
+        _grantRole(role, account);
+    }
+
+    function revokeRole(bytes32 role, address account) external onlyRole(getRoleAdmin(role)) {
+        _revokeRole(role, account);
+    }
+
+    function renounceRole(bytes32 role, address callerConfirmation) external {
+        if (callerConfirmation != msg.sender) revert InvalidRoleRenounce();
+        _revokeRole(role, msg.sender);
+    }
+
+    function setRoleAdmin(bytes32 role, bytes32 adminRole) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setRoleAdmin(role, adminRole);
+    }
+
+    function _setRoleAdmin(bytes32 role, bytes32 adminRole) internal {
+        bytes32 previousAdminRole = getRoleAdmin(role);
+        _roles[role].adminRole = adminRole;
+        emit RoleAdminChanged(role, previousAdminRole, adminRole);
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        if (!hasRole(role, account)) {
+            RoleData storage data = _roles[role];
+            data.members[account] = true;
+            data.memberList.push(account);
+            data.memberIndex[account] = data.memberList.length;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    function _revokeRole(bytes32 role, address account) internal virtual {
+        if (hasRole(role, account)) {
+            RoleData storage data = _roles[role];
+            data.members[account] = false;
+            // Swap-and-pop keeps memberList dense
+            uint256 index = data.memberIndex[account] - 1;
+            address last = data.memberList[data.memberList.length - 1];
+            data.memberList[index] = last;
+            data.memberIndex[last] = index + 1;
+            data.memberList.pop();
+            delete data.memberIndex[account];
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+}
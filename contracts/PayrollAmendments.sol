@@ -0,0 +1,152 @@
+pragma solidity ^0.8.24;
+import { StealthPayrollFHE } from "./Stealth_Payroll.sol";
+
+// Amendments to closed, unpaid batches. Each amendment opens a revision batch on the payroll that carries the
+// parent's employees over and accepts changes only for the listed employees; this contract records why, and
+// keeps every batch's chain of revisions. Once a revision is approved and closed it replaces its parent: the
+// payroll pays the revision only, and summaries should be read for latestApprovedBatchId.
+contract PayrollAmendments {
+    error InvalidAddress();
+    error MissingRole(bytes32 role, address account);
+    error EmptyReason();
+    error InvalidEmployeeList();
+    error RevisionNotFound(uint256 revisionId);
+
+    uint256 public constant MAX_CHANGED_EMPLOYEES = 50;
+
+    struct Revision {
+        uint256 id;
+        uint256 batchId; // The revision batch on the payroll
+        uint256 parentBatchId;
+        uint256 rootBatchId; // The original batch the chain of revisions started from
+        uint256 version; // 1 for the first revision of rootBatchId
+        uint256[] changedEmployeeIds;
+        string reason;
+        address requestedBy;
+        uint64 createdAt;
+    }
+
+    StealthPayrollFHE public immutable payroll;
+
+    Revision[] private _revisions; // revisionId - 1 -> Revision
+    mapping(uint256 => uint256) public revisionIdOfBatch; // revision batchId -> revisionId
+    mapping(uint256 => uint256) public revisionIdByParent; // batchId -> revisionId of the revision amending it
+    mapping(uint256 => uint256[]) private _revisionIdsByRoot; // root batchId -> revisionIds, oldest first
+
+    event BatchAmended(
+        uint256 indexed revisionId,
+        uint256 indexed batchId,
+        uint256 indexed parentBatchId,
+        uint256[] changedEmployeeIds,
+        string reason,
+        address requestedBy
+    );
+
+    modifier onlyPayrollAdmin() {
+        bytes32 role = payroll.PAYROLL_ADMIN_ROLE();
+        if (!payroll.hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    constructor(address payroll_) {
+        if (payroll_ == address(0)) revert InvalidAddress();
+        payroll = StealthPayrollFHE(payroll_);
+    }
+
+    // The revision becomes the payroll's current batch; the listed employees are resubmitted or adjusted in it
+    // as usual, and it goes through the same approvals before it can be closed and paid.
+    function amendBatch(
+        uint256 parentBatchId,
+        uint256[] calldata changedEmployeeIds,
+        string calldata reason
+    ) external onlyPayrollAdmin returns (uint256 revisionId) {
+        if (bytes(reason).length == 0) revert EmptyReason();
+        if (changedEmployeeIds.length == 0 || changedEmployeeIds.length > MAX_CHANGED_EMPLOYEES) {
+            revert InvalidEmployeeList();
+        }
+
+        // Requires PAYROLL_MODULE_ROLE on the payroll, which rejects open, paid and already amended parents
+        uint256 batchId = payroll.openRevision(parentBatchId, changedEmployeeIds);
+        uint256 rootBatchId = rootBatchIdOf(parentBatchId);
+
+        revisionId = _revisions.length + 1;
+        _revisions.push(
+            Revision({
+                id: revisionId,
+                batchId: batchId,
+                parentBatchId: parentBatchId,
+                rootBatchId: rootBatchId,
+                version: _revisionIdsByRoot[rootBatchId].length + 1,
+                changedEmployeeIds: changedEmployeeIds,
+                reason: reason,
+                requestedBy: msg.sender,
+                createdAt: uint64(block.timestamp)
+            })
+        );
+        revisionIdOfBatch[batchId] = revisionId;
+        revisionIdByParent[parentBatchId] = revisionId;
+        _revisionIdsByRoot[rootBatchId].push(revisionId);
+        emit BatchAmended(revisionId, batchId, parentBatchId, changedEmployeeIds, reason, msg.sender);
+    }
+
+    function rootBatchIdOf(uint256 batchId) public view returns (uint256) {
+        uint256 revisionId = revisionIdOfBatch[batchId];
+        return revisionId == 0 ? batchId : _revisions[revisionId - 1].rootBatchId;
+    }
+
+    // Follows the chain from batchId to its newest closed revision; open revisions are not approved yet
+    function latestApprovedBatchId(uint256 batchId) public view returns (uint256 latest) {
+        latest = batchId;
+        for (uint256 revisionId = revisionIdByParent[latest]; revisionId != 0; revisionId = revisionIdByParent[latest]) {
+            uint256 revisionBatchId = _revisions[revisionId - 1].batchId;
+            (, bool isOpen, , , , , ) = payroll.batches(revisionBatchId);
+            if (isOpen) break;
+            latest = revisionBatchId;
+        }
+    }
+
+    function latestApprovedBatchIds(uint256[] calldata batchIds) external view returns (uint256[] memory latest) {
+        latest = new uint256[](batchIds.length);
+        for (uint256 i = 0; i < batchIds.length; ) {
+            latest[i] = latestApprovedBatchId(batchIds[i]);
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    // Every revision of the chain batchId belongs to, oldest first
+    function getRevisionHistory(uint256 batchId) external view returns (Revision[] memory history) {
+        uint256[] storage revisionIds = _revisionIdsByRoot[rootBatchIdOf(batchId)];
+        history = new Revision[](revisionIds.length);
+        for (uint256 i = 0; i < revisionIds.length; ) {
+            history[i] = _revisions[revisionIds[i] - 1];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function revisionCount() external view returns (uint256) {
+        return _revisions.length;
+    }
+
+    function getRevision(uint256 revisionId) external view returns (Revision memory) {
+        if (revisionId == 0 || revisionId > _revisions.length) revert RevisionNotFound(revisionId);
+        return _revisions[revisionId - 1];
+    }
+
+    function getRevisions(uint256 offset, uint256 limit) external view returns (Revision[] memory page) {
+        uint256 total = _revisions.length;
+        if (offset >= total) return new Revision[](0);
+        uint256 end = offset + limit > total ? total : offset + limit;
+
+        page = new Revision[](end - offset);
+        for (uint256 i = offset; i < end; ) {
+            page[i - offset] = _revisions[i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+}
@@ -0,0 +1,169 @@
+pragma solidity ^0.8.24;
+import { Impl } from "@fhevm/solidity/lib/Impl.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { PayrollAccessControl } from "./PayrollAccessControl.sol";
+import { IPayrollCiphertextSource } from "./PayrollTreasury.sol";
+
+// Auditor disclosure of a payroll instance's batch ciphertexts. A grant opens an issuance window: until it closes
+// or the grant is revoked, the auditor can claim a batch's aggregates and the grant's employee subset. Access to
+// what was issued is permanent: fhEVM ACL permissions cannot be withdrawn, and user decryption needs them to
+// persist, so the auditor can decrypt issued handles for good. Closing or revoking a grant only stops issuance;
+// values computed afterwards, e.g. after an adjustment, are not shared.
+contract PayrollAuditGrants is SepoliaConfig {
+    error InvalidAddress();
+    error MissingRole(bytes32 role, address account);
+    error InvalidBatchRange();
+    error InvalidIssuanceWindow();
+    error TooManyEmployees();
+    error GrantNotFound(uint256 grantId);
+    error GrantRevoked(uint256 grantId);
+    error IssuanceClosed(uint256 grantId);
+    error NotGrantee(uint256 grantId, address account);
+    error BatchOutOfRange(uint256 grantId, uint256 batchId);
+
+    uint64 public constant MAX_ISSUANCE_WINDOW = 90 days;
+    uint256 public constant MAX_GRANT_EMPLOYEES = 20;
+
+    struct AuditGrant {
+        uint256 id;
+        address auditor;
+        uint256 firstBatchId;
+        uint256 lastBatchId;
+        uint256[] employeeIds; // Optional subset whose individual ciphertexts are shared along with the aggregates
+        address grantedBy;
+        uint64 grantedAt;
+        uint64 issuableUntil;
+        uint64 revokedAt;
+    }
+
+    address public immutable payroll;
+
+    AuditGrant[] private _grants; // grantId - 1 -> AuditGrant
+    mapping(address => uint256[]) private _grantIdsByAuditor;
+    mapping(uint256 => mapping(uint256 => bytes32[])) private _issuedCiphertexts; // grantId -> batchId -> handles
+
+    event AuditGrantCreated(
+        uint256 indexed grantId,
+        address indexed auditor,
+        uint256 firstBatchId,
+        uint256 lastBatchId,
+        uint256[] employeeIds,
+        uint64 issuableUntil,
+        address indexed grantedBy
+    );
+    event AuditGrantRevoked(uint256 indexed grantId, address indexed revokedBy);
+    event AuditCiphertextsIssued(uint256 indexed grantId, uint256 indexed batchId, address indexed auditor);
+
+    modifier onlyPayrollAdmin() {
+        bytes32 role = PayrollAccessControl(payroll).PAYROLL_ADMIN_ROLE();
+        if (!PayrollAccessControl(payroll).hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    constructor(address payroll_) {
+        if (payroll_ == address(0)) revert InvalidAddress();
+        payroll = payroll_;
+    }
+
+    function createGrant(
+        address auditor,
+        uint256 firstBatchId,
+        uint256 lastBatchId,
+        uint256[] calldata employeeIds,
+        uint64 issuableUntil
+    ) external onlyPayrollAdmin returns (uint256 grantId) {
+        if (auditor == address(0)) revert InvalidAddress();
+        if (firstBatchId == 0 || lastBatchId < firstBatchId) revert InvalidBatchRange();
+        if (issuableUntil <= block.timestamp || issuableUntil > block.timestamp + MAX_ISSUANCE_WINDOW) revert InvalidIssuanceWindow();
+        if (employeeIds.length > MAX_GRANT_EMPLOYEES) revert TooManyEmployees();
+
+        grantId = _grants.length + 1;
+        _grants.push(
+            AuditGrant({
+                id: grantId,
+                auditor: auditor,
+                firstBatchId: firstBatchId,
+                lastBatchId: lastBatchId,
+                employeeIds: employeeIds,
+                grantedBy: msg.sender,
+                grantedAt: uint64(block.timestamp),
+                issuableUntil: issuableUntil,
+                revokedAt: 0
+            })
+        );
+        _grantIdsByAuditor[auditor].push(grantId);
+        emit AuditGrantCreated(grantId, auditor, firstBatchId, lastBatchId, employeeIds, issuableUntil, msg.sender);
+    }
+
+    function revokeGrant(uint256 grantId) external onlyPayrollAdmin {
+        AuditGrant storage grant = _grant(grantId);
+        if (grant.revokedAt != 0) revert GrantRevoked(grantId);
+        grant.revokedAt = uint64(block.timestamp);
+        emit AuditGrantRevoked(grantId, msg.sender);
+    }
+
+    // Issues the batch's current aggregates and subset ciphertexts to the auditor. Layout follows
+    // exportBatchCiphertexts: the summary aggregates, then a fixed number of handles per subset employee.
+    function issueCiphertexts(uint256 grantId, uint256 batchId) external returns (bytes32[] memory cts) {
+        AuditGrant storage grant = _grant(grantId);
+        if (msg.sender != grant.auditor) revert NotGrantee(grantId, msg.sender);
+        if (grant.revokedAt != 0) revert GrantRevoked(grantId);
+        if (block.timestamp >= grant.issuableUntil) revert IssuanceClosed(grantId);
+        if (batchId < grant.firstBatchId || batchId > grant.lastBatchId) revert BatchOutOfRange(grantId, batchId);
+
+        // Requires PAYROLL_MODULE_ROLE on the payroll; the handles arrive with transient access only. This contract
+        // keeps access too, since user decryption checks the requesting contract as well as the auditor.
+        cts = IPayrollCiphertextSource(payroll).exportBatchCiphertexts(batchId, grant.employeeIds);
+        for (uint256 i = 0; i < cts.length; ) {
+            if (cts[i] != bytes32(0)) {
+                Impl.allow(cts[i], address(this));
+                Impl.allow(cts[i], grant.auditor);
+            }
+            unchecked {
+                i++;
+            }
+        }
+        _issuedCiphertexts[grantId][batchId] = cts;
+        emit AuditCiphertextsIssued(grantId, batchId, grant.auditor);
+    }
+
+    function isGrantActive(uint256 grantId) public view returns (bool) {
+        AuditGrant storage grant = _grant(grantId);
+        return grant.revokedAt == 0 && block.timestamp < grant.issuableUntil;
+    }
+
+    function getIssuedCiphertexts(uint256 grantId, uint256 batchId) external view returns (bytes32[] memory) {
+        return _issuedCiphertexts[grantId][batchId];
+    }
+
+    function grantCount() external view returns (uint256) {
+        return _grants.length;
+    }
+
+    function getGrant(uint256 grantId) external view returns (AuditGrant memory) {
+        return _grant(grantId);
+    }
+
+    function getGrants(uint256 offset, uint256 limit) external view returns (AuditGrant[] memory page) {
+        uint256 total = _grants.length;
+        if (offset >= total) return new AuditGrant[](0);
+        uint256 end = offset + limit > total ? total : offset + limit;
+
+        page = new AuditGrant[](end - offset);
+        for (uint256 i = offset; i < end; ) {
+            page[i - offset] = _grants[i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function getGrantIdsByAuditor(address auditor) external view returns (uint256[] memory) {
+        return _grantIdsByAuditor[auditor];
+    }
+
+    function _grant(uint256 grantId) internal view returns (AuditGrant storage) {
+        if (grantId == 0 || grantId > _grants.length) revert GrantNotFound(grantId);
+        return _grants[grantId - 1];
+    }
+}
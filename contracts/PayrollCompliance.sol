@@ -0,0 +1,229 @@
+pragma solidity ^0.8.24;
+import { FHE, euint32, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { StealthPayrollFHE, IPayrollSubmissionHook } from "./Stealth_Payroll.sol";
+
+// Minimum-wage and pay-band checks on every salary that enters a batch. Floors and bands are encrypted and set
+// per batch currency; each check yields encrypted violation flags, and only the per-batch violation count is
+// ever decrypted. Individual flags are released to COMPLIANCE_ROLE holders one drill-down at a time.
+contract PayrollCompliance is SepoliaConfig, IPayrollSubmissionHook {
+    using FHE for euint32;
+    using FHE for euint64;
+    using FHE for ebool;
+
+    error InvalidAddress();
+    error MissingRole(bytes32 role, address account);
+    error OnlyPayroll();
+    error ReplayAttempt();
+    error StateMismatch();
+    error InvalidCurrency();
+    error InvalidPayRole();
+    error BatchNotClosed(uint256 batchId);
+    error EmployeeNotChecked(uint256 batchId, uint256 employeeId);
+
+    // Granted on the payroll instance by its default admin, like any other payroll role
+    bytes32 public constant COMPLIANCE_ROLE = keccak256("COMPLIANCE_ROLE");
+
+    // Bounds are inclusive, in the currency's minor units
+    struct PayBand {
+        euint64 min;
+        euint64 max;
+        bool isSet;
+    }
+
+    struct Violation {
+        ebool belowMinimumWage;
+        ebool outsidePayBand;
+        bool isChecked;
+    }
+
+    struct ComplianceResult {
+        uint256 batchId;
+        uint256 requestId;
+        uint32 violationCount;
+        uint64 decryptedAt;
+    }
+
+    struct DecryptionContext {
+        uint256 batchId;
+        bytes32 countHandle;
+        bool processed;
+    }
+
+    StealthPayrollFHE public immutable payroll;
+
+    mapping(bytes32 => euint64) private _minimumWages; // keccak256(currency) -> floor
+    mapping(bytes32 => mapping(uint256 => PayBand)) private _payBands; // keccak256(currency) -> payRoleId -> band
+    mapping(uint256 => uint256) public payRoleOf; // employeeId -> payRoleId; 0 means no band applies
+
+    mapping(uint256 => mapping(uint256 => Violation)) private _violations; // batchId -> employeeId -> flags
+    mapping(uint256 => euint32) private _violationCounts; // batchId -> employees with at least one violation
+    mapping(uint256 => ComplianceResult) public complianceResults; // batchId -> latest decrypted count
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+
+    event MinimumWageSet(string currency, address indexed setBy);
+    event PayBandSet(string currency, uint256 indexed payRoleId, address indexed setBy);
+    event PayBandCleared(string currency, uint256 indexed payRoleId, address indexed clearedBy);
+    event PayRoleAssigned(uint256 indexed employeeId, uint256 indexed payRoleId);
+    event SalaryChecked(uint256 indexed batchId, uint256 indexed employeeId);
+    event ViolationCountRequested(uint256 indexed batchId, uint256 indexed requestId);
+    event ViolationCountDecrypted(uint256 indexed batchId, uint256 indexed requestId, uint32 violationCount);
+    event ViolationDrillDown(uint256 indexed batchId, uint256 indexed employeeId, address indexed officer);
+
+    modifier onlyPayrollRole(bytes32 role) {
+        if (!payroll.hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    constructor(address payroll_) {
+        if (payroll_ == address(0)) revert InvalidAddress();
+        payroll = StealthPayrollFHE(payroll_);
+    }
+
+    // Rules apply to salaries submitted after the change; earlier checks in an open batch are not re-run
+    function setMinimumWage(
+        string calldata currency,
+        externalEuint64 floorInput,
+        bytes calldata inputProof
+    ) external onlyPayrollRole(payroll.PAYROLL_ADMIN_ROLE()) {
+        if (bytes(currency).length == 0) revert InvalidCurrency();
+        euint64 floor = FHE.fromExternal(floorInput, inputProof);
+        _allowRuleValue(floor);
+        _minimumWages[keccak256(bytes(currency))] = floor;
+        emit MinimumWageSet(currency, msg.sender);
+    }
+
+    function setPayBand(
+        string calldata currency,
+        uint256 payRoleId,
+        externalEuint64 minInput,
+        externalEuint64 maxInput,
+        bytes calldata inputProof
+    ) external onlyPayrollRole(payroll.PAYROLL_ADMIN_ROLE()) {
+        if (bytes(currency).length == 0) revert InvalidCurrency();
+        if (payRoleId == 0) revert InvalidPayRole();
+        euint64 min = FHE.fromExternal(minInput, inputProof);
+        euint64 max = FHE.fromExternal(maxInput, inputProof);
+        _allowRuleValue(min);
+        _allowRuleValue(max);
+        _payBands[keccak256(bytes(currency))][payRoleId] = PayBand({ min: min, max: max, isSet: true });
+        emit PayBandSet(currency, payRoleId, msg.sender);
+    }
+
+    function clearPayBand(
+        string calldata currency,
+        uint256 payRoleId
+    ) external onlyPayrollRole(payroll.PAYROLL_ADMIN_ROLE()) {
+        delete _payBands[keccak256(bytes(currency))][payRoleId];
+        emit PayBandCleared(currency, payRoleId, msg.sender);
+    }
+
+    function setPayRole(uint256 employeeId, uint256 payRoleId) external onlyPayrollRole(payroll.PAYROLL_ADMIN_ROLE()) {
+        payRoleOf[employeeId] = payRoleId;
+        emit PayRoleAssigned(employeeId, payRoleId);
+    }
+
+    // Called by the payroll for every submitted or carried-forward salary; a resubmission replaces the
+    // employee's earlier flags in the batch count
+    function onEmployeeSubmitted(uint256 batchId, uint256 employeeId, euint64 salary) external {
+        if (msg.sender != address(payroll)) revert OnlyPayroll();
+        (, , , , string memory currency, , ) = payroll.batches(batchId);
+        bytes32 currencyKey = keccak256(bytes(currency));
+
+        ebool belowMinimumWage = FHE.asEbool(false);
+        euint64 floor = _minimumWages[currencyKey];
+        if (floor.isInitialized()) belowMinimumWage = salary.lt(floor);
+
+        ebool outsidePayBand = FHE.asEbool(false);
+        PayBand storage band = _payBands[currencyKey][payRoleOf[employeeId]];
+        if (band.isSet) outsidePayBand = salary.lt(band.min).or(salary.gt(band.max));
+
+        Violation storage violation = _violations[batchId][employeeId];
+        euint32 count = _violationCounts[batchId];
+        if (!count.isInitialized()) count = FHE.asEuint32(0);
+        if (violation.isChecked) {
+            count = count.sub(FHE.asEuint32(violation.belowMinimumWage.or(violation.outsidePayBand)));
+        }
+        count = count.add(FHE.asEuint32(belowMinimumWage.or(outsidePayBand)));
+
+        violation.belowMinimumWage = belowMinimumWage;
+        violation.outsidePayBand = outsidePayBand;
+        violation.isChecked = true;
+        _violationCounts[batchId] = count;
+        FHE.allowThis(belowMinimumWage);
+        FHE.allowThis(outsidePayBand);
+        FHE.allowThis(count);
+        emit SalaryChecked(batchId, employeeId);
+    }
+
+    // The count is final once the batch is closed, so only closed batches are decrypted
+    function requestViolationCountDecryption(uint256 batchId) external onlyPayrollRole(COMPLIANCE_ROLE) {
+        (uint256 id, bool isOpen, , , , , ) = payroll.batches(batchId);
+        if (id == 0 || isOpen) revert BatchNotClosed(batchId);
+        euint32 count = _violationCounts[batchId];
+        if (!count.isInitialized()) {
+            count = FHE.asEuint32(0);
+            FHE.allowThis(count);
+            _violationCounts[batchId] = count;
+        }
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(count);
+        uint256 requestId = FHE.requestDecryption(cts, this.violationCountCallback.selector);
+        decryptionContexts[requestId] = DecryptionContext({ batchId: batchId, countHandle: cts[0], processed: false });
+        emit ViolationCountRequested(batchId, requestId);
+    }
+
+    function violationCountCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.processed) revert ReplayAttempt();
+        // Security: the count must still be the one that was submitted for decryption
+        if (FHE.toBytes32(_violationCounts[ctx.batchId]) != ctx.countHandle) revert StateMismatch();
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        uint32 violationCount = abi.decode(cleartexts, (uint32));
+        ctx.processed = true;
+
+        complianceResults[ctx.batchId] = ComplianceResult({
+            batchId: ctx.batchId,
+            requestId: requestId,
+            violationCount: violationCount,
+            decryptedAt: uint64(block.timestamp)
+        });
+        emit ViolationCountDecrypted(ctx.batchId, requestId, violationCount);
+    }
+
+    // Grants the caller access to one employee's flags; every drill-down is logged
+    function drillDown(
+        uint256 batchId,
+        uint256 employeeId
+    ) external onlyPayrollRole(COMPLIANCE_ROLE) returns (ebool belowMinimumWage, ebool outsidePayBand) {
+        Violation storage violation = _violations[batchId][employeeId];
+        if (!violation.isChecked) revert EmployeeNotChecked(batchId, employeeId);
+        FHE.allow(violation.belowMinimumWage, msg.sender);
+        FHE.allow(violation.outsidePayBand, msg.sender);
+        emit ViolationDrillDown(batchId, employeeId, msg.sender);
+        return (violation.belowMinimumWage, violation.outsidePayBand);
+    }
+
+    function getViolation(uint256 batchId, uint256 employeeId) external view returns (Violation memory) {
+        return _violations[batchId][employeeId];
+    }
+
+    function getViolationCount(uint256 batchId) external view returns (euint32) {
+        return _violationCounts[batchId];
+    }
+
+    function getMinimumWage(string calldata currency) external view returns (euint64) {
+        return _minimumWages[keccak256(bytes(currency))];
+    }
+
+    function getPayBand(string calldata currency, uint256 payRoleId) external view returns (PayBand memory) {
+        return _payBands[keccak256(bytes(currency))][payRoleId];
+    }
+
+    // Rule values are readable by the admin who set them
+    function _allowRuleValue(euint64 value) internal {
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+    }
+}
@@ -0,0 +1,444 @@
+pragma solidity ^0.8.24;
+import { FHE, euint32, euint64, ebool, externalEbool, externalEuint32, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { Impl } from "@fhevm/solidity/lib/Impl.sol";
+
+// Deduction rules, per-employee payout math and batch totals for StealthPayrollFHE. Its public functions are linked
+// and reached through DELEGATECALL, so storage, ACL grants and msg.sender are those of the payroll instance.
+// Each payout is priced when its inputs change and the batch totals are running sums, so no transaction does FHE
+// work for employees it does not touch.
+library PayrollDeductions {
+    using FHE for euint32;
+    using FHE for euint64;
+    using FHE for ebool;
+
+    error LengthMismatch();
+    error TooManyRules();
+    error InvalidRate();
+
+    uint256 internal constant MAX_TAX_BRACKETS = 4;
+    uint256 internal constant MAX_DEDUCTION_RULES = 8;
+    uint64 internal constant BPS_DENOMINATOR = 10_000;
+    // Gross pay is capped here so gross pay times a rate in basis points fits in 64 bits
+    uint64 internal constant MAX_GROSS_PAY = 1e15;
+    uint256 internal constant SUMMARY_CIPHERTEXTS = 10;
+    uint256 internal constant EMPLOYEE_CIPHERTEXTS = 7; // Per-employee handles appended by exportCiphertexts
+
+    // Bracket i taxes the part of gross pay in [start, start + width) at rateBps; start is derived on configuration.
+    // Statutory brackets and rates are public, which keeps the tax math to scalar operations.
+    struct TaxBracket {
+        uint64 start;
+        uint64 width;
+        uint16 rateBps;
+    }
+
+    struct WithholdingRule {
+        string label;
+        uint16 rateBps;
+    }
+
+    // Benefit deductions are employer-specific and stay encrypted; value is an amount in minor units
+    struct DeductionRule {
+        string label;
+        euint64 value;
+    }
+
+    struct Rules {
+        TaxBracket[] taxBrackets;
+        WithholdingRule[] withholdingRules;
+        DeductionRule[] benefitDeductions;
+        uint16 totalWithholdingBps; // Sum of withholdingRules, clamped to 100%
+        euint64 totalBenefitDeduction; // Sum of benefitDeductions; uninitialized until configured
+    }
+
+    // Per-employee amounts, each deduction capped at what is left of gross pay after the previous ones
+    struct Payout {
+        euint64 gross;
+        euint64 adjustmentCredits;
+        euint64 adjustmentDebits; // Capped at salary plus credits
+        euint64 investment;
+        euint64 tax;
+        euint64 withholding;
+        euint64 benefits;
+        euint64 netPay;
+    }
+
+    struct Employee {
+        euint64 encryptedSalary; // In the batch currency's minor units
+        euint32 encryptedInvestmentPercentage; // e.g., 0 for 0%, 10 for 10%. Clamped to 100 on submission.
+        bool isActive;
+        euint64 paidAmount; // Set by executeBatch; zero if the payout source was underfunded
+        Payout payout; // Payslip breakdown, repriced whenever the salary or an adjustment changes
+        euint64 adjustmentCredits; // Running sums of this batch's adjustments for the employee
+        euint64 adjustmentDebits;
+    }
+
+    // Batch-wide running sums of salaries and Payout components
+    struct Totals {
+        euint64 salary;
+        euint64 gross; // Salary plus applied adjustments; bounds every deduction and net pay total
+        euint64 adjustmentCredits;
+        euint64 adjustmentDebits;
+        euint64 investment;
+        euint64 tax;
+        euint64 withholding;
+        euint64 benefits;
+        euint64 netPay;
+        ebool overflowed; // A total wrapped past 2^64 - 1, or a gross pay was capped at MAX_GROSS_PAY
+    }
+
+    function setTaxBrackets(Rules storage rules, uint64[] calldata widths, uint16[] calldata ratesBps) public {
+        if (widths.length != ratesBps.length) revert LengthMismatch();
+        if (widths.length > MAX_TAX_BRACKETS) revert TooManyRules();
+        delete rules.taxBrackets;
+
+        uint64 start = 0;
+        for (uint256 i = 0; i < widths.length; ) {
+            if (ratesBps[i] > BPS_DENOMINATOR) revert InvalidRate();
+            rules.taxBrackets.push(TaxBracket({ start: start, width: widths[i], rateBps: ratesBps[i] }));
+            // Saturates, so an open-ended top bracket can be given the largest width
+            start = widths[i] > type(uint64).max - start ? type(uint64).max : start + widths[i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function setWithholdingRules(Rules storage rules, string[] calldata labels, uint16[] calldata ratesBps) public {
+        if (labels.length != ratesBps.length) revert LengthMismatch();
+        if (labels.length > MAX_DEDUCTION_RULES) revert TooManyRules();
+        delete rules.withholdingRules;
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < labels.length; ) {
+            if (ratesBps[i] > BPS_DENOMINATOR) revert InvalidRate();
+            rules.withholdingRules.push(WithholdingRule({ label: labels[i], rateBps: ratesBps[i] }));
+            total += ratesBps[i];
+            unchecked {
+                i++;
+            }
+        }
+        rules.totalWithholdingBps = uint16(total > BPS_DENOMINATOR ? BPS_DENOMINATOR : total);
+    }
+
+    function setBenefitDeductions(
+        Rules storage rules,
+        string[] calldata labels,
+        externalEuint64[] calldata amountInputs,
+        bytes calldata inputProof
+    ) public {
+        if (labels.length != amountInputs.length) revert LengthMismatch();
+        if (labels.length > MAX_DEDUCTION_RULES) revert TooManyRules();
+        while (rules.benefitDeductions.length > 0) rules.benefitDeductions.pop();
+
+        euint64 total = FHE.asEuint64(0);
+        for (uint256 i = 0; i < labels.length; ) {
+            euint64 amount = FHE.fromExternal(amountInputs[i], inputProof);
+            rules.benefitDeductions.push(DeductionRule({ label: labels[i], value: amount }));
+            _allowRuleValue(amount);
+            total = total.add(amount);
+            unchecked {
+                i++;
+            }
+        }
+        rules.totalBenefitDeduction = total;
+        _allowRuleValue(total);
+    }
+
+    // Replaces the employee's pay inputs in a batch and reprices the payout under the current rules
+    function submit(
+        Employee storage emp,
+        Rules storage rules,
+        Totals storage totals,
+        euint64 salary,
+        euint32 investmentPercentage,
+        address wallet
+    ) public {
+        Totals memory running = totals;
+        if (emp.payout.netPay.isInitialized()) _subtractFromTotals(running, emp);
+        emp.encryptedSalary = salary;
+        emp.encryptedInvestmentPercentage = investmentPercentage;
+        _price(emp, rules, running, wallet);
+        _saveTotals(totals, running);
+    }
+
+    // Both running sums change on every adjustment, so their handles do not reveal its direction. The
+    // adjustment stays readable by its submitter and the employee.
+    function adjust(
+        Employee storage emp,
+        Rules storage rules,
+        Totals storage totals,
+        externalEuint64 amountInput,
+        externalEbool isDebitInput,
+        bytes calldata inputProof,
+        address wallet
+    ) public returns (euint64 amount, ebool isDebit) {
+        amount = FHE.fromExternal(amountInput, inputProof);
+        isDebit = FHE.fromExternal(isDebitInput, inputProof);
+        FHE.allowThis(amount);
+        FHE.allowThis(isDebit);
+        FHE.allow(amount, msg.sender);
+        FHE.allow(isDebit, msg.sender);
+        FHE.allow(amount, wallet);
+        FHE.allow(isDebit, wallet);
+
+        Totals memory running = totals;
+        _subtractFromTotals(running, emp);
+        euint64 zero = FHE.asEuint64(0);
+        emp.adjustmentCredits = emp.adjustmentCredits.add(FHE.select(isDebit, zero, amount));
+        emp.adjustmentDebits = emp.adjustmentDebits.add(FHE.select(isDebit, amount, zero));
+        FHE.allowThis(emp.adjustmentCredits);
+        FHE.allowThis(emp.adjustmentDebits);
+        _price(emp, rules, running, wallet);
+        _saveTotals(totals, running);
+    }
+
+    // Carries an employee's priced entry over from the batch a revision amends, without repricing it
+    function copy(Employee storage emp, Employee storage source, Totals storage totals) public {
+        emp.encryptedSalary = source.encryptedSalary;
+        emp.encryptedInvestmentPercentage = source.encryptedInvestmentPercentage;
+        emp.adjustmentCredits = source.adjustmentCredits;
+        emp.adjustmentDebits = source.adjustmentDebits;
+        emp.payout = source.payout;
+
+        Totals memory running = totals;
+        _addToTotals(running, emp.encryptedSalary, emp.payout);
+        _saveTotals(totals, running);
+    }
+
+    // A revision starts from its parent's overflow flag, since carried entries are not repriced
+    function initTotals(Totals storage totals, ebool overflowed) public {
+        euint64 zero = FHE.asEuint64(0);
+        FHE.allowThis(zero);
+        totals.salary = zero;
+        totals.gross = zero;
+        totals.adjustmentCredits = zero;
+        totals.adjustmentDebits = zero;
+        totals.investment = zero;
+        totals.tax = zero;
+        totals.withholding = zero;
+        totals.benefits = zero;
+        totals.netPay = zero;
+        totals.overflowed = overflowed.isInitialized() ? overflowed : FHE.asEbool(false);
+        FHE.allowThis(totals.overflowed);
+    }
+
+    // Order matches StealthPayrollFHE.SummaryCleartexts, the layout decoded in its decryption callback
+    function summaryCiphertexts(
+        Totals storage totals,
+        euint32 invalidEntryCount
+    ) public view returns (bytes32[] memory cts) {
+        cts = new bytes32[](SUMMARY_CIPHERTEXTS);
+        cts[0] = totals.salary.toBytes32();
+        cts[1] = totals.investment.toBytes32();
+        cts[2] = totals.overflowed.toBytes32();
+        cts[3] = invalidEntryCount.toBytes32();
+        cts[4] = totals.tax.toBytes32();
+        cts[5] = totals.withholding.toBytes32();
+        cts[6] = totals.benefits.toBytes32();
+        cts[7] = totals.netPay.toBytes32();
+        cts[8] = totals.adjustmentCredits.toBytes32();
+        cts[9] = totals.adjustmentDebits.toBytes32();
+    }
+
+    // The summary aggregates, then EMPLOYEE_CIPHERTEXTS handles per requested employee, each made readable by
+    // msg.sender for the current transaction. Employees outside the batch are left as zero handles.
+    function exportCiphertexts(
+        mapping(uint256 => Employee) storage employees,
+        Totals storage totals,
+        euint32 invalidEntryCount,
+        uint256[] calldata employeeIds
+    ) public returns (bytes32[] memory cts) {
+        bytes32[] memory aggregates = summaryCiphertexts(totals, invalidEntryCount);
+        cts = new bytes32[](SUMMARY_CIPHERTEXTS + employeeIds.length * EMPLOYEE_CIPHERTEXTS);
+        for (uint256 i = 0; i < SUMMARY_CIPHERTEXTS; ) {
+            cts[i] = aggregates[i];
+            unchecked {
+                i++;
+            }
+        }
+        for (uint256 i = 0; i < employeeIds.length; ) {
+            Employee storage emp = employees[employeeIds[i]];
+            if (emp.isActive) {
+                uint256 offset = SUMMARY_CIPHERTEXTS + i * EMPLOYEE_CIPHERTEXTS;
+                cts[offset] = emp.encryptedSalary.toBytes32();
+                cts[offset + 1] = emp.payout.gross.toBytes32();
+                cts[offset + 2] = emp.payout.investment.toBytes32();
+                cts[offset + 3] = emp.payout.tax.toBytes32();
+                cts[offset + 4] = emp.payout.withholding.toBytes32();
+                cts[offset + 5] = emp.payout.benefits.toBytes32();
+                cts[offset + 6] = emp.payout.netPay.toBytes32();
+            }
+            unchecked {
+                i++;
+            }
+        }
+        for (uint256 i = 0; i < cts.length; ) {
+            if (cts[i] != bytes32(0)) Impl.allowTransient(cts[i], msg.sender);
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    // Security: fromExternal checks the proof with the InputVerifier, which binds it to the payroll contract and
+    // to msg.sender. Handles encrypted for another contract or by another account revert here.
+    // Out-of-range percentages are clamped to 100 and counted, without revealing which entry was invalid.
+    function acceptPayInputs(
+        externalEuint64 salaryInput,
+        externalEuint32 investmentPercentageInput,
+        bytes calldata inputProof,
+        euint32 invalidEntryCount
+    ) public returns (euint64 salary, euint32 investmentPercentage, euint32 newInvalidEntryCount) {
+        salary = FHE.fromExternal(salaryInput, inputProof);
+        euint32 percentage = FHE.fromExternal(investmentPercentageInput, inputProof);
+        ebool isValid = percentage.le(100);
+        investmentPercentage = FHE.select(isValid, percentage, FHE.asEuint32(100));
+        newInvalidEntryCount = invalidEntryCount.add(FHE.asEuint32(isValid.not()));
+
+        FHE.allowThis(salary);
+        FHE.allowThis(investmentPercentage);
+        FHE.allowThis(newInvalidEntryCount);
+        FHE.allow(salary, msg.sender);
+        FHE.allow(investmentPercentage, msg.sender);
+    }
+
+    // Gross pay is the salary plus credits minus debits, capped at MAX_GROSS_PAY. Investment, tax and flat
+    // withholding are assessed on gross pay, and each deduction is capped at what remains.
+    function _price(Employee storage emp, Rules storage rules, Totals memory running, address wallet) private {
+        Payout memory payout;
+        euint64 gross = emp.encryptedSalary;
+        // Adjustment sums stay uninitialized for employees without any
+        if (emp.adjustmentCredits.isInitialized()) {
+            payout.adjustmentCredits = emp.adjustmentCredits;
+            euint64 withCredits = gross.add(emp.adjustmentCredits);
+            withCredits = FHE.select(withCredits.lt(gross), FHE.asEuint64(type(uint64).max), withCredits);
+            payout.adjustmentDebits = FHE.min(emp.adjustmentDebits, withCredits);
+            gross = withCredits.sub(payout.adjustmentDebits);
+        }
+        running.overflowed = running.overflowed.or(gross.gt(MAX_GROSS_PAY));
+        gross = FHE.min(gross, MAX_GROSS_PAY);
+        payout.gross = gross;
+
+        payout.investment = gross.mul(FHE.asEuint64(emp.encryptedInvestmentPercentage)).div(100);
+        euint64 remaining = gross.sub(payout.investment);
+        payout.tax = _capped(_progressiveTax(rules, gross), remaining);
+        remaining = remaining.sub(payout.tax);
+        payout.withholding = rules.totalWithholdingBps == 0
+            ? FHE.asEuint64(0)
+            : FHE.min(gross.mul(rules.totalWithholdingBps).div(BPS_DENOMINATOR), remaining);
+        remaining = remaining.sub(payout.withholding);
+        payout.benefits = _capped(rules.totalBenefitDeduction, remaining);
+        payout.netPay = remaining.sub(payout.benefits);
+
+        _storePayout(emp.payout, payout, wallet);
+        _addToTotals(running, emp.encryptedSalary, payout);
+    }
+
+    // Sum over brackets of the part of gross pay in the bracket times its rate, divided once. Brackets do not
+    // overlap and gross pay is at most MAX_GROSS_PAY, so the sum stays within 64 bits.
+    function _progressiveTax(Rules storage rules, euint64 gross) private returns (euint64 weighted) {
+        for (uint256 i = 0; i < rules.taxBrackets.length; ) {
+            TaxBracket storage bracket = rules.taxBrackets[i];
+            if (bracket.rateBps != 0 && bracket.start < MAX_GROSS_PAY) {
+                // Saturating gross - start, then capped to the bracket width
+                euint64 inBracket = bracket.start == 0 ? gross : FHE.max(gross, bracket.start).sub(bracket.start);
+                if (bracket.width < MAX_GROSS_PAY) inBracket = FHE.min(inBracket, bracket.width);
+                euint64 bracketTax = inBracket.mul(uint64(bracket.rateBps));
+                weighted = weighted.isInitialized() ? weighted.add(bracketTax) : bracketTax;
+            }
+            unchecked {
+                i++;
+            }
+        }
+        if (weighted.isInitialized()) weighted = weighted.div(BPS_DENOMINATOR);
+    }
+
+    // An unconfigured deduction is zero
+    function _capped(euint64 deduction, euint64 remaining) private returns (euint64) {
+        return deduction.isInitialized() ? FHE.min(deduction, remaining) : FHE.asEuint64(0);
+    }
+
+    // Kept per employee and batch as the payslip breakdown; every component is readable by the employee
+    function _storePayout(Payout storage stored, Payout memory payout, address wallet) private {
+        stored.gross = _allowPayoutValue(payout.gross, wallet);
+        stored.adjustmentCredits = _allowPayoutValue(payout.adjustmentCredits, wallet);
+        stored.adjustmentDebits = _allowPayoutValue(payout.adjustmentDebits, wallet);
+        stored.investment = _allowPayoutValue(payout.investment, wallet);
+        stored.tax = _allowPayoutValue(payout.tax, wallet);
+        stored.withholding = _allowPayoutValue(payout.withholding, wallet);
+        stored.benefits = _allowPayoutValue(payout.benefits, wallet);
+        stored.netPay = _allowPayoutValue(payout.netPay, wallet);
+    }
+
+    // FHE addition wraps silently, so a wrapped running total is tracked as an encrypted flag
+    function _addToTotals(Totals memory totals, euint64 salary, Payout memory payout) private {
+        euint64 newTotalSalary = totals.salary.add(salary);
+        euint64 newTotalGross = totals.gross.add(payout.gross);
+        totals.overflowed = totals.overflowed.or(newTotalSalary.lt(totals.salary));
+        totals.overflowed = totals.overflowed.or(newTotalGross.lt(totals.gross));
+        totals.salary = newTotalSalary;
+        totals.gross = newTotalGross;
+        if (payout.adjustmentCredits.isInitialized()) {
+            euint64 newTotalCredits = totals.adjustmentCredits.add(payout.adjustmentCredits);
+            totals.overflowed = totals.overflowed.or(newTotalCredits.lt(totals.adjustmentCredits));
+            totals.adjustmentCredits = newTotalCredits;
+            totals.adjustmentDebits = totals.adjustmentDebits.add(payout.adjustmentDebits);
+        }
+
+        // Every remaining component is bounded by gross pay, so none of these totals can wrap unless it does
+        totals.investment = totals.investment.add(payout.investment);
+        totals.tax = totals.tax.add(payout.tax);
+        totals.withholding = totals.withholding.add(payout.withholding);
+        totals.benefits = totals.benefits.add(payout.benefits);
+        totals.netPay = totals.netPay.add(payout.netPay);
+    }
+
+    // Takes a priced employee back out of the totals before repricing; the overflow flag is never cleared
+    function _subtractFromTotals(Totals memory totals, Employee storage emp) private {
+        Payout storage payout = emp.payout;
+        totals.salary = totals.salary.sub(emp.encryptedSalary);
+        totals.gross = totals.gross.sub(payout.gross);
+        if (payout.adjustmentCredits.isInitialized()) {
+            totals.adjustmentCredits = totals.adjustmentCredits.sub(payout.adjustmentCredits);
+            totals.adjustmentDebits = totals.adjustmentDebits.sub(payout.adjustmentDebits);
+        }
+        totals.investment = totals.investment.sub(payout.investment);
+        totals.tax = totals.tax.sub(payout.tax);
+        totals.withholding = totals.withholding.sub(payout.withholding);
+        totals.benefits = totals.benefits.sub(payout.benefits);
+        totals.netPay = totals.netPay.sub(payout.netPay);
+    }
+
+    function _saveTotals(Totals storage stored, Totals memory totals) private {
+        stored.salary = _allowTotal(totals.salary);
+        stored.gross = _allowTotal(totals.gross);
+        stored.adjustmentCredits = _allowTotal(totals.adjustmentCredits);
+        stored.adjustmentDebits = _allowTotal(totals.adjustmentDebits);
+        stored.investment = _allowTotal(totals.investment);
+        stored.tax = _allowTotal(totals.tax);
+        stored.withholding = _allowTotal(totals.withholding);
+        stored.benefits = _allowTotal(totals.benefits);
+        stored.netPay = _allowTotal(totals.netPay);
+        stored.overflowed = totals.overflowed;
+        FHE.allowThis(stored.overflowed);
+    }
+
+    function _allowTotal(euint64 value) private returns (euint64) {
+        FHE.allowThis(value);
+        return value;
+    }
+
+    // Adjustment credits stay uninitialized for employees without any; those are stored as is
+    function _allowPayoutValue(euint64 value, address wallet) private returns (euint64) {
+        if (!FHE.isInitialized(value)) return value;
+        FHE.allowThis(value);
+        if (wallet != address(0)) FHE.allow(value, wallet);
+        return value;
+    }
+
+    // Rule values stay readable by the admin who configured them
+    function _allowRuleValue(euint64 value) private {
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+    }
+}
@@ -0,0 +1,411 @@
+pragma solidity ^0.8.24;
+import { FHE, euint8, euint32, euint64, externalEuint8, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { StealthPayrollFHE } from "./Stealth_Payroll.sol";
+import { IPayrollCiphertextSource } from "./PayrollTreasury.sol";
+
+// Pay-equity reporting over encrypted group tags. A report sums the salaries and member counts of every group
+// across a whole closed batch, then decrypts only the average of each group with at least minGroupSize members.
+// The oracle first releases each headcount rounded down to a multiple of minGroupSize; the average is then
+// divided out under FHE by trying every headcount in that range, so neither the exact headcount nor the group
+// total is ever decrypted.
+contract PayrollEquity is SepoliaConfig {
+    using FHE for euint8;
+    using FHE for euint32;
+    using FHE for euint64;
+
+    error InvalidAddress();
+    error MissingRole(bytes32 role, address account);
+    error ReplayAttempt();
+    error TooManyGroups();
+    error NoGroups(Dimension dimension);
+    error InvalidMinGroupSize();
+    error TagsChangedSinceReport(uint256 batchId, uint256 reportId);
+    error MinGroupSizeChangedSinceReport(uint256 batchId, uint256 reportId);
+    error BatchNotClosed(uint256 batchId);
+    error ReportNotFound(uint256 reportId);
+    error ReportNotAccumulating(uint256 reportId);
+    error ReportIncomplete(uint256 reportId, uint256 included, uint256 total);
+    error ReportNotAveraging(uint256 reportId);
+
+    enum Dimension {
+        Gender,
+        RoleBand
+    }
+
+    enum ReportStatus {
+        None,
+        Accumulating,
+        HeadcountsPending,
+        Averaging,
+        AveragesPending,
+        Decrypted
+    }
+
+    struct Report {
+        uint256 id;
+        uint256 batchId;
+        Dimension dimension;
+        uint8 groupCount;
+        uint32 minGroupSize; // Snapshot of minGroupSize when the report was created
+        uint256 cursor; // Position reached in the batch's employee list
+        uint256 employeeCount; // Length of the batch's employee list
+        uint256 averagedGroups; // Groups whose average has been computed
+        uint256 tagsVersion; // Snapshot of tagsVersion when the report was created
+        ReportStatus status;
+        uint256 requestId;
+        address createdBy;
+        uint64 createdAt;
+        uint64 decryptedAt;
+    }
+
+    // Averages are in the batch currency's minor units
+    struct GroupResult {
+        bool released; // False when the group had fewer than minGroupSize members
+        uint32 minHeadcount; // Headcount rounded down to a multiple of minGroupSize
+        uint64 averageSalary;
+    }
+
+    struct DecryptionContext {
+        uint256 reportId;
+        bool processed;
+    }
+
+    uint8 public constant MAX_GROUPS = 8;
+    uint32 public constant MIN_GROUP_SIZE_FLOOR = 2;
+    // Computing an average costs one scalar division per headcount in its range; 20 fit in one transaction
+    uint32 public constant MIN_GROUP_SIZE_CEILING = 20;
+    uint256 private constant AGGREGATE_CIPHERTEXTS = 10; // Summary handles ahead of employee handles in exportBatchCiphertexts
+    uint256 private constant EMPLOYEE_CIPHERTEXTS = 7;
+
+    StealthPayrollFHE public immutable payroll;
+    uint32 public minGroupSize;
+    uint256 public tagsVersion; // Bumped whenever group labels or tags change
+
+    mapping(Dimension => string[]) private _groupLabels;
+    mapping(uint256 => mapping(Dimension => euint8)) private _groupTags; // employeeId -> dimension -> group index
+
+    Report[] private _reports; // reportId - 1 -> Report
+    mapping(uint256 => euint64[]) private _groupSums; // reportId -> per-group salary sums
+    mapping(uint256 => euint32[]) private _groupCounts; // reportId -> per-group member counts
+    mapping(uint256 => uint32[]) private _headcountBuckets; // reportId -> per-group headcount / minGroupSize
+    mapping(uint256 => euint64[]) private _averages; // reportId -> per-group average salaries
+    mapping(uint256 => uint256) private _firstReportIds; // batchId -> id of the batch's first report
+    mapping(uint256 => GroupResult[]) private _results; // reportId -> per-group released averages
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+
+    event GroupLabelsSet(Dimension indexed dimension, string[] labels);
+    event MinGroupSizeSet(uint32 oldMinGroupSize, uint32 newMinGroupSize);
+    event GroupTagsSet(uint256 indexed employeeId, address indexed setBy);
+    event ReportCreated(uint256 indexed reportId, uint256 indexed batchId, Dimension dimension, address indexed createdBy);
+    event ReportAccumulated(uint256 indexed reportId, uint256 cursor, uint256 employeeCount);
+    event ReportDecryptionRequested(uint256 indexed reportId, uint256 indexed requestId);
+    event ReportHeadcountsDecrypted(uint256 indexed reportId, uint256 indexed requestId);
+    event ReportAveraged(uint256 indexed reportId, uint256 averagedGroups, uint256 groupCount);
+    event ReportAveragesRequested(uint256 indexed reportId, uint256 indexed requestId);
+    event ReportDecrypted(uint256 indexed reportId, uint256 indexed requestId);
+
+    modifier onlyPayrollAdmin() {
+        bytes32 role = payroll.PAYROLL_ADMIN_ROLE();
+        if (!payroll.hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    constructor(address payroll_, uint32 minGroupSize_) {
+        if (payroll_ == address(0)) revert InvalidAddress();
+        if (minGroupSize_ < MIN_GROUP_SIZE_FLOOR || minGroupSize_ > MIN_GROUP_SIZE_CEILING) {
+            revert InvalidMinGroupSize();
+        }
+        payroll = StealthPayrollFHE(payroll_);
+        minGroupSize = minGroupSize_;
+    }
+
+    // Labels are public; which group an employee belongs to is not
+    function setGroupLabels(Dimension dimension, string[] calldata labels) external onlyPayrollAdmin {
+        if (labels.length > MAX_GROUPS) revert TooManyGroups();
+        _groupLabels[dimension] = labels;
+        tagsVersion++;
+        emit GroupLabelsSet(dimension, labels);
+    }
+
+    function setMinGroupSize(uint32 newMinGroupSize) external onlyPayrollAdmin {
+        if (newMinGroupSize < MIN_GROUP_SIZE_FLOOR || newMinGroupSize > MIN_GROUP_SIZE_CEILING) {
+            revert InvalidMinGroupSize();
+        }
+        emit MinGroupSizeSet(minGroupSize, newMinGroupSize);
+        minGroupSize = newMinGroupSize;
+    }
+
+    // Tags are indexes into the dimension's labels; an index past the last label leaves the employee out
+    function setGroupTags(
+        uint256 employeeId,
+        externalEuint8 genderInput,
+        externalEuint8 roleBandInput,
+        bytes calldata inputProof
+    ) external onlyPayrollAdmin {
+        euint8 gender = FHE.fromExternal(genderInput, inputProof);
+        euint8 roleBand = FHE.fromExternal(roleBandInput, inputProof);
+        FHE.allowThis(gender);
+        FHE.allowThis(roleBand);
+        FHE.allow(gender, msg.sender);
+        FHE.allow(roleBand, msg.sender);
+        _groupTags[employeeId][Dimension.Gender] = gender;
+        _groupTags[employeeId][Dimension.RoleBand] = roleBand;
+        tagsVersion++;
+        emit GroupTagsSet(employeeId, msg.sender);
+    }
+
+    // Reports always cover the whole batch, so totals over hand-picked subsets cannot be differenced
+    function createReport(uint256 batchId, Dimension dimension) external onlyPayrollAdmin returns (uint256 reportId) {
+        uint256 groupCount = _groupLabels[dimension].length;
+        if (groupCount == 0) revert NoGroups(dimension);
+        (uint256 id, bool isOpen, , , , , ) = payroll.batches(batchId);
+        if (id == 0 || isOpen) revert BatchNotClosed(batchId);
+        // Security: reports on the same salaries before and after moving one employee between groups would
+        // differ by exactly that employee's salary. A different minGroupSize releases different groups of the same
+        // totals, which can be differenced the same way.
+        uint256 firstReportId = _firstReportIds[batchId];
+        if (firstReportId != 0) {
+            Report storage first = _reports[firstReportId - 1];
+            if (first.tagsVersion != tagsVersion) revert TagsChangedSinceReport(batchId, firstReportId);
+            if (first.minGroupSize != minGroupSize) revert MinGroupSizeChangedSinceReport(batchId, firstReportId);
+        }
+
+        reportId = _reports.length + 1;
+        if (firstReportId == 0) _firstReportIds[batchId] = reportId;
+        _reports.push(
+            Report({
+                id: reportId,
+                batchId: batchId,
+                dimension: dimension,
+                groupCount: uint8(groupCount),
+                minGroupSize: minGroupSize,
+                cursor: 0,
+                employeeCount: payroll.getBatchEmployeeIds(batchId).length,
+                averagedGroups: 0,
+                tagsVersion: tagsVersion,
+                status: ReportStatus.Accumulating,
+                requestId: 0,
+                createdBy: msg.sender,
+                createdAt: uint64(block.timestamp),
+                decryptedAt: 0
+            })
+        );
+        for (uint256 g = 0; g < groupCount; ) {
+            euint64 sum = FHE.asEuint64(0);
+            euint32 count = FHE.asEuint32(0);
+            FHE.allowThis(sum);
+            FHE.allowThis(count);
+            _groupSums[reportId].push(sum);
+            _groupCounts[reportId].push(count);
+            unchecked {
+                g++;
+            }
+        }
+        emit ReportCreated(reportId, batchId, dimension, msg.sender);
+    }
+
+    // Adds the next maxEmployees salaries of the batch to the group totals; call until cursor reaches employeeCount.
+    // Salaries are the handles the payroll stored when the batch was submitted, so a call only costs its own page.
+    function accumulate(uint256 reportId, uint256 maxEmployees) external onlyPayrollAdmin {
+        Report storage report = _report(reportId);
+        if (report.status != ReportStatus.Accumulating) revert ReportNotAccumulating(reportId);
+
+        uint256[] memory batchEmployeeIds = payroll.getBatchEmployeeIds(report.batchId);
+        uint256 end = report.cursor + maxEmployees > report.employeeCount ? report.employeeCount : report.cursor + maxEmployees;
+        uint256[] memory employeeIds = new uint256[](end - report.cursor);
+        for (uint256 i = 0; i < employeeIds.length; ) {
+            employeeIds[i] = batchEmployeeIds[report.cursor + i];
+            unchecked {
+                i++;
+            }
+        }
+
+        // Requires PAYROLL_MODULE_ROLE on the payroll and a closed batch
+        bytes32[] memory cts = IPayrollCiphertextSource(address(payroll)).exportBatchCiphertexts(report.batchId, employeeIds);
+        euint64[] storage sums = _groupSums[reportId];
+        euint32[] storage counts = _groupCounts[reportId];
+        for (uint256 i = 0; i < employeeIds.length; ) {
+            euint64 salary = euint64.wrap(cts[AGGREGATE_CIPHERTEXTS + i * EMPLOYEE_CIPHERTEXTS]);
+            euint8 tag = _groupTags[employeeIds[i]][report.dimension];
+            if (euint64.unwrap(salary) != bytes32(0) && tag.isInitialized()) {
+                for (uint8 g = 0; g < report.groupCount; ) {
+                    ebool isMember = tag.eq(g);
+                    sums[g] = sums[g].add(FHE.select(isMember, salary, FHE.asEuint64(0)));
+                    counts[g] = counts[g].add(FHE.asEuint32(isMember));
+                    FHE.allowThis(sums[g]);
+                    FHE.allowThis(counts[g]);
+                    unchecked {
+                        g++;
+                    }
+                }
+            }
+            unchecked {
+                i++;
+            }
+        }
+        report.cursor = end;
+        emit ReportAccumulated(reportId, end, report.employeeCount);
+    }
+
+    // First step of decryption: releases each group's headcount rounded down to a multiple of minGroupSize
+    function requestReportDecryption(uint256 reportId) external onlyPayrollAdmin {
+        Report storage report = _report(reportId);
+        if (report.status != ReportStatus.Accumulating) revert ReportNotAccumulating(reportId);
+        if (report.cursor < report.employeeCount) revert ReportIncomplete(reportId, report.cursor, report.employeeCount);
+
+        // Slots past groupCount are zero; a zero bucket means the group is below minGroupSize
+        bytes32[] memory cts = new bytes32[](MAX_GROUPS);
+        euint32 zero = FHE.asEuint32(0);
+        for (uint256 g = 0; g < MAX_GROUPS; ) {
+            cts[g] = g < report.groupCount
+                ? _groupCounts[reportId][g].div(report.minGroupSize).toBytes32()
+                : zero.toBytes32();
+            unchecked {
+                g++;
+            }
+        }
+
+        uint256 requestId = FHE.requestDecryption(cts, this.headcountCallback.selector);
+        decryptionContexts[requestId] = DecryptionContext({ reportId: reportId, processed: false });
+        report.status = ReportStatus.HeadcountsPending;
+        report.requestId = requestId;
+        emit ReportDecryptionRequested(reportId, requestId);
+    }
+
+    function headcountCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.processed) revert ReplayAttempt();
+        // Security: checkSignatures binds the cleartexts to the ciphertexts registered under requestId
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        uint32[8] memory buckets = abi.decode(cleartexts, (uint32[8]));
+        ctx.processed = true;
+
+        Report storage report = _reports[ctx.reportId - 1];
+        for (uint256 g = 0; g < report.groupCount; ) {
+            _headcountBuckets[ctx.reportId].push(buckets[g]);
+            unchecked {
+                g++;
+            }
+        }
+        report.status = ReportStatus.Averaging;
+        emit ReportHeadcountsDecrypted(ctx.reportId, requestId);
+    }
+
+    // Divides the next maxGroups group totals by their encrypted headcounts, then requests the averages once
+    // every group is done. Each released group costs minGroupSize scalar divisions.
+    function computeAverages(uint256 reportId, uint256 maxGroups) external onlyPayrollAdmin {
+        Report storage report = _report(reportId);
+        if (report.status != ReportStatus.Averaging) revert ReportNotAveraging(reportId);
+
+        uint256 end = report.averagedGroups + maxGroups > report.groupCount
+            ? report.groupCount
+            : report.averagedGroups + maxGroups;
+        for (uint256 g = report.averagedGroups; g < end; ) {
+            uint256 first = uint256(_headcountBuckets[reportId][g]) * report.minGroupSize;
+            euint64 average = FHE.asEuint64(0);
+            // first is zero for a withheld group, whose average stays zero
+            if (first != 0) {
+                euint64 sum = _groupSums[reportId][g];
+                euint32 count = _groupCounts[reportId][g];
+                for (uint256 c = first; c < first + report.minGroupSize; ) {
+                    average = FHE.select(count.eq(uint32(c)), sum.div(uint64(c)), average);
+                    unchecked {
+                        c++;
+                    }
+                }
+            }
+            FHE.allowThis(average);
+            _averages[reportId].push(average);
+            unchecked {
+                g++;
+            }
+        }
+        report.averagedGroups = end;
+        emit ReportAveraged(reportId, end, report.groupCount);
+        if (end == report.groupCount) _requestAverages(reportId, report);
+    }
+
+    function reportCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.processed) revert ReplayAttempt();
+        // Security: checkSignatures binds the cleartexts to the ciphertexts registered under requestId
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        uint64[8] memory averages = abi.decode(cleartexts, (uint64[8]));
+        ctx.processed = true;
+
+        Report storage report = _reports[ctx.reportId - 1];
+        for (uint256 g = 0; g < report.groupCount; ) {
+            uint32 bucket = _headcountBuckets[ctx.reportId][g];
+            _results[ctx.reportId].push(
+                GroupResult({
+                    released: bucket != 0,
+                    minHeadcount: bucket * report.minGroupSize,
+                    averageSalary: averages[g]
+                })
+            );
+            unchecked {
+                g++;
+            }
+        }
+        report.status = ReportStatus.Decrypted;
+        report.decryptedAt = uint64(block.timestamp);
+        emit ReportDecrypted(ctx.reportId, requestId);
+    }
+
+    function getGroupLabels(Dimension dimension) external view returns (string[] memory) {
+        return _groupLabels[dimension];
+    }
+
+    function getGroupTags(uint256 employeeId) external view returns (euint8 gender, euint8 roleBand) {
+        return (_groupTags[employeeId][Dimension.Gender], _groupTags[employeeId][Dimension.RoleBand]);
+    }
+
+    function reportCount() external view returns (uint256) {
+        return _reports.length;
+    }
+
+    function getReport(uint256 reportId) external view returns (Report memory) {
+        return _report(reportId);
+    }
+
+    function getReports(uint256 offset, uint256 limit) external view returns (Report[] memory page) {
+        uint256 total = _reports.length;
+        if (offset >= total) return new Report[](0);
+        uint256 end = offset + limit > total ? total : offset + limit;
+
+        page = new Report[](end - offset);
+        for (uint256 i = offset; i < end; ) {
+            page[i - offset] = _reports[i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function getReportResults(uint256 reportId) external view returns (GroupResult[] memory) {
+        return _results[reportId];
+    }
+
+    function _requestAverages(uint256 reportId, Report storage report) internal {
+        bytes32[] memory cts = new bytes32[](MAX_GROUPS);
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 g = 0; g < MAX_GROUPS; ) {
+            cts[g] = g < report.groupCount ? _averages[reportId][g].toBytes32() : zero.toBytes32();
+            unchecked {
+                g++;
+            }
+        }
+
+        uint256 requestId = FHE.requestDecryption(cts, this.reportCallback.selector);
+        decryptionContexts[requestId] = DecryptionContext({ reportId: reportId, processed: false });
+        report.status = ReportStatus.AveragesPending;
+        report.requestId = requestId;
+        emit ReportAveragesRequested(reportId, requestId);
+    }
+
+    function _report(uint256 reportId) internal view returns (Report storage) {
+        if (reportId == 0 || reportId > _reports.length) revert ReportNotFound(reportId);
+        return _reports[reportId - 1];
+    }
+}
@@ -0,0 +1,127 @@
+pragma solidity ^0.8.24;
+import { PayrollAccessControl } from "./PayrollAccessControl.sol";
+
+// Deploys one isolated StealthPayrollFHE instance per organization and keeps the registry of them.
+// Instances are created from an ERC-5202 blueprint (0xFE7100 followed by the creation code) rather than
+// with `new`, so the factory does not embed the payroll bytecode and stays under the contract size limit.
+contract PayrollFactory {
+    error InvalidAddress();
+    error InvalidName();
+    error NameTaken();
+    error OrganizationNotFound(uint256 orgId);
+    error NotOrganizationAdmin(uint256 orgId, address account);
+    error AdminNotGranted(uint256 orgId, address account);
+    error InvalidBlueprint();
+    error DeploymentFailed();
+
+    uint256 private constant BLUEPRINT_PREAMBLE_LENGTH = 3;
+
+    struct Organization {
+        uint256 id;
+        string name;
+        address admin;
+        address payroll;
+        uint64 createdAt;
+    }
+
+    address public immutable payrollBlueprint;
+
+    Organization[] private _organizations; // orgId - 1 -> Organization
+    mapping(bytes32 => uint256) public organizationIdByName; // keccak256(name) -> orgId
+    mapping(address => uint256) public organizationIdByPayroll; // payroll instance -> orgId
+    mapping(address => uint256[]) private _organizationIdsByAdmin;
+
+    event OrganizationCreated(uint256 indexed orgId, string name, address indexed admin, address indexed payroll);
+    event OrganizationAdminChanged(uint256 indexed orgId, address indexed oldAdmin, address indexed newAdmin);
+
+    modifier onlyOrganizationAdmin(uint256 orgId) {
+        if (_organization(orgId).admin != msg.sender) revert NotOrganizationAdmin(orgId, msg.sender);
+        _;
+    }
+
+    constructor(address blueprint) {
+        bytes memory code = blueprint.code;
+        if (code.length <= BLUEPRINT_PREAMBLE_LENGTH || code[0] != 0xFE || code[1] != 0x71 || code[2] != 0x00) {
+            revert InvalidBlueprint();
+        }
+        payrollBlueprint = blueprint;
+    }
+
+    function createOrganization(string calldata name, address admin) external returns (uint256 orgId, address payroll) {
+        if (admin == address(0)) revert InvalidAddress();
+        if (bytes(name).length == 0) revert InvalidName();
+        bytes32 nameHash = keccak256(bytes(name));
+        if (organizationIdByName[nameHash] != 0) revert NameTaken();
+
+        // The admin receives every role on its instance; the factory keeps none
+        payroll = _deployPayroll(admin);
+        orgId = _organizations.length + 1;
+        _organizations.push(
+            Organization({ id: orgId, name: name, admin: admin, payroll: payroll, createdAt: uint64(block.timestamp) })
+        );
+        organizationIdByName[nameHash] = orgId;
+        organizationIdByPayroll[payroll] = orgId;
+        _organizationIdsByAdmin[admin].push(orgId);
+
+        emit OrganizationCreated(orgId, name, admin, payroll);
+    }
+
+    // Roles on the instance are authoritative; the registry only follows an admin that already holds DEFAULT_ADMIN_ROLE
+    function setOrganizationAdmin(uint256 orgId, address newAdmin) external onlyOrganizationAdmin(orgId) {
+        if (newAdmin == address(0)) revert InvalidAddress();
+        Organization storage org = _organization(orgId);
+        PayrollAccessControl payroll = PayrollAccessControl(org.payroll);
+        if (!payroll.hasRole(payroll.DEFAULT_ADMIN_ROLE(), newAdmin)) revert AdminNotGranted(orgId, newAdmin);
+
+        address oldAdmin = org.admin;
+        org.admin = newAdmin;
+        _organizationIdsByAdmin[newAdmin].push(orgId);
+        emit OrganizationAdminChanged(orgId, oldAdmin, newAdmin);
+    }
+
+    function organizationCount() external view returns (uint256) {
+        return _organizations.length;
+    }
+
+    function getOrganization(uint256 orgId) external view returns (Organization memory) {
+        return _organization(orgId);
+    }
+
+    function getOrganizations(uint256 offset, uint256 limit) external view returns (Organization[] memory page) {
+        uint256 total = _organizations.length;
+        if (offset >= total) return new Organization[](0);
+        uint256 end = offset + limit > total ? total : offset + limit;
+
+        page = new Organization[](end - offset);
+        for (uint256 i = offset; i < end; ) {
+            page[i - offset] = _organizations[i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    // Includes organizations the account has since handed over; callers filter on Organization.admin
+    function getOrganizationIdsByAdmin(address admin) external view returns (uint256[] memory) {
+        return _organizationIdsByAdmin[admin];
+    }
+
+    function _deployPayroll(address admin) internal returns (address payroll) {
+        address blueprint = payrollBlueprint;
+        uint256 codeLength = blueprint.code.length - BLUEPRINT_PREAMBLE_LENGTH;
+        bytes memory initCode = new bytes(codeLength);
+        assembly {
+            extcodecopy(blueprint, add(initCode, 0x20), BLUEPRINT_PREAMBLE_LENGTH, codeLength)
+        }
+        initCode = abi.encodePacked(initCode, abi.encode(admin));
+        assembly {
+            payroll := create(0, add(initCode, 0x20), mload(initCode))
+        }
+        if (payroll == address(0)) revert DeploymentFailed();
+    }
+
+    function _organization(uint256 orgId) internal view returns (Organization storage) {
+        if (orgId == 0 || orgId > _organizations.length) revert OrganizationNotFound(orgId);
+        return _organizations[orgId - 1];
+    }
+}
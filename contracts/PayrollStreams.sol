@@ -0,0 +1,242 @@
+pragma solidity ^0.8.24;
+import { FHE, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IConfidentialPayoutToken } from "./ConfidentialPayrollToken.sol";
+import { StealthPayrollFHE } from "./Stealth_Payroll.sol";
+
+// Per-second salary streams for employees whose pay model is Stream on the payroll instance. Each stream
+// accrues an encrypted rate while active and is funded by employer top-ups held by this contract. Accrual stops
+// when the employee is offboarded, whether or not the stream was paused or cancelled first.
+contract PayrollStreams is SepoliaConfig {
+    using FHE for euint64;
+
+    error InvalidAddress();
+    error MissingRole(bytes32 role, address account);
+    error NotStreamPaid(uint256 employeeId);
+    error StreamExists(uint256 employeeId, uint256 streamId);
+    error StreamNotFound(uint256 streamId);
+    error StreamNotActive(uint256 streamId);
+    error StreamNotPaused(uint256 streamId);
+    error StreamAlreadyCancelled(uint256 streamId);
+    error NotRecipient(uint256 streamId, address account);
+    error EmploymentEnded(uint256 streamId);
+
+    enum StreamStatus {
+        None,
+        Active,
+        Paused,
+        Cancelled
+    }
+
+    struct Stream {
+        uint256 id;
+        uint256 employeeId;
+        euint64 ratePerSecond; // In the payout token's minor units
+        euint64 accrued; // Accrued up to lastAccrualAt and not yet withdrawn; may exceed balance
+        euint64 balance; // Topped up and not yet withdrawn or refunded
+        uint64 startedAt;
+        uint64 lastAccrualAt;
+        StreamStatus status;
+    }
+
+    StealthPayrollFHE public immutable payroll;
+    IConfidentialPayoutToken public immutable token;
+
+    Stream[] private _streams; // streamId - 1 -> Stream
+    mapping(uint256 => uint256) public streamIdByEmployee; // employeeId -> latest streamId
+
+    event StreamCreated(uint256 indexed streamId, uint256 indexed employeeId);
+    event StreamToppedUp(uint256 indexed streamId, euint64 amount);
+    event StreamPaused(uint256 indexed streamId);
+    event StreamResumed(uint256 indexed streamId);
+    event StreamCancelled(uint256 indexed streamId, euint64 refund);
+    event StreamWithdrawn(uint256 indexed streamId, address indexed recipient, euint64 amount);
+
+    modifier onlyPayrollAdmin() {
+        bytes32 role = payroll.PAYROLL_ADMIN_ROLE();
+        if (!payroll.hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    constructor(address payroll_, address token_) {
+        if (payroll_ == address(0) || token_ == address(0)) revert InvalidAddress();
+        payroll = StealthPayrollFHE(payroll_);
+        token = IConfidentialPayoutToken(token_);
+    }
+
+    function createStream(
+        uint256 employeeId,
+        externalEuint64 rateInput,
+        bytes calldata inputProof
+    ) external onlyPayrollAdmin returns (uint256 streamId) {
+        (address wallet, StealthPayrollFHE.EmployeeStatus status, , , , , StealthPayrollFHE.PayModel payModel) = payroll
+            .registry(employeeId);
+        if (status != StealthPayrollFHE.EmployeeStatus.Active || payModel != StealthPayrollFHE.PayModel.Stream) {
+            revert NotStreamPaid(employeeId);
+        }
+        uint256 existing = streamIdByEmployee[employeeId];
+        if (existing != 0 && _streams[existing - 1].status != StreamStatus.Cancelled) {
+            revert StreamExists(employeeId, existing);
+        }
+
+        euint64 rate = FHE.fromExternal(rateInput, inputProof);
+        euint64 zero = FHE.asEuint64(0);
+        streamId = _streams.length + 1;
+        _streams.push(
+            Stream({
+                id: streamId,
+                employeeId: employeeId,
+                ratePerSecond: rate,
+                accrued: zero,
+                balance: zero,
+                startedAt: uint64(block.timestamp),
+                lastAccrualAt: uint64(block.timestamp),
+                status: StreamStatus.Active
+            })
+        );
+        streamIdByEmployee[employeeId] = streamId;
+
+        _allowStreamValue(rate, wallet);
+        _allowStreamValue(zero, wallet);
+        emit StreamCreated(streamId, employeeId);
+    }
+
+    // The caller must have made this contract an operator on the token
+    function topUp(
+        uint256 streamId,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external onlyPayrollAdmin {
+        Stream storage stream = _stream(streamId);
+        if (stream.status == StreamStatus.Cancelled) revert StreamAlreadyCancelled(streamId);
+
+        euint64 amount = FHE.fromExternal(amountInput, inputProof);
+        FHE.allowTransient(amount, address(token));
+        euint64 received = token.confidentialTransferFrom(msg.sender, address(this), amount);
+        stream.balance = stream.balance.add(received);
+        _allowStreamValue(stream.balance, _recipient(stream));
+        FHE.allow(received, msg.sender);
+        emit StreamToppedUp(streamId, received);
+    }
+
+    function pauseStream(uint256 streamId) external onlyPayrollAdmin {
+        Stream storage stream = _stream(streamId);
+        if (stream.status != StreamStatus.Active) revert StreamNotActive(streamId);
+        _accrue(stream);
+        stream.status = StreamStatus.Paused;
+        emit StreamPaused(streamId);
+    }
+
+    function resumeStream(uint256 streamId) external onlyPayrollAdmin {
+        Stream storage stream = _stream(streamId);
+        if (stream.status != StreamStatus.Paused) revert StreamNotPaused(streamId);
+        (, bool employed) = _accrualEnd(stream);
+        if (!employed) revert EmploymentEnded(streamId);
+        stream.lastAccrualAt = uint64(block.timestamp);
+        stream.status = StreamStatus.Active;
+        emit StreamResumed(streamId);
+    }
+
+    // Stops accrual and returns the funds not owed to the employee; what has accrued stays withdrawable
+    function cancelStream(uint256 streamId) external onlyPayrollAdmin {
+        Stream storage stream = _stream(streamId);
+        if (stream.status == StreamStatus.Cancelled) revert StreamAlreadyCancelled(streamId);
+        if (stream.status == StreamStatus.Active) _accrue(stream);
+        stream.status = StreamStatus.Cancelled;
+
+        euint64 refund = stream.balance.sub(FHE.min(stream.accrued, stream.balance));
+        FHE.allowTransient(refund, address(token));
+        euint64 refunded = token.confidentialTransfer(msg.sender, refund);
+        stream.balance = stream.balance.sub(refunded);
+        _allowStreamValue(stream.balance, _recipient(stream));
+        FHE.allow(refunded, msg.sender);
+        emit StreamCancelled(streamId, refunded);
+    }
+
+    // Requests above what has accrued or what is funded transfer nothing, without revealing which limit was hit
+    function withdraw(uint256 streamId, externalEuint64 amountInput, bytes calldata inputProof) external {
+        Stream storage stream = _stream(streamId);
+        address recipient = _recipient(stream);
+        if (msg.sender != recipient) revert NotRecipient(streamId, msg.sender);
+        if (stream.status == StreamStatus.Active) _accrue(stream);
+
+        euint64 amount = FHE.fromExternal(amountInput, inputProof);
+        ebool withinLimit = amount.le(FHE.min(stream.accrued, stream.balance));
+        euint64 approved = FHE.select(withinLimit, amount, FHE.asEuint64(0));
+        FHE.allowTransient(approved, address(token));
+        euint64 paid = token.confidentialTransfer(recipient, approved);
+
+        stream.accrued = stream.accrued.sub(paid);
+        stream.balance = stream.balance.sub(paid);
+        _allowStreamValue(stream.accrued, recipient);
+        _allowStreamValue(stream.balance, recipient);
+        FHE.allow(paid, recipient);
+        emit StreamWithdrawn(streamId, recipient, paid);
+    }
+
+    function streamCount() external view returns (uint256) {
+        return _streams.length;
+    }
+
+    function getStream(uint256 streamId) external view returns (Stream memory) {
+        return _stream(streamId);
+    }
+
+    function getStreams(uint256 offset, uint256 limit) external view returns (Stream[] memory page) {
+        uint256 total = _streams.length;
+        if (offset >= total) return new Stream[](0);
+        uint256 end = offset + limit > total ? total : offset + limit;
+
+        page = new Stream[](end - offset);
+        for (uint256 i = offset; i < end; ) {
+            page[i - offset] = _streams[i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    // Adds rate * elapsed seconds to the accrued amount, saturating at the uint64 maximum
+    function _accrue(Stream storage stream) internal {
+        (uint64 end, ) = _accrualEnd(stream);
+        if (end <= stream.lastAccrualAt) return;
+        uint64 elapsed = end - stream.lastAccrualAt;
+        stream.lastAccrualAt = end;
+
+        // Security: FHE arithmetic wraps, so a rate above max / elapsed would accrue a small amount instead
+        euint64 maxAmount = FHE.asEuint64(type(uint64).max);
+        ebool productOverflows = stream.ratePerSecond.gt(type(uint64).max / elapsed);
+        euint64 earned = FHE.select(productOverflows, maxAmount, stream.ratePerSecond.mul(elapsed));
+        euint64 accrued = stream.accrued.add(earned);
+        stream.accrued = FHE.select(accrued.lt(stream.accrued), maxAmount, accrued);
+        _allowStreamValue(stream.accrued, _recipient(stream));
+    }
+
+    // A stream accrues while the employment it was created in lasts. Offboarding ends it at offboardedAt; after
+    // a rehire the payroll no longer knows when the earlier employment ended, so cancel streams when offboarding.
+    function _accrualEnd(Stream storage stream) internal view returns (uint64 end, bool employed) {
+        (, StealthPayrollFHE.EmployeeStatus status, uint64 onboardedAt, uint64 offboardedAt, , , ) = payroll.registry(
+            stream.employeeId
+        );
+        if (onboardedAt > stream.startedAt) return (stream.lastAccrualAt, false);
+        if (status != StealthPayrollFHE.EmployeeStatus.Active) return (offboardedAt, false);
+        return (uint64(block.timestamp), true);
+    }
+
+    // Paid to the employee's current payroll wallet, so wallet changes on the payroll apply to streams too
+    function _recipient(Stream storage stream) internal view returns (address wallet) {
+        (wallet, , , , , , ) = payroll.registry(stream.employeeId);
+    }
+
+    // Stream amounts are readable by the employee and by the admin who last changed them
+    function _allowStreamValue(euint64 value, address recipient) internal {
+        FHE.allowThis(value);
+        FHE.allow(value, recipient);
+        FHE.allow(value, msg.sender);
+    }
+
+    function _stream(uint256 streamId) internal view returns (Stream storage) {
+        if (streamId == 0 || streamId > _streams.length) revert StreamNotFound(streamId);
+        return _streams[streamId - 1];
+    }
+}
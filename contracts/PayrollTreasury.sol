@@ -0,0 +1,202 @@
+pragma solidity ^0.8.24;
+import { FHE, euint32, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IConfidentialPayoutToken } from "./ConfidentialPayrollToken.sol";
+import { PayrollAccessControl } from "./PayrollAccessControl.sol";
+
+interface IPayrollTreasury {
+    function token() external view returns (IConfidentialPayoutToken);
+
+    function consumeSolvencyCheck(uint256 batchId, euint64 netPay) external;
+}
+
+interface IPayrollCiphertextSource {
+    function exportBatchCiphertexts(uint256 batchId, uint256[] calldata employeeIds) external returns (bytes32[] memory);
+
+    function batches(
+        uint256 batchId
+    ) external view returns (uint256, bool, uint256 employeeCount, bool, string memory, uint8, euint32);
+
+    function batchProgress(uint256 batchId) external view returns (uint256, uint256, uint256 paid);
+}
+
+// Escrow holding an organization's payout tokens. A batch can only be paid out after an encrypted
+// balance >= net pay comparison has been decrypted to true, and each passed check funds one payout of exactly
+// the net pay total it compared against.
+contract PayrollTreasury is SepoliaConfig, IPayrollTreasury {
+    using FHE for euint64;
+
+    error InvalidAddress();
+    error MissingRole(bytes32 role, address account);
+    error OnlyPayroll();
+    error ReplayAttempt();
+    error SolvencyCheckPending(uint256 batchId);
+    error SolvencyNotChecked(uint256 batchId);
+    error StaleSolvencyCheck(uint256 batchId);
+    error BatchUnderfunded(uint256 batchId);
+    error PayoutInProgress(uint256 batchId);
+
+    enum SolvencyStatus {
+        None,
+        Pending,
+        Funded,
+        Underfunded,
+        Stale, // Funded when checked, but the balance has been drawn on since
+        Consumed
+    }
+
+    struct SolvencyCheck {
+        SolvencyStatus status;
+        uint256 requestId;
+        uint256 spendNonce; // Value of spendNonce when the check was requested
+        uint64 checkedAt;
+        euint64 netPay; // Batch net pay total the balance was compared against
+    }
+
+    struct DecryptionContext {
+        uint256 batchId;
+        bool processed;
+    }
+
+    uint256 private constant NET_PAY_CIPHERTEXT = 7; // Index of the batch net pay total in exportBatchCiphertexts
+
+    address public immutable payroll;
+    IConfidentialPayoutToken public immutable token;
+
+    // Bumped whenever the balance can go down, so older checks no longer prove the batch is covered
+    uint256 public spendNonce;
+    uint256 public payingBatchId; // Batch whose solvency check was last consumed; it may still be paying out in pages
+    mapping(uint256 => SolvencyCheck) private _solvencyChecks; // batchId -> SolvencyCheck
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+
+    event Deposited(address indexed from, euint64 amount);
+    event Withdrawn(address indexed to, euint64 amount);
+    event SolvencyCheckRequested(uint256 indexed batchId, uint256 indexed requestId);
+    event SolvencyCheckCompleted(uint256 indexed batchId, uint256 indexed requestId, bool funded);
+    event SolvencyCheckConsumed(uint256 indexed batchId);
+
+    modifier onlyPayrollRole(bytes32 role) {
+        if (!PayrollAccessControl(payroll).hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    // The payroll contract becomes the treasury's operator so executeBatch can pull net pay from it
+    constructor(address payroll_, address token_) {
+        if (payroll_ == address(0) || token_ == address(0)) revert InvalidAddress();
+        payroll = payroll_;
+        token = IConfidentialPayoutToken(token_);
+        token.setOperator(payroll_, type(uint48).max);
+    }
+
+    function balance() external view returns (euint64) {
+        return token.confidentialBalanceOf(address(this));
+    }
+
+    // The depositor must have made this treasury an operator on the token
+    function deposit(externalEuint64 amountInput, bytes calldata inputProof) external {
+        euint64 amount = FHE.fromExternal(amountInput, inputProof);
+        FHE.allowTransient(amount, address(token));
+        euint64 transferred = token.confidentialTransferFrom(msg.sender, address(this), amount);
+        FHE.allow(transferred, msg.sender);
+        emit Deposited(msg.sender, transferred);
+    }
+
+    function withdraw(
+        address to,
+        externalEuint64 amountInput,
+        bytes calldata inputProof
+    ) external onlyPayrollRole(PayrollAccessControl(payroll).DEFAULT_ADMIN_ROLE()) {
+        if (to == address(0)) revert InvalidAddress();
+        _revertIfPayoutInProgress();
+        euint64 amount = FHE.fromExternal(amountInput, inputProof);
+        FHE.allowTransient(amount, address(token));
+        euint64 transferred = token.confidentialTransfer(to, amount);
+        spendNonce++;
+        FHE.allow(transferred, msg.sender);
+        emit Withdrawn(to, transferred);
+    }
+
+    function requestSolvencyCheck(
+        uint256 batchId
+    ) external onlyPayrollRole(PayrollAccessControl(payroll).PAYROLL_ADMIN_ROLE()) {
+        SolvencyCheck storage check = _solvencyChecks[batchId];
+        if (check.status == SolvencyStatus.Pending) revert SolvencyCheckPending(batchId);
+        // The balance still holds the unpaid part of the batch being paid out
+        _revertIfPayoutInProgress();
+
+        // Requires PAYROLL_MODULE_ROLE on the payroll; the net pay handle is only usable within this transaction
+        bytes32[] memory batchCts = IPayrollCiphertextSource(payroll).exportBatchCiphertexts(batchId, new uint256[](0));
+        euint64 netPay = euint64.wrap(batchCts[NET_PAY_CIPHERTEXT]);
+        ebool funded = token.confidentialBalanceOf(address(this)).ge(netPay);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(funded);
+        uint256 requestId = FHE.requestDecryption(cts, this.solvencyCallback.selector);
+
+        decryptionContexts[requestId] = DecryptionContext({ batchId: batchId, processed: false });
+        _solvencyChecks[batchId] = SolvencyCheck({
+            status: SolvencyStatus.Pending,
+            requestId: requestId,
+            spendNonce: spendNonce,
+            checkedAt: 0,
+            netPay: netPay
+        });
+        emit SolvencyCheckRequested(batchId, requestId);
+    }
+
+    function solvencyCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.processed) revert ReplayAttempt();
+        // Security: checkSignatures binds the cleartext to the ciphertext registered under requestId
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        bool funded = abi.decode(cleartexts, (bool));
+        ctx.processed = true;
+
+        SolvencyCheck storage check = _solvencyChecks[ctx.batchId];
+        // A newer request for the same batch supersedes this one
+        if (check.requestId != requestId) return;
+        check.status = funded ? SolvencyStatus.Funded : SolvencyStatus.Underfunded;
+        check.checkedAt = uint64(block.timestamp);
+        emit SolvencyCheckCompleted(ctx.batchId, requestId, funded);
+    }
+
+    // netPay is the batch total the payroll is about to pay out
+    function consumeSolvencyCheck(uint256 batchId, euint64 netPay) external {
+        if (msg.sender != payroll) revert OnlyPayroll();
+        SolvencyStatus status = solvencyStatus(batchId);
+        if (status == SolvencyStatus.Underfunded) revert BatchUnderfunded(batchId);
+        if (status == SolvencyStatus.Stale) revert StaleSolvencyCheck(batchId);
+        if (status != SolvencyStatus.Funded) revert SolvencyNotChecked(batchId);
+        // Security: a payout whose net pay differs from the checked total could outrun the balance, and
+        // underfunded transfers pay zero instead of reverting
+        if (euint64.unwrap(_solvencyChecks[batchId].netPay) != euint64.unwrap(netPay)) {
+            revert StaleSolvencyCheck(batchId);
+        }
+        _revertIfPayoutInProgress();
+
+        _solvencyChecks[batchId].status = SolvencyStatus.Consumed;
+        payingBatchId = batchId;
+        spendNonce++;
+        emit SolvencyCheckConsumed(batchId);
+    }
+
+    function solvencyStatus(uint256 batchId) public view returns (SolvencyStatus) {
+        SolvencyCheck storage check = _solvencyChecks[batchId];
+        if (check.status == SolvencyStatus.Funded && check.spendNonce != spendNonce) return SolvencyStatus.Stale;
+        return check.status;
+    }
+
+    // Withdrawing between the pages of a payout would leave the remaining employees paid zero
+    function _revertIfPayoutInProgress() private view {
+        uint256 batchId = payingBatchId;
+        if (batchId == 0) return;
+        (, , uint256 employeeCount, , , , ) = IPayrollCiphertextSource(payroll).batches(batchId);
+        (, , uint256 paid) = IPayrollCiphertextSource(payroll).batchProgress(batchId);
+        if (paid < employeeCount) revert PayoutInProgress(batchId);
+    }
+
+    function getSolvencyCheck(uint256 batchId) external view returns (SolvencyCheck memory check) {
+        check = _solvencyChecks[batchId];
+        check.status = solvencyStatus(batchId);
+    }
+}
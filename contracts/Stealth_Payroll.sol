@@ -1,45 +1,156 @@
 pragma solidity ^0.8.24;
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, externalEuint32, externalEuint64, ebool, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IConfidentialPayoutToken } from "./ConfidentialPayrollToken.sol";
+import { PayrollAccessControl } from "./PayrollAccessControl.sol";
+import { PayrollDeductions } from "./PayrollDeductions.sol";
+import { IPayrollTreasury } from "./PayrollTreasury.sol";
 
-contract StealthPayrollFHE is SepoliaConfig {
+// Implemented by the compliance module, which checks each salary as it enters a batch
+interface IPayrollSubmissionHook {
+    function onEmployeeSubmitted(uint256 batchId, uint256 employeeId, euint64 salary) external;
+}
+
+contract StealthPayrollFHE is SepoliaConfig, PayrollAccessControl {
     using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
+    using PayrollDeductions for PayrollDeductions.Rules;
+    using PayrollDeductions for PayrollDeductions.Employee;
 
-    error NotOwner();
-    error NotProvider();
     error Paused();
     error CooldownActive();
-    error BatchClosed();
+    error BatchNotOpen();
     error InvalidAddress();
     error InvalidCooldown();
     error ReplayAttempt();
     error StateMismatch();
-    error InvalidProof();
     error NotInitialized();
+    error LengthMismatch();
+    error BatchNotClosed();
+    error BatchAlreadyExecuted();
+    error PayoutNotConfigured();
+    error MissingEmployeeWallet(uint256 employeeId);
+    error EmployeeAlreadyActive(uint256 employeeId);
+    error EmployeeNotActive(uint256 employeeId);
+    error InvalidCurrency();
+    error CurrencyMismatch();
+    error InvalidThreshold();
+    error BatchNotFound();
+    error AlreadyApproved();
+    error NotApproved();
+    error SelfApproval();
+    error QuorumNotReached(uint256 batchId, uint256 approvals, uint256 threshold);
+    error QuorumUnreachable(uint256 approvers, uint256 threshold);
+    error EmployeeNotInBatch(uint256 employeeId);
+    error NotBatchPaid(uint256 employeeId);
+    error BatchSuperseded(uint256 batchId, uint256 revisionBatchId);
+    error EmployeeNotAmended(uint256 employeeId);
+    error CarryForwardPending(uint256 batchId, uint256 remaining);
 
-    address public owner;
-    mapping(address => bool) public isProvider;
     bool public paused;
     uint256 public cooldownSeconds;
+    uint256 public approvalThreshold; // Distinct APPROVER_ROLE sign-offs needed to close or pay out a batch
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
 
-    struct Employee {
-        euint32 encryptedSalary;
-        euint32 encryptedInvestmentPercentage; // e.g., 0 for 0%, 10 for 10%. Max 100.
-        bool isActive;
+    enum EmployeeStatus {
+        None,
+        Active,
+        Terminated
+    }
+
+    // Streamed employees are paid by PayrollStreams and left out of batches
+    enum PayModel {
+        Batch,
+        Stream
+    }
+
+    // Persistent roster entry; carryForward brings the latest salary of every active member into a new batch
+    struct RegisteredEmployee {
+        address wallet;
+        EmployeeStatus status;
+        uint64 onboardedAt;
+        uint64 offboardedAt;
+        euint64 latestSalary;
+        euint32 latestInvestmentPercentage;
+        PayModel payModel;
+    }
+
+    enum AdjustmentReason {
+        Bonus,
+        RetroPay,
+        Clawback,
+        Correction
+    }
+
+    // One-off change to an employee's pay in a single batch; the ledger is append-only
+    struct Adjustment {
+        uint256 employeeId;
+        euint64 amount;
+        ebool isDebit; // Encrypted so a correction does not reveal whether it raised or lowered pay
+        AdjustmentReason reason;
+        address submitter;
+        uint64 createdAt;
     }
 
     struct Batch {
         uint256 id;
         bool isOpen;
         uint256 employeeCount;
-        mapping(uint256 => Employee) employees; // employeeId -> Employee
+        bool isExecuted;
+        string currency; // e.g. "USD"
+        uint8 decimals; // Minor units per major unit, e.g. 2 for cents
+        euint32 invalidEntryCount; // Submissions whose investment percentage exceeded 100 and was clamped
+        mapping(uint256 => PayrollDeductions.Employee) employees; // employeeId -> Employee
+        uint256[] employeeIds;
+        Adjustment[] adjustments;
+        address[] approvers; // Current sign-offs, in approval order
+        mapping(address => bool) approvedBy;
+        mapping(address => bool) submittedBy; // Makers cannot act as checkers on the same batch
     }
 
+    bytes32 private constant SUBMISSION_HOOK = keccak256("PayrollCompliance");
+
     uint256 public currentBatchId;
     mapping(uint256 => Batch) public batches;
+    mapping(uint256 => RegisteredEmployee) public registry; // employeeId -> RegisteredEmployee
+    uint256[] public registeredEmployeeIds;
+
+    PayrollDeductions.Rules private deductionRules;
+    mapping(uint256 => PayrollDeductions.Totals) private _batchTotals; // batchId -> running totals
+
+    // Employees are carried into a batch and paid out of it in pages, so each transaction stays within the
+    // FHE gas limits
+    struct BatchProgress {
+        uint256 carried; // Carry-forward candidates processed so far
+        uint256 carryEnd; // Registry size when the batch opened, or the parent's employee count for a revision
+        uint256 paid; // Employees paid so far by executeBatch
+    }
+    mapping(uint256 => BatchProgress) public batchProgress;
+
+    IConfidentialPayoutToken public payoutToken;
+    IPayrollTreasury public treasury; // Escrow that funds payouts; it has made this contract an operator on payoutToken
+    mapping(bytes32 => address) public modules; // keccak256 of the module name, e.g. "PayrollStreams" -> instance
+
+    // A revision is a batch opened to amend a closed, unpaid one; it supersedes its parent for payouts
+    mapping(uint256 => uint256) private _parentBatchIds; // revision batchId -> the batch it amends
+    mapping(uint256 => uint256) private _revisionBatchIds; // batchId -> the revision that amends it
+    mapping(uint256 => mapping(uint256 => bool)) private _amendableEmployees; // revision batchId -> employeeId -> may change
+
+    // Cleartext layout of _summaryCiphertexts
+    struct SummaryCleartexts {
+        uint64 salary;
+        uint64 investment;
+        bool overflowed;
+        uint32 invalidEntries;
+        uint64 tax;
+        uint64 withholding;
+        uint64 benefits;
+        uint64 netPay;
+        uint64 adjustmentCredits;
+        uint64 adjustmentDebits;
+    }
 
     struct DecryptionContext {
         uint256 batchId;
@@ -48,26 +159,81 @@ contract StealthPayrollFHE is SepoliaConfig {
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
-    event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
-    event ProviderAdded(address indexed provider);
-    event ProviderRemoved(address indexed provider);
+    // Latest decrypted totals per batch, kept so dashboards do not have to scrape DecryptionCompleted logs
+    struct BatchSummary {
+        uint256 batchId;
+        uint256 requestId;
+        uint256 totalSalary;
+        uint256 totalInvestmentAmount;
+        uint64 decryptedAt;
+        string currency;
+        uint8 decimals;
+        bool overflowed; // The salary total wrapped past 2^64 - 1 and is not meaningful
+        uint256 invalidEntries;
+        uint256 totalTaxWithheld;
+        uint256 totalFlatWithheld;
+        uint256 totalBenefitDeductions;
+        uint256 totalNetPay;
+        uint256 totalAdjustmentCredits;
+        uint256 totalAdjustmentDebits;
+    }
+    mapping(uint256 => BatchSummary) private batchSummaries; // batchId -> BatchSummary, read through getBatchSummaries
+    uint256[] public summarizedBatchIds;
+
     event PauseToggled(bool paused);
     event CooldownSet(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
-    event BatchOpened(uint256 indexed batchId);
+    event BatchOpened(uint256 indexed batchId, string currency, uint8 decimals);
     event BatchClosed(uint256 indexed batchId);
+    event BatchRevisionOpened(uint256 indexed batchId, uint256 indexed parentBatchId);
+    event EmployeesCarriedForward(uint256 indexed batchId, uint256 carried, uint256 carryEnd);
+    event ApprovalThresholdSet(uint256 oldThreshold, uint256 newThreshold);
+    event BatchApproved(uint256 indexed batchId, address indexed approver, uint256 approvals);
+    event BatchApprovalRevoked(uint256 indexed batchId, address indexed approver, uint256 approvals);
+    event BatchApprovalsReset(uint256 indexed batchId);
+    event AdjustmentRecorded(
+        uint256 indexed batchId,
+        uint256 indexed employeeId,
+        uint256 adjustmentId,
+        AdjustmentReason reason,
+        address indexed submitter
+    );
+    event TaxBracketsSet(uint256 count);
+    event WithholdingRulesSet(uint256 count);
+    event BenefitDeductionsSet(uint256 count);
+    event EmployeeOnboarded(uint256 indexed employeeId, address indexed wallet);
+    event EmployeeOffboarded(uint256 indexed employeeId);
+    event EmployeeWalletSet(uint256 indexed employeeId, address indexed wallet);
+    event PayModelSet(uint256 indexed employeeId, PayModel payModel);
     event EmployeeDataSubmitted(uint256 indexed batchId, uint256 indexed employeeId, address indexed provider);
+    event TreasurySet(address indexed treasury, address indexed token);
+    event ModuleSet(bytes32 indexed kind, address indexed module);
+    event EmployeePaid(uint256 indexed batchId, uint256 indexed employeeId, address indexed wallet);
+    event BatchExecuted(uint256 indexed batchId);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalSalary, uint256 totalInvestmentAmount);
-
-    modifier onlyOwner() {
-        if (msg.sender != owner) revert NotOwner();
-        _;
-    }
-
-    modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
-        _;
-    }
+    event DecryptionCompleted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        uint256 totalSalary,
+        uint256 totalInvestmentAmount,
+        string currency,
+        uint8 decimals,
+        bool overflowed,
+        uint256 invalidEntries
+    );
+    event DeductionTotalsDecrypted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        uint256 totalTaxWithheld,
+        uint256 totalFlatWithheld,
+        uint256 totalBenefitDeductions,
+        uint256 totalNetPay
+    );
+    event AdjustmentTotalsDecrypted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        uint256 totalAdjustmentCredits,
+        uint256 totalAdjustmentDebits
+    );
 
     modifier whenNotPaused() {
         if (paused) revert Paused();
@@ -88,114 +254,466 @@ contract StealthPayrollFHE is SepoliaConfig {
         _;
     }
 
-    constructor() {
-        owner = msg.sender;
-        isProvider[owner] = true;
+    modifier whenQuorumReached(uint256 batchId) {
+        uint256 approvals = approvalCount(batchId);
+        if (approvals < approvalThreshold) revert QuorumNotReached(batchId, approvals, approvalThreshold);
+        _;
+    }
+
+    // The admin is passed explicitly so PayrollFactory can deploy instances on behalf of an organization
+    constructor(address admin) {
+        if (admin == address(0)) revert InvalidAddress();
+        // Data providers are managed by payroll admins; every other role by the default admin
+        _setRoleAdmin(DATA_PROVIDER_ROLE, PAYROLL_ADMIN_ROLE);
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(PAYROLL_ADMIN_ROLE, admin);
+        _grantRole(DATA_PROVIDER_ROLE, admin);
+        _grantRole(APPROVER_ROLE, admin);
+        _grantRole(AUDITOR_ROLE, admin);
+        _grantRole(PAUSER_ROLE, admin);
         cooldownSeconds = 60; // Default 1 minute cooldown
+        approvalThreshold = 1;
         currentBatchId = 1; // Start with batch 1
     }
 
-    function transferOwnership(address newOwner) external onlyOwner {
-        if (newOwner == address(0)) revert InvalidAddress();
-        address oldOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(oldOwner, newOwner);
+    function setPaused(bool _paused) external onlyRole(PAUSER_ROLE) {
+        paused = _paused;
+        emit PauseToggled(_paused);
+    }
+
+    function setCooldown(uint256 _cooldownSeconds) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        if (_cooldownSeconds == 0) revert InvalidCooldown();
+        uint256 oldCooldown = cooldownSeconds;
+        cooldownSeconds = _cooldownSeconds;
+        emit CooldownSet(oldCooldown, _cooldownSeconds);
     }
 
-    function addProvider(address provider) external onlyOwner {
-        if (provider == address(0)) revert InvalidAddress();
-        if (!isProvider[provider]) {
-            isProvider[provider] = true;
-            emit ProviderAdded(provider);
-        }
+    function setApprovalThreshold(uint256 threshold) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (threshold == 0 || threshold > getRoleMemberCount(APPROVER_ROLE)) revert InvalidThreshold();
+        uint256 oldThreshold = approvalThreshold;
+        approvalThreshold = threshold;
+        emit ApprovalThresholdSet(oldThreshold, threshold);
     }
 
-    function removeProvider(address provider) external onlyOwner {
-        if (isProvider[provider]) {
-            delete isProvider[provider];
-            emit ProviderRemoved(provider);
+    // Security: with fewer approvers than the threshold no batch could close or pay out again, so the threshold has
+    // to be lowered before the approver set shrinks below it (revokeRole and renounceRole both land here)
+    function _revokeRole(bytes32 role, address account) internal override {
+        if (role == APPROVER_ROLE && hasRole(role, account)) {
+            uint256 approvers = getRoleMemberCount(role) - 1;
+            if (approvers < approvalThreshold) revert QuorumUnreachable(approvers, approvalThreshold);
         }
+        super._revokeRole(role, account);
     }
 
-    function setPaused(bool _paused) external onlyOwner {
-        paused = _paused;
-        emit PauseToggled(_paused);
+    // Rules apply to payouts priced after the change: later submissions, adjustments and carried-forward members
+    function setTaxBrackets(
+        uint64[] calldata widths,
+        uint16[] calldata ratesBps
+    ) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        deductionRules.setTaxBrackets(widths, ratesBps);
+        emit TaxBracketsSet(widths.length);
     }
 
-    function setCooldown(uint256 _cooldownSeconds) external onlyOwner {
-        if (_cooldownSeconds == 0) revert InvalidCooldown();
-        uint256 oldCooldown = cooldownSeconds;
-        cooldownSeconds = _cooldownSeconds;
-        emit CooldownSet(oldCooldown, _cooldownSeconds);
+    function setWithholdingRules(
+        string[] calldata labels,
+        uint16[] calldata ratesBps
+    ) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        deductionRules.setWithholdingRules(labels, ratesBps);
+        emit WithholdingRulesSet(labels.length);
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
-        currentBatchId++;
+    function setBenefitDeductions(
+        string[] calldata labels,
+        externalEuint64[] calldata amountInputs,
+        bytes calldata inputProof
+    ) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        deductionRules.setBenefitDeductions(labels, amountInputs, inputProof);
+        emit BenefitDeductionsSet(labels.length);
+    }
+
+    function getTaxBrackets() external view returns (PayrollDeductions.TaxBracket[] memory) {
+        return deductionRules.taxBrackets;
+    }
+
+    function getWithholdingRules() external view returns (PayrollDeductions.WithholdingRule[] memory) {
+        return deductionRules.withholdingRules;
+    }
+
+    function getBenefitDeductions() external view returns (PayrollDeductions.DeductionRule[] memory) {
+        return deductionRules.benefitDeductions;
+    }
+
+    function openBatch(
+        string calldata currency,
+        uint8 decimals
+    ) external onlyRole(PAYROLL_ADMIN_ROLE) whenNotPaused {
+        if (bytes(currency).length == 0 || decimals > 18) revert InvalidCurrency();
+        Batch storage batch = _openBatch(currency, decimals, ebool.wrap(bytes32(0)));
+        batchProgress[batch.id].carryEnd = registeredEmployeeIds.length;
+    }
+
+    // Called by the amendments module, which records why. The revision becomes the current batch and
+    // carryForward copies over every employee of the parent; only the listed employees may be resubmitted or
+    // adjusted in it.
+    function openRevision(
+        uint256 parentBatchId,
+        uint256[] calldata changedEmployeeIds
+    ) external onlyRole(PAYROLL_MODULE_ROLE) whenNotPaused returns (uint256) {
+        Batch storage parent = batches[parentBatchId];
+        if (parent.id == 0 || parent.isOpen || batches[currentBatchId].isOpen) revert BatchNotClosed();
+        if (parent.isExecuted) revert BatchAlreadyExecuted();
+        if (_revisionBatchIds[parentBatchId] != 0) revert BatchSuperseded(parentBatchId, _revisionBatchIds[parentBatchId]);
+
+        Batch storage batch = _openBatch(parent.currency, parent.decimals, _batchTotals[parentBatchId].overflowed);
+        batchProgress[batch.id].carryEnd = parent.employeeIds.length;
+        for (uint256 i = 0; i < changedEmployeeIds.length; ) {
+            _amendableEmployees[batch.id][changedEmployeeIds[i]] = true;
+            unchecked {
+                i++;
+            }
+        }
+        _parentBatchIds[batch.id] = parentBatchId;
+        _revisionBatchIds[parentBatchId] = batch.id;
+        emit BatchRevisionOpened(batch.id, parentBatchId);
+        return batch.id;
+    }
+
+    // Carries the next maxEmployees candidates into the current batch: the latest pay inputs of active batch-paid
+    // members for a new batch, or the parent's entries for a revision. Employees already submitted to the batch
+    // keep their submission.
+    function carryForward(uint256 maxEmployees) external onlyRole(PAYROLL_ADMIN_ROLE) whenNotPaused {
         Batch storage batch = batches[currentBatchId];
-        batch.id = currentBatchId;
-        batch.isOpen = true;
-        batch.employeeCount = 0;
-        emit BatchOpened(currentBatchId);
+        if (!batch.isOpen) revert BatchNotOpen();
+        BatchProgress storage progress = batchProgress[batch.id];
+        uint256 parentBatchId = _parentBatchIds[batch.id];
+        uint256 end = progress.carried + maxEmployees > progress.carryEnd
+            ? progress.carryEnd
+            : progress.carried + maxEmployees;
+
+        for (uint256 i = progress.carried; i < end; ) {
+            if (parentBatchId != 0) {
+                Batch storage parent = batches[parentBatchId];
+                uint256 employeeId = parent.employeeIds[i];
+                PayrollDeductions.Employee storage source = parent.employees[employeeId];
+                if (!batch.employees[employeeId].isActive) {
+                    _putEmployee(batch, employeeId, source.encryptedSalary).copy(source, _batchTotals[batch.id]);
+                }
+            } else {
+                uint256 employeeId = registeredEmployeeIds[i];
+                RegisteredEmployee storage member = registry[employeeId];
+                if (
+                    member.status == EmployeeStatus.Active &&
+                    member.payModel == PayModel.Batch &&
+                    member.latestSalary.isInitialized() &&
+                    !batch.employees[employeeId].isActive
+                ) {
+                    _priceEmployee(batch, employeeId, member.latestSalary, member.latestInvestmentPercentage, member.wallet);
+                }
+            }
+            unchecked {
+                i++;
+            }
+        }
+        progress.carried = end;
+        if (batch.approvers.length > 0) _resetApprovals(batch);
+        emit EmployeesCarriedForward(batch.id, end, progress.carryEnd);
     }
 
-    function closeBatch() external onlyOwner whenNotPaused {
-        if (!batches[currentBatchId].isOpen) revert BatchClosed();
+    function closeBatch() external onlyRole(APPROVER_ROLE) whenNotPaused whenQuorumReached(currentBatchId) {
+        if (!batches[currentBatchId].isOpen) revert BatchNotOpen();
+        BatchProgress storage progress = batchProgress[currentBatchId];
+        if (progress.carried < progress.carryEnd) {
+            revert CarryForwardPending(currentBatchId, progress.carryEnd - progress.carried);
+        }
         batches[currentBatchId].isOpen = false;
         emit BatchClosed(currentBatchId);
     }
 
+    function setTreasury(address newTreasury) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        if (newTreasury == address(0)) revert InvalidAddress();
+        treasury = IPayrollTreasury(newTreasury);
+        payoutToken = treasury.token();
+        emit TreasurySet(newTreasury, address(payoutToken));
+    }
+
+    // Registry the web app uses to find an organization's companion contracts; it grants no permissions
+    function setModule(bytes32 kind, address module) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        modules[kind] = module;
+        emit ModuleSet(kind, module);
+    }
+
+    // Hands a closed batch's stored ciphertexts to a module for this transaction only, in the layout of
+    // PayrollDeductions.exportCiphertexts
+    function exportBatchCiphertexts(
+        uint256 batchId,
+        uint256[] calldata employeeIds
+    ) external onlyRole(PAYROLL_MODULE_ROLE) returns (bytes32[] memory cts) {
+        Batch storage batch = batches[batchId];
+        if (batch.id == 0 || batch.isOpen) revert BatchNotClosed();
+
+        cts = PayrollDeductions.exportCiphertexts(
+            batch.employees,
+            _batchTotals[batchId],
+            batch.invalidEntryCount,
+            employeeIds
+        );
+    }
+
+    // Pays the stored net pay of the next maxEmployees employees. The first page checks the batch and consumes
+    // its solvency check; from then on the batch counts as executed and can no longer be approved or amended.
+    function executeBatch(
+        uint256 batchId,
+        uint256 maxEmployees
+    ) external onlyRole(PAYROLL_ADMIN_ROLE) whenNotPaused whenQuorumReached(batchId) {
+        Batch storage batch = batches[batchId];
+        BatchProgress storage progress = batchProgress[batchId];
+        if (!batch.isExecuted) {
+            if (batch.id == 0 || batch.isOpen) revert BatchNotClosed();
+            // Security: an amended batch is paid through its revision only, even while the revision is still open
+            if (_revisionBatchIds[batchId] != 0) revert BatchSuperseded(batchId, _revisionBatchIds[batchId]);
+            if (address(payoutToken) == address(0)) revert PayoutNotConfigured();
+            if (payoutToken.decimals() != batch.decimals) revert CurrencyMismatch();
+            // Reverts unless a solvency check of this net pay total decrypted to funded and the balance is unspent since
+            treasury.consumeSolvencyCheck(batchId, _batchTotals[batchId].netPay);
+            batch.isExecuted = true;
+        } else if (progress.paid == batch.employeeIds.length) {
+            revert BatchAlreadyExecuted();
+        }
+
+        uint256 end = progress.paid + maxEmployees > batch.employeeIds.length
+            ? batch.employeeIds.length
+            : progress.paid + maxEmployees;
+        for (uint256 i = progress.paid; i < end; ) {
+            uint256 employeeId = batch.employeeIds[i];
+            PayrollDeductions.Employee storage emp = batch.employees[employeeId];
+            address wallet = registry[employeeId].wallet;
+            if (wallet == address(0)) revert MissingEmployeeWallet(employeeId);
+
+            euint64 netPay = emp.payout.netPay;
+            FHE.allowTransient(netPay, address(payoutToken));
+            euint64 paid = payoutToken.confidentialTransferFrom(address(treasury), wallet, netPay);
+            FHE.allowThis(paid);
+            emp.paidAmount = paid;
+
+            emit EmployeePaid(batchId, employeeId, wallet);
+            unchecked {
+                i++;
+            }
+        }
+        progress.paid = end;
+        if (end == batch.employeeIds.length) emit BatchExecuted(batchId);
+    }
+
+    function approveBatch(uint256 batchId) external onlyRole(APPROVER_ROLE) whenNotPaused {
+        Batch storage batch = batches[batchId];
+        if (batch.id == 0) revert BatchNotFound();
+        if (batch.isExecuted) revert BatchAlreadyExecuted();
+        if (batch.approvedBy[msg.sender]) revert AlreadyApproved();
+        if (batch.submittedBy[msg.sender]) revert SelfApproval();
+
+        batch.approvedBy[msg.sender] = true;
+        batch.approvers.push(msg.sender);
+        emit BatchApproved(batchId, msg.sender, approvalCount(batchId));
+    }
+
+    function revokeBatchApproval(uint256 batchId) external whenNotPaused {
+        Batch storage batch = batches[batchId];
+        if (batch.isExecuted) revert BatchAlreadyExecuted();
+        if (!batch.approvedBy[msg.sender]) revert NotApproved();
+
+        batch.approvedBy[msg.sender] = false;
+        uint256 last = batch.approvers.length - 1;
+        for (uint256 i = 0; i < last; ) {
+            if (batch.approvers[i] == msg.sender) {
+                batch.approvers[i] = batch.approvers[last];
+                break;
+            }
+            unchecked {
+                i++;
+            }
+        }
+        batch.approvers.pop();
+        emit BatchApprovalRevoked(batchId, msg.sender, approvalCount(batchId));
+    }
+
+    // Sign-offs from accounts that have since lost APPROVER_ROLE no longer count towards quorum
+    function approvalCount(uint256 batchId) public view returns (uint256 count) {
+        address[] storage approvers = batches[batchId].approvers;
+        for (uint256 i = 0; i < approvers.length; ) {
+            if (hasRole(APPROVER_ROLE, approvers[i])) count++;
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function getBatchApprovers(uint256 batchId) external view returns (address[] memory) {
+        return batches[batchId].approvers;
+    }
+
+    function hasApprovedBatch(uint256 batchId, address approver) external view returns (bool) {
+        return batches[batchId].approvedBy[approver];
+    }
+
+    function getBatchEmployeeIds(uint256 batchId) external view returns (uint256[] memory) {
+        return batches[batchId].employeeIds;
+    }
+
+    function onboardEmployee(uint256 employeeId, address wallet) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        if (wallet == address(0)) revert InvalidAddress();
+        RegisteredEmployee storage member = registry[employeeId];
+        if (member.status == EmployeeStatus.Active) revert EmployeeAlreadyActive(employeeId);
+        if (member.status == EmployeeStatus.None) {
+            registeredEmployeeIds.push(employeeId);
+        }
+        member.wallet = wallet;
+        member.status = EmployeeStatus.Active;
+        member.onboardedAt = uint64(block.timestamp);
+        member.offboardedAt = 0;
+        _grantEmployeeAccess(member, wallet);
+        emit EmployeeOnboarded(employeeId, wallet);
+    }
+
+    function offboardEmployee(uint256 employeeId) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        RegisteredEmployee storage member = registry[employeeId];
+        if (member.status != EmployeeStatus.Active) revert EmployeeNotActive(employeeId);
+        member.status = EmployeeStatus.Terminated;
+        member.offboardedAt = uint64(block.timestamp);
+        emit EmployeeOffboarded(employeeId);
+    }
+
+    function setEmployeeWallet(uint256 employeeId, address wallet) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        if (wallet == address(0)) revert InvalidAddress();
+        RegisteredEmployee storage member = registry[employeeId];
+        if (member.status != EmployeeStatus.Active) revert EmployeeNotActive(employeeId);
+        member.wallet = wallet;
+        _grantEmployeeAccess(member, wallet);
+        emit EmployeeWalletSet(employeeId, wallet);
+    }
+
+    // Switching an employee back to batch pay does not stop a running stream; cancel it in PayrollStreams
+    function setPayModel(uint256 employeeId, PayModel payModel) external onlyRole(PAYROLL_ADMIN_ROLE) {
+        RegisteredEmployee storage member = registry[employeeId];
+        if (member.status != EmployeeStatus.Active) revert EmployeeNotActive(employeeId);
+        member.payModel = payModel;
+        emit PayModelSet(employeeId, payModel);
+    }
+
+    function getRegisteredEmployeeIds() external view returns (uint256[] memory) {
+        return registeredEmployeeIds;
+    }
+
+    function registeredEmployeeCount() external view returns (uint256) {
+        return registeredEmployeeIds.length;
+    }
+
+    function getEmployeeData(uint256 batchId, uint256 employeeId)
+        external
+        view
+        returns (euint64 encryptedSalary, euint32 encryptedInvestmentPercentage, bool isActive)
+    {
+        PayrollDeductions.Employee storage emp = batches[batchId].employees[employeeId];
+        return (emp.encryptedSalary, emp.encryptedInvestmentPercentage, emp.isActive);
+    }
+
+    function getEmployeePayout(
+        uint256 batchId,
+        uint256 employeeId
+    ) external view returns (PayrollDeductions.Payout memory) {
+        return batches[batchId].employees[employeeId].payout;
+    }
+
     function submitEmployeeData(
         uint256 employeeId,
-        euint32 encryptedSalary,
-        euint32 encryptedInvestmentPercentage
-    ) external onlyProvider whenNotPaused checkSubmissionCooldown {
+        externalEuint64 salaryInput,
+        externalEuint32 investmentPercentageInput,
+        bytes calldata inputProof
+    ) external onlyRole(DATA_PROVIDER_ROLE) whenNotPaused checkSubmissionCooldown {
         Batch storage currentBatch = batches[currentBatchId];
-        if (!currentBatch.isOpen) revert BatchClosed();
+        if (!currentBatch.isOpen) revert BatchNotOpen();
 
-        _initIfNeeded(encryptedSalary);
-        _initIfNeeded(encryptedInvestmentPercentage);
+        _storeEmployeeData(currentBatch, employeeId, salaryInput, investmentPercentageInput, inputProof);
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
 
-        Employee storage emp = currentBatch.employees[employeeId];
-        emp.encryptedSalary = encryptedSalary;
-        emp.encryptedInvestmentPercentage = encryptedInvestmentPercentage;
-        emp.isActive = true;
+    function submitEmployeeDataBatch(
+        uint256[] calldata employeeIds,
+        externalEuint64[] calldata salaryInputs,
+        externalEuint32[] calldata investmentPercentageInputs,
+        bytes calldata inputProof
+    ) external onlyRole(DATA_PROVIDER_ROLE) whenNotPaused checkSubmissionCooldown {
+        if (employeeIds.length != salaryInputs.length || employeeIds.length != investmentPercentageInputs.length) {
+            revert LengthMismatch();
+        }
+        Batch storage currentBatch = batches[currentBatchId];
+        if (!currentBatch.isOpen) revert BatchNotOpen();
 
-        if (emp.isActive) { // If already active, don't increment count
-            currentBatch.employeeCount++;
+        // Every entry is priced in this transaction, so the FHE gas limit bounds how many fit in one call
+        for (uint256 i = 0; i < employeeIds.length; ) {
+            _storeEmployeeData(currentBatch, employeeIds[i], salaryInputs[i], investmentPercentageInputs[i], inputProof);
+            unchecked {
+                i++;
+            }
         }
         lastSubmissionTime[msg.sender] = block.timestamp;
+    }
+
+    function submitAdjustment(
+        uint256 employeeId,
+        externalEuint64 amountInput,
+        externalEbool isDebitInput,
+        AdjustmentReason reason,
+        bytes calldata inputProof
+    ) external onlyRole(DATA_PROVIDER_ROLE) whenNotPaused checkSubmissionCooldown {
+        Batch storage batch = batches[currentBatchId];
+        if (!batch.isOpen) revert BatchNotOpen();
+        PayrollDeductions.Employee storage emp = batch.employees[employeeId];
+        if (!emp.isActive) revert EmployeeNotInBatch(employeeId);
+        _checkAmendable(batch, employeeId);
+
+        (euint64 amount, ebool isDebit) = emp.adjust(
+            deductionRules,
+            _batchTotals[batch.id],
+            amountInput,
+            isDebitInput,
+            inputProof,
+            registry[employeeId].wallet
+        );
+        _initIfNeeded(amount);
+
+        batch.adjustments.push(
+            Adjustment({
+                employeeId: employeeId,
+                amount: amount,
+                isDebit: isDebit,
+                reason: reason,
+                submitter: msg.sender,
+                createdAt: uint64(block.timestamp)
+            })
+        );
+        _markBatchChanged(batch);
+        lastSubmissionTime[msg.sender] = block.timestamp;
+
+        emit AdjustmentRecorded(batch.id, employeeId, batch.adjustments.length - 1, reason, msg.sender);
+    }
 
-        emit EmployeeDataSubmitted(currentBatchId, employeeId, msg.sender);
+    function getBatchAdjustments(uint256 batchId) external view returns (Adjustment[] memory) {
+        return batches[batchId].adjustments;
     }
 
     function requestBatchSummaryDecryption(uint256 batchId)
         external
-        onlyProvider
+        onlyRole(AUDITOR_ROLE)
         whenNotPaused
         checkDecryptionCooldown
     {
         Batch storage batch = batches[batchId];
-        if (batch.employeeCount == 0) revert("No employees in batch");
-
-        euint32 totalSalaryEnc = FHE.asEuint32(0);
-        euint32 totalInvestmentEnc = FHE.asEuint32(0);
-
-        for (uint256 i = 0; i < batch.employeeCount; ) {
-            Employee storage emp = batch.employees[i]; // Assuming employeeId is dense 0..count-1
-            if (emp.isActive) {
-                totalSalaryEnc = totalSalaryEnc.add(emp.encryptedSalary);
-                euint32 investmentAmountEnc = emp.encryptedSalary.mul(emp.encryptedInvestmentPercentage).div(FHE.asEuint32(100));
-                totalInvestmentEnc = totalInvestmentEnc.add(investmentAmountEnc);
-            }
-            unchecked {
-                i++;
-            }
-        }
-
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = totalSalaryEnc.toBytes32();
-        cts[1] = totalInvestmentEnc.toBytes32();
+        if (batch.employeeCount == 0) revert BatchNotFound();
+        // Once a revision is approved and closed, its totals replace the parent's
+        uint256 revisionBatchId = _revisionBatchIds[batchId];
+        if (revisionBatchId != 0 && !batches[revisionBatchId].isOpen) revert BatchSuperseded(batchId, revisionBatchId);
 
+        bytes32[] memory cts = _summaryCiphertexts(batch);
         bytes32 stateHash = _hashCiphertexts(cts);
 
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
@@ -216,46 +734,196 @@ contract StealthPayrollFHE is SepoliaConfig {
         // Security: Replay protection ensures this callback is processed only once for a given requestId.
 
         Batch storage batch = batches[ctx.batchId];
-        euint32 totalSalaryEnc = FHE.asEuint32(0);
-        euint32 totalInvestmentEnc = FHE.asEuint32(0);
-
-        for (uint256 i = 0; i < batch.employeeCount; ) {
-            Employee storage emp = batch.employees[i];
-            if (emp.isActive) {
-                totalSalaryEnc = totalSalaryEnc.add(emp.encryptedSalary);
-                euint32 investmentAmountEnc = emp.encryptedSalary.mul(emp.encryptedInvestmentPercentage).div(FHE.asEuint32(100));
-                totalInvestmentEnc = totalInvestmentEnc.add(investmentAmountEnc);
-            }
+        bytes32 currentHash = _hashCiphertexts(_summaryCiphertexts(batch));
+        // Security: State hash verification ensures that the contract state (specifically, the ciphertexts
+        // that were intended for decryption) has not changed between the requestDecryption call and this callback.
+        if (currentHash != ctx.stateHash) revert StateMismatch();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        SummaryCleartexts memory clear = abi.decode(cleartexts, (SummaryCleartexts));
+        ctx.processed = true;
+
+        BatchSummary storage summary = batchSummaries[ctx.batchId];
+        if (summary.decryptedAt == 0) {
+            summarizedBatchIds.push(ctx.batchId);
+        }
+        summary.batchId = ctx.batchId;
+        summary.requestId = requestId;
+        summary.totalSalary = clear.salary;
+        summary.totalInvestmentAmount = clear.investment;
+        summary.decryptedAt = uint64(block.timestamp);
+        summary.currency = batch.currency;
+        summary.decimals = batch.decimals;
+        summary.overflowed = clear.overflowed;
+        summary.invalidEntries = clear.invalidEntries;
+        summary.totalTaxWithheld = clear.tax;
+        summary.totalFlatWithheld = clear.withholding;
+        summary.totalBenefitDeductions = clear.benefits;
+        summary.totalNetPay = clear.netPay;
+        summary.totalAdjustmentCredits = clear.adjustmentCredits;
+        summary.totalAdjustmentDebits = clear.adjustmentDebits;
+
+        emit DecryptionCompleted(
+            requestId,
+            ctx.batchId,
+            clear.salary,
+            clear.investment,
+            batch.currency,
+            batch.decimals,
+            clear.overflowed,
+            clear.invalidEntries
+        );
+        emit DeductionTotalsDecrypted(requestId, ctx.batchId, clear.tax, clear.withholding, clear.benefits, clear.netPay);
+        emit AdjustmentTotalsDecrypted(requestId, ctx.batchId, clear.adjustmentCredits, clear.adjustmentDebits);
+    }
+
+    function summarizedBatchCount() external view returns (uint256) {
+        return summarizedBatchIds.length;
+    }
+
+    // Returns summaries in the order their batches were first decrypted
+    function getBatchSummaries(uint256 offset, uint256 limit) external view returns (BatchSummary[] memory page) {
+        uint256 total = summarizedBatchIds.length;
+        if (offset >= total) return new BatchSummary[](0);
+        uint256 end = offset + limit > total ? total : offset + limit;
+
+        page = new BatchSummary[](end - offset);
+        for (uint256 i = offset; i < end; ) {
+            page[i - offset] = batchSummaries[summarizedBatchIds[i]];
             unchecked {
                 i++;
             }
         }
-        bytes32[] memory currentCts = new bytes32[](2);
-        currentCts[0] = totalSalaryEnc.toBytes32();
-        currentCts[1] = totalInvestmentEnc.toBytes32();
+    }
 
-        bytes32 currentHash = _hashCiphertexts(currentCts);
-        // Security: State hash verification ensures that the contract state (specifically, the ciphertexts
-        // that were intended for decryption) has not changed between the requestDecryption call and this callback.
-        if (currentHash != ctx.stateHash) revert StateMismatch();
+    function _storeEmployeeData(
+        Batch storage batch,
+        uint256 employeeId,
+        externalEuint64 salaryInput,
+        externalEuint32 investmentPercentageInput,
+        bytes calldata inputProof
+    ) internal {
+        RegisteredEmployee storage member = registry[employeeId];
+        if (member.status != EmployeeStatus.Active) revert EmployeeNotActive(employeeId);
+        if (member.payModel != PayModel.Batch) revert NotBatchPaid(employeeId);
+        _checkAmendable(batch, employeeId);
+
+        (
+            euint64 encryptedSalary,
+            euint32 encryptedInvestmentPercentage,
+            euint32 invalidEntryCount
+        ) = PayrollDeductions.acceptPayInputs(salaryInput, investmentPercentageInput, inputProof, batch.invalidEntryCount);
+        _initIfNeeded(encryptedSalary);
+        batch.invalidEntryCount = invalidEntryCount;
 
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) revert InvalidProof();
+        member.latestSalary = encryptedSalary;
+        member.latestInvestmentPercentage = encryptedInvestmentPercentage;
+        _grantEmployeeAccess(member, member.wallet);
 
-        (uint32 totalSalaryCleartext, uint32 totalInvestmentCleartext) = abi.decode(cleartexts, (uint32, uint32));
+        _markBatchChanged(batch);
+        _priceEmployee(batch, employeeId, encryptedSalary, encryptedInvestmentPercentage, member.wallet);
 
-        ctx.processed = true;
-        emit DecryptionCompleted(requestId, ctx.batchId, totalSalaryCleartext, totalInvestmentCleartext);
+        emit EmployeeDataSubmitted(batch.id, employeeId, msg.sender);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    function _openBatch(
+        string memory currency,
+        uint8 decimals,
+        ebool overflowed
+    ) internal returns (Batch storage batch) {
+        currentBatchId++;
+        batch = batches[currentBatchId];
+        batch.id = currentBatchId;
+        batch.isOpen = true;
+        batch.currency = currency;
+        batch.decimals = decimals;
+        batch.invalidEntryCount = FHE.asEuint32(0);
+        FHE.allowThis(batch.invalidEntryCount);
+        PayrollDeductions.initTotals(_batchTotals[batch.id], overflowed);
+        emit BatchOpened(currentBatchId, currency, decimals);
     }
 
-    function _initIfNeeded(euint32 val) internal {
-        if (!val.isInitialized()) revert NotInitialized();
+    // The caller prices the returned entry
+    function _putEmployee(
+        Batch storage batch,
+        uint256 employeeId,
+        euint64 salary
+    ) internal returns (PayrollDeductions.Employee storage emp) {
+        emp = batch.employees[employeeId];
+        if (!emp.isActive) {
+            emp.isActive = true;
+            batch.employeeCount++;
+            batch.employeeIds.push(employeeId);
+        }
+        _notifySubmissionHook(batch.id, employeeId, salary);
     }
 
-    function _initIfNeeded(ebool val) internal {
+    function _priceEmployee(
+        Batch storage batch,
+        uint256 employeeId,
+        euint64 salary,
+        euint32 investmentPercentage,
+        address wallet
+    ) internal {
+        _putEmployee(batch, employeeId, salary).submit(
+            deductionRules,
+            _batchTotals[batch.id],
+            salary,
+            investmentPercentage,
+            wallet
+        );
+    }
+
+    function _checkAmendable(Batch storage batch, uint256 employeeId) internal view {
+        if (_parentBatchIds[batch.id] != 0 && !_amendableEmployees[batch.id][employeeId]) {
+            revert EmployeeNotAmended(employeeId);
+        }
+    }
+
+    // Runs for carried-forward salaries too, so the hook sees every salary that enters a batch. The hook
+    // gets transient access to the salary only.
+    function _notifySubmissionHook(uint256 batchId, uint256 employeeId, euint64 salary) internal {
+        address hook = modules[SUBMISSION_HOOK];
+        if (hook == address(0)) return;
+        FHE.allowTransient(salary, hook);
+        IPayrollSubmissionHook(hook).onEmployeeSubmitted(batchId, employeeId, salary);
+    }
+
+    // Approvals cover the batch contents they were given for, so any change asks for fresh sign-off
+    function _markBatchChanged(Batch storage batch) internal {
+        batch.submittedBy[msg.sender] = true;
+        if (batch.approvers.length > 0) _resetApprovals(batch);
+    }
+
+    function _resetApprovals(Batch storage batch) internal {
+        for (uint256 i = 0; i < batch.approvers.length; ) {
+            delete batch.approvedBy[batch.approvers[i]];
+            unchecked {
+                i++;
+            }
+        }
+        delete batch.approvers;
+        emit BatchApprovalsReset(batch.id);
+    }
+
+    function _grantEmployeeAccess(RegisteredEmployee storage member, address wallet) internal {
+        if (member.latestSalary.isInitialized()) {
+            FHE.allow(member.latestSalary, wallet);
+            FHE.allow(member.latestInvestmentPercentage, wallet);
+        }
+    }
+
+    function _summaryCiphertexts(Batch storage batch) internal view returns (bytes32[] memory) {
+        return PayrollDeductions.summaryCiphertexts(_batchTotals[batch.id], batch.invalidEntryCount);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+
+    function _initIfNeeded(euint64 val) internal {
         if (!val.isInitialized()) revert NotInitialized();
     }
+
 }
\ No newline at end of file
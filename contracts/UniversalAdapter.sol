@@ -0,0 +1,332 @@
+pragma solidity ^0.8.24;
+
+// Key-value store for off-payroll records; the web app kept its payroll records here before it moved to
+// StealthPayrollFHE and now only reads them. Records appended to a collection live under "<collection>_<key>"
+// and their keys are indexed here, so clients no longer keep the key list in a "<collection>_keys" value that
+// they read, modify and write back.
+// Keys belong to the namespace before their first "_" ("payroll_keys" is in "payroll"). The first account to
+// claim a namespace owns it; only the owner and the writers it allows may write keys in the namespace.
+// Indexed records also carry a status that moves Pending -> Processed or Failed, and Failed -> Pending when
+// the owner reopens a record; only the owner and its processors may settle records. A tracked record's value
+// can no longer be written, so the record a status was settled on stays the one stored.
+contract UniversalAdapter {
+    error EmptyKey();
+    error EmptyValue();
+    error RecordExists(string collection, string key);
+    error LengthMismatch(uint256 keys, uint256 values);
+    error BatchTooLarge(uint256 size, uint256 max);
+    error InvalidAddress();
+    error NamespaceTaken(string namespace, address owner);
+    error NotNamespaceOwner(string namespace, address account);
+    error NotWriter(string namespace, address account);
+    error NotProcessor(string namespace, address account);
+    error RecordNotFound(string collection, string key);
+    error RecordTracked(string collection, string key);
+    error RecordFrozen(string key);
+    error IllegalTransition(RecordStatus from, RecordStatus to);
+
+    enum RecordStatus {
+        None,
+        Pending,
+        Processed,
+        Failed
+    }
+
+    struct StatusChange {
+        RecordStatus status;
+        address actor;
+        uint64 changedAt;
+    }
+
+    uint256 public constant MAX_BATCH_SIZE = 50;
+
+    mapping(string => bytes) private _data;
+    mapping(string => string[]) private _keys; // collection -> record keys, in append order
+    mapping(string => address) public namespaceOwner;
+    mapping(string => mapping(address => bool)) private _writers;
+    mapping(string => address[]) private _writerList; // Enumerable view of each namespace's writers
+    mapping(string => mapping(address => bool)) private _processors;
+    mapping(string => address[]) private _processorList;
+    mapping(bytes32 => StatusChange[]) private _statusHistory; // _recordId(collection, key) -> changes, oldest first
+    mapping(string => bool) private _frozen; // "<collection>_<key>" of every tracked record
+
+    event DataStored(address indexed sender, string key, bytes value);
+    event RecordAppended(string indexed collection, uint256 indexed index, string key, address indexed sender);
+    event NamespaceOwnerSet(string namespace, address indexed previousOwner, address indexed newOwner);
+    event WriterSet(string namespace, address indexed writer, bool allowed);
+    event ProcessorSet(string namespace, address indexed processor, bool allowed);
+    event RecordStatusChanged(string collection, string key, RecordStatus from, RecordStatus to, address indexed actor);
+
+    modifier onlyNamespaceOwner(string calldata namespace) {
+        if (namespaceOwner[namespace] != msg.sender) revert NotNamespaceOwner(namespace, msg.sender);
+        _;
+    }
+
+    // Security: namespaces the deployer reserves cannot be claimed by anyone else before it configures them
+    constructor(string[] memory reservedNamespaces) {
+        for (uint256 i = 0; i < reservedNamespaces.length; ) {
+            _claim(reservedNamespaces[i]);
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function claimNamespace(string calldata namespace) external {
+        _claim(namespace);
+    }
+
+    function transferNamespace(string calldata namespace, address newOwner) external onlyNamespaceOwner(namespace) {
+        if (newOwner == address(0)) revert InvalidAddress();
+        namespaceOwner[namespace] = newOwner;
+        emit NamespaceOwnerSet(namespace, msg.sender, newOwner);
+    }
+
+    function setWriter(string calldata namespace, address writer, bool allowed) external onlyNamespaceOwner(namespace) {
+        if (_setMember(_writers[namespace], _writerList[namespace], writer, allowed)) {
+            emit WriterSet(namespace, writer, allowed);
+        }
+    }
+
+    function setProcessor(string calldata namespace, address processor, bool allowed) external onlyNamespaceOwner(namespace) {
+        if (_setMember(_processors[namespace], _processorList[namespace], processor, allowed)) {
+            emit ProcessorSet(namespace, processor, allowed);
+        }
+    }
+
+    function getWriters(string calldata namespace) external view returns (address[] memory) {
+        return _writerList[namespace];
+    }
+
+    function getProcessors(string calldata namespace) external view returns (address[] memory) {
+        return _processorList[namespace];
+    }
+
+    function canWrite(string memory namespace, address account) public view returns (bool) {
+        return account != address(0) && (namespaceOwner[namespace] == account || _writers[namespace][account]);
+    }
+
+    function canProcess(string memory namespace, address account) public view returns (bool) {
+        return account != address(0) && (namespaceOwner[namespace] == account || _processors[namespace][account]);
+    }
+
+    // The part of key before its first "_", or the whole key when it has none
+    function namespaceOf(string memory key) public pure returns (string memory) {
+        bytes memory raw = bytes(key);
+        for (uint256 i = 0; i < raw.length; ) {
+            if (raw[i] == "_") {
+                bytes memory prefix = new bytes(i);
+                for (uint256 j = 0; j < i; ) {
+                    prefix[j] = raw[j];
+                    unchecked {
+                        j++;
+                    }
+                }
+                return string(prefix);
+            }
+            unchecked {
+                i++;
+            }
+        }
+        return key;
+    }
+
+    function isAvailable() external pure returns (bool) {
+        return true;
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return _data[key];
+    }
+
+    function getDataBatch(string[] calldata keys) external view returns (bytes[] memory values) {
+        if (keys.length > MAX_BATCH_SIZE) revert BatchTooLarge(keys.length, MAX_BATCH_SIZE);
+        values = new bytes[](keys.length);
+        for (uint256 i = 0; i < keys.length; ) {
+            values[i] = _data[keys[i]];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function setData(string calldata key, bytes calldata value) external {
+        _store(key, value);
+    }
+
+    // All of the values are written, or none
+    function setDataBatch(string[] calldata keys, bytes[] calldata values) external {
+        if (keys.length != values.length) revert LengthMismatch(keys.length, values.length);
+        if (keys.length > MAX_BATCH_SIZE) revert BatchTooLarge(keys.length, MAX_BATCH_SIZE);
+        for (uint256 i = 0; i < keys.length; ) {
+            _store(keys[i], values[i]);
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    // Stores the record and indexes its key in one transaction. Concurrent appends of different keys both land;
+    // an existing record is never overwritten, so a key collision reverts instead of losing data.
+    function appendRecord(
+        string calldata collection,
+        string calldata key,
+        bytes calldata value
+    ) external returns (uint256 index) {
+        if (bytes(collection).length == 0 || bytes(key).length == 0) revert EmptyKey();
+        if (value.length == 0) revert EmptyValue();
+        string memory recordKey = string.concat(collection, "_", key);
+        if (_data[recordKey].length != 0) revert RecordExists(collection, key);
+
+        _store(recordKey, value);
+        index = _index(collection, key, recordKey);
+    }
+
+    // Indexes a record written with setData before records were appended, e.g. one listed in an old
+    // "<collection>_keys" value, so that it gets a status
+    function trackRecord(string calldata collection, string calldata key) external returns (uint256 index) {
+        string memory recordKey = string.concat(collection, "_", key);
+        string memory namespace = namespaceOf(recordKey);
+        if (namespaceOwner[namespace] != msg.sender) revert NotNamespaceOwner(namespace, msg.sender);
+        if (_data[recordKey].length == 0) revert RecordNotFound(collection, key);
+        // Security: checked on the stored key, since ("a_b", "c") and ("a", "b_c") name the same value
+        if (_frozen[recordKey]) revert RecordTracked(collection, key);
+        index = _index(collection, key, recordKey);
+    }
+
+    // Security: a settled record cannot be flipped to the other outcome; a failed one has to be reopened by the owner
+    // and settled again, which leaves both changes in its history
+    function setRecordStatus(string calldata collection, string calldata key, RecordStatus status) external {
+        string memory recordKey = string.concat(collection, "_", key);
+        RecordStatus current = recordStatus(collection, key);
+        if (current == RecordStatus.None) revert RecordNotFound(collection, key);
+
+        string memory namespace = namespaceOf(recordKey);
+        if (current == RecordStatus.Pending && (status == RecordStatus.Processed || status == RecordStatus.Failed)) {
+            if (!canProcess(namespace, msg.sender)) revert NotProcessor(namespace, msg.sender);
+        } else if (current == RecordStatus.Failed && status == RecordStatus.Pending) {
+            if (namespaceOwner[namespace] != msg.sender) revert NotNamespaceOwner(namespace, msg.sender);
+        } else {
+            revert IllegalTransition(current, status);
+        }
+        _changeStatus(collection, key, current, status);
+    }
+
+    function recordStatus(string calldata collection, string calldata key) public view returns (RecordStatus) {
+        StatusChange[] storage history = _statusHistory[_recordId(collection, key)];
+        return history.length == 0 ? RecordStatus.None : history[history.length - 1].status;
+    }
+
+    // Statuses of a page of records in one call, in the order of keys
+    function recordStatuses(
+        string calldata collection,
+        string[] calldata keys
+    ) external view returns (RecordStatus[] memory statuses) {
+        if (keys.length > MAX_BATCH_SIZE) revert BatchTooLarge(keys.length, MAX_BATCH_SIZE);
+        statuses = new RecordStatus[](keys.length);
+        for (uint256 i = 0; i < keys.length; ) {
+            statuses[i] = recordStatus(collection, keys[i]);
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function getStatusHistory(string calldata collection, string calldata key) external view returns (StatusChange[] memory) {
+        return _statusHistory[_recordId(collection, key)];
+    }
+
+    function keyCount(string calldata collection) external view returns (uint256) {
+        return _keys[collection].length;
+    }
+
+    // Record keys of a collection in append order; each record's value is at "<collection>_<key>"
+    function getKeys(
+        string calldata collection,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (string[] memory page) {
+        string[] storage keys = _keys[collection];
+        uint256 total = keys.length;
+        if (offset >= total) return new string[](0);
+        uint256 end = limit > total - offset ? total : offset + limit;
+
+        page = new string[](end - offset);
+        for (uint256 i = offset; i < end; ) {
+            page[i - offset] = keys[i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function _index(string calldata collection, string calldata key, string memory recordKey) internal returns (uint256 index) {
+        index = _keys[collection].length;
+        _keys[collection].push(key);
+        _frozen[recordKey] = true;
+        emit RecordAppended(collection, index, key, msg.sender);
+        _changeStatus(collection, key, RecordStatus.None, RecordStatus.Pending);
+    }
+
+    function _changeStatus(
+        string calldata collection,
+        string calldata key,
+        RecordStatus from,
+        RecordStatus to
+    ) internal {
+        _statusHistory[_recordId(collection, key)].push(
+            StatusChange({ status: to, actor: msg.sender, changedAt: uint64(block.timestamp) })
+        );
+        emit RecordStatusChanged(collection, key, from, to, msg.sender);
+    }
+
+    // Adds or removes account from an allowlist; returns whether anything changed
+    function _setMember(
+        mapping(address => bool) storage members,
+        address[] storage list,
+        address account,
+        bool allowed
+    ) internal returns (bool) {
+        if (account == address(0)) revert InvalidAddress();
+        if (members[account] == allowed) return false;
+        members[account] = allowed;
+
+        if (allowed) {
+            list.push(account);
+        } else {
+            for (uint256 i = 0; i < list.length; ) {
+                if (list[i] == account) {
+                    list[i] = list[list.length - 1];
+                    list.pop();
+                    break;
+                }
+                unchecked {
+                    i++;
+                }
+            }
+        }
+        return true;
+    }
+
+    function _claim(string memory namespace) internal {
+        if (bytes(namespace).length == 0) revert EmptyKey();
+        address owner = namespaceOwner[namespace];
+        if (owner != address(0)) revert NamespaceTaken(namespace, owner);
+        namespaceOwner[namespace] = msg.sender;
+        emit NamespaceOwnerSet(namespace, address(0), msg.sender);
+    }
+
+    // Unlike the stored key, the encoding keeps collection and key apart
+    function _recordId(string calldata collection, string calldata key) internal pure returns (bytes32) {
+        return keccak256(abi.encode(collection, key));
+    }
+
+    function _store(string memory key, bytes memory value) internal {
+        if (bytes(key).length == 0) revert EmptyKey();
+        if (_frozen[key]) revert RecordFrozen(key);
+        string memory namespace = namespaceOf(key);
+        if (!canWrite(namespace, msg.sender)) revert NotWriter(namespace, msg.sender);
+        _data[key] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+}
@@ -0,0 +1,24 @@
+// ERC-5202 blueprints: contracts whose code is 0xFE7100 followed by another contract's creation code. The 0xFE
+// prefix makes the blueprint itself uncallable; PayrollFactory copies the creation code out to deploy from it.
+
+export const BLUEPRINT_PREAMBLE = "fe7100";
+// EIP-170 caps deployed code, and so the blueprint's preamble plus creation code, at 24,576 bytes
+export const MAX_CODE_SIZE = 0x6000;
+
+// Creation code for a blueprint of `creationCode`. The 10-byte prefix is PUSH2 <length>, DUP1, PUSH1 10,
+// RETURNDATASIZE, CODECOPY, RETURNDATASIZE, RETURN: it returns everything after itself as the runtime code.
+export function blueprintDeployData(creationCode: string): string {
+  const blueprintCode = BLUEPRINT_PREAMBLE + creationCode.replace(/^0x/, "");
+  const size = blueprintCode.length / 2;
+  if (size > MAX_CODE_SIZE) {
+    throw new Error(
+      `Blueprint is ${size} bytes, over the ${MAX_CODE_SIZE}-byte contract size limit`,
+    );
+  }
+  return (
+    "0x61" +
+    size.toString(16).padStart(4, "0") +
+    "80600a3d393df3" +
+    blueprintCode
+  );
+}
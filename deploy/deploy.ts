@@ -3,7 +3,8 @@ import fs from "fs";
 import path from "path";
 import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
+import { ethers, Wallet, JsonRpcProvider } from "ethers";
+import { blueprintDeployData } from "./blueprint";
 
 const WORD_LIBRARY = [
   'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
@@ -326,7 +327,8 @@ async function main() {
   }
 
   const DEFAULT_RPC = "https://sepolia.drpc.org";
-  const rpc = DEFAULT_RPC;
+  // DEPLOY_RPC_URL=http://127.0.0.1:8545 targets a local `npx hardhat node`, e.g. for the indexer
+  const rpc = process.env.DEPLOY_RPC_URL || DEFAULT_RPC;
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
@@ -335,12 +337,116 @@ async function main() {
 
   try {
     const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-    const factory = await UniversalAdapterFactory.deploy();
+    // The deployer owns the namespace the web app's records live in and adds other writers itself
+    const factory = await UniversalAdapterFactory.deploy(["payroll"]);
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
     console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+    const PayrollDeductionsFactory = await hardhatEthers.getContractFactory("PayrollDeductions", wallet);
+    const payrollDeductions = await PayrollDeductionsFactory.deploy();
+    await payrollDeductions.waitForDeployment();
+
+    const payrollDeductionsAddress = (payrollDeductions as any).target || (payrollDeductions as any).address;
+    console.log("PayrollDeductions library deployed at:", payrollDeductionsAddress);
+
+    // PayrollFactory deploys organizations' instances from an ERC-5202 blueprint of StealthPayrollFHE
+    const payrollCreationCode = (
+      await hardhatEthers.getContractFactory("StealthPayrollFHE", {
+        signer: wallet,
+        libraries: { PayrollDeductions: payrollDeductionsAddress }
+      })
+    ).bytecode;
+    const blueprintTx = await wallet.sendTransaction({ data: blueprintDeployData(payrollCreationCode) });
+    const blueprintReceipt = await blueprintTx.wait();
+    const payrollBlueprintAddress = blueprintReceipt?.contractAddress;
+    if (!payrollBlueprintAddress) throw new Error("StealthPayrollFHE blueprint deployment failed");
+    console.log("StealthPayrollFHE blueprint deployed at:", payrollBlueprintAddress);
+
+    const PayrollFactoryFactory = await hardhatEthers.getContractFactory("PayrollFactory", wallet);
+    const payrollFactory = await PayrollFactoryFactory.deploy(payrollBlueprintAddress);
+    await payrollFactory.waitForDeployment();
+
+    const payrollFactoryAddress = (payrollFactory as any).target || (payrollFactory as any).address;
+    console.log("PayrollFactory contract deployed at:", payrollFactoryAddress);
+
+    // The deployer's own organization is the default instance the web app opens with
+    await (await (payrollFactory as any).createOrganization("Default", wallet.address)).wait();
+    const payrollAddress = (await (payrollFactory as any).getOrganization(1)).payroll;
+    const payroll = await hardhatEthers.getContractAt("StealthPayrollFHE", payrollAddress, wallet);
+    console.log("StealthPayrollFHE contract deployed at:", payrollAddress);
+
+    const PayoutTokenFactory = await hardhatEthers.getContractFactory("ConfidentialPayrollToken", wallet);
+    const payoutToken = await PayoutTokenFactory.deploy("Stealth Payroll USD", "spUSD");
+    await payoutToken.waitForDeployment();
+
+    const payoutTokenAddress = (payoutToken as any).target || (payoutToken as any).address;
+    console.log("ConfidentialPayrollToken contract deployed at:", payoutTokenAddress);
+
+    // Payouts are drawn from the treasury escrow, which makes the payroll contract its operator on deployment
+    const PayrollTreasuryFactory = await hardhatEthers.getContractFactory("PayrollTreasury", wallet);
+    const treasury = await PayrollTreasuryFactory.deploy(payrollAddress, payoutTokenAddress);
+    await treasury.waitForDeployment();
+
+    const treasuryAddress = (treasury as any).target || (treasury as any).address;
+    console.log("PayrollTreasury contract deployed at:", treasuryAddress);
+
+    await (await (payroll as any).setTreasury(treasuryAddress)).wait();
+    await (await (payroll as any).grantRole(await (payroll as any).PAYROLL_MODULE_ROLE(), treasuryAddress)).wait();
+    console.log("Configured payroll payouts from treasury:", treasuryAddress);
+
+    const PayrollStreamsFactory = await hardhatEthers.getContractFactory("PayrollStreams", wallet);
+    const streams = await PayrollStreamsFactory.deploy(payrollAddress, payoutTokenAddress);
+    await streams.waitForDeployment();
+
+    const streamsAddress = (streams as any).target || (streams as any).address;
+    console.log("PayrollStreams contract deployed at:", streamsAddress);
+
+    await (await (payroll as any).setModule(ethers.id("PayrollStreams"), streamsAddress)).wait();
+
+    const PayrollAuditGrantsFactory = await hardhatEthers.getContractFactory("PayrollAuditGrants", wallet);
+    const auditGrants = await PayrollAuditGrantsFactory.deploy(payrollAddress);
+    await auditGrants.waitForDeployment();
+
+    const auditGrantsAddress = (auditGrants as any).target || (auditGrants as any).address;
+    console.log("PayrollAuditGrants contract deployed at:", auditGrantsAddress);
+
+    await (await (payroll as any).grantRole(await (payroll as any).PAYROLL_MODULE_ROLE(), auditGrantsAddress)).wait();
+    await (await (payroll as any).setModule(ethers.id("PayrollAuditGrants"), auditGrantsAddress)).wait();
+
+    // Registering the compliance module also makes the payroll run its checks on every submitted salary
+    const PayrollComplianceFactory = await hardhatEthers.getContractFactory("PayrollCompliance", wallet);
+    const compliance = await PayrollComplianceFactory.deploy(payrollAddress);
+    await compliance.waitForDeployment();
+
+    const complianceAddress = (compliance as any).target || (compliance as any).address;
+    console.log("PayrollCompliance contract deployed at:", complianceAddress);
+
+    await (await (payroll as any).setModule(ethers.id("PayrollCompliance"), complianceAddress)).wait();
+
+    // Group averages are only decrypted for groups of at least five employees
+    const PayrollEquityFactory = await hardhatEthers.getContractFactory("PayrollEquity", wallet);
+    const equity = await PayrollEquityFactory.deploy(payrollAddress, 5);
+    await equity.waitForDeployment();
+
+    const equityAddress = (equity as any).target || (equity as any).address;
+    console.log("PayrollEquity contract deployed at:", equityAddress);
+
+    await (await (payroll as any).grantRole(await (payroll as any).PAYROLL_MODULE_ROLE(), equityAddress)).wait();
+    await (await (payroll as any).setModule(ethers.id("PayrollEquity"), equityAddress)).wait();
+
+    // Opens revision batches through openRevision, which is restricted to payroll modules
+    const PayrollAmendmentsFactory = await hardhatEthers.getContractFactory("PayrollAmendments", wallet);
+    const amendments = await PayrollAmendmentsFactory.deploy(payrollAddress);
+    await amendments.waitForDeployment();
+
+    const amendmentsAddress = (amendments as any).target || (amendments as any).address;
+    console.log("PayrollAmendments contract deployed at:", amendmentsAddress);
+
+    await (await (payroll as any).grantRole(await (payroll as any).PAYROLL_MODULE_ROLE(), amendmentsAddress)).wait();
+    await (await (payroll as any).setModule(ethers.id("PayrollAmendments"), amendmentsAddress)).wait();
+
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
       const lines = walletsContent.split("\n").filter(line => line.trim() !== "");
@@ -361,7 +467,11 @@ async function main() {
       const config = {
         network: rpc,
         contractAddress: deployedAddress,
+        payrollContractAddress: payrollAddress,
+        payrollFactoryAddress: payrollFactoryAddress,
+        payoutTokenAddress: payoutTokenAddress,
         deployer: wallet.address,
+        indexerUrl: process.env.INDEXER_URL || "",
       };
       fs.writeFileSync(
         path.join(frontendConfigDir, "config.json"),
@@ -388,6 +498,150 @@ async function main() {
           e
         );
       }
+
+      try {
+        const payrollArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "Stealth_Payroll.sol",
+          "StealthPayrollFHE.json"
+        );
+        fs.copyFileSync(payrollArtifactPath, path.join(frontendConfigDir, "abi", "StealthPayrollFHE.json"));
+        console.log("Copied ABI to frontend/web/src/abi/StealthPayrollFHE.json");
+      } catch (e) {
+        console.warn(
+          "Failed to copy ABI automatically. Please copy artifacts/.../StealthPayrollFHE.json manually to frontend/web/src/abi/StealthPayrollFHE.json",
+          e
+        );
+      }
+
+      try {
+        const factoryArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "PayrollFactory.sol",
+          "PayrollFactory.json"
+        );
+        fs.copyFileSync(factoryArtifactPath, path.join(frontendConfigDir, "abi", "PayrollFactory.json"));
+        console.log("Copied ABI to frontend/web/src/abi/PayrollFactory.json");
+      } catch (e) {
+        console.warn(
+          "Failed to copy ABI automatically. Please copy artifacts/.../PayrollFactory.json manually to frontend/web/src/abi/PayrollFactory.json",
+          e
+        );
+      }
+
+      try {
+        const treasuryArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "PayrollTreasury.sol",
+          "PayrollTreasury.json"
+        );
+        fs.copyFileSync(treasuryArtifactPath, path.join(frontendConfigDir, "abi", "PayrollTreasury.json"));
+        console.log("Copied ABI to frontend/web/src/abi/PayrollTreasury.json");
+      } catch (e) {
+        console.warn(
+          "Failed to copy ABI automatically. Please copy artifacts/.../PayrollTreasury.json manually to frontend/web/src/abi/PayrollTreasury.json",
+          e
+        );
+      }
+
+      try {
+        const streamsArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "PayrollStreams.sol",
+          "PayrollStreams.json"
+        );
+        fs.copyFileSync(streamsArtifactPath, path.join(frontendConfigDir, "abi", "PayrollStreams.json"));
+        console.log("Copied ABI to frontend/web/src/abi/PayrollStreams.json");
+      } catch (e) {
+        console.warn(
+          "Failed to copy ABI automatically. Please copy artifacts/.../PayrollStreams.json manually to frontend/web/src/abi/PayrollStreams.json",
+          e
+        );
+      }
+
+      try {
+        const auditGrantsArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "PayrollAuditGrants.sol",
+          "PayrollAuditGrants.json"
+        );
+        fs.copyFileSync(auditGrantsArtifactPath, path.join(frontendConfigDir, "abi", "PayrollAuditGrants.json"));
+        console.log("Copied ABI to frontend/web/src/abi/PayrollAuditGrants.json");
+      } catch (e) {
+        console.warn(
+          "Failed to copy ABI automatically. Please copy artifacts/.../PayrollAuditGrants.json manually to frontend/web/src/abi/PayrollAuditGrants.json",
+          e
+        );
+      }
+
+      try {
+        const complianceArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "PayrollCompliance.sol",
+          "PayrollCompliance.json"
+        );
+        fs.copyFileSync(complianceArtifactPath, path.join(frontendConfigDir, "abi", "PayrollCompliance.json"));
+        console.log("Copied ABI to frontend/web/src/abi/PayrollCompliance.json");
+      } catch (e) {
+        console.warn(
+          "Failed to copy ABI automatically. Please copy artifacts/.../PayrollCompliance.json manually to frontend/web/src/abi/PayrollCompliance.json",
+          e
+        );
+      }
+
+      try {
+        const equityArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "PayrollEquity.sol",
+          "PayrollEquity.json"
+        );
+        fs.copyFileSync(equityArtifactPath, path.join(frontendConfigDir, "abi", "PayrollEquity.json"));
+        console.log("Copied ABI to frontend/web/src/abi/PayrollEquity.json");
+      } catch (e) {
+        console.warn(
+          "Failed to copy ABI automatically. Please copy artifacts/.../PayrollEquity.json manually to frontend/web/src/abi/PayrollEquity.json",
+          e
+        );
+      }
+
+      try {
+        const amendmentsArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "PayrollAmendments.sol",
+          "PayrollAmendments.json"
+        );
+        fs.copyFileSync(amendmentsArtifactPath, path.join(frontendConfigDir, "abi", "PayrollAmendments.json"));
+        console.log("Copied ABI to frontend/web/src/abi/PayrollAmendments.json");
+      } catch (e) {
+        console.warn(
+          "Failed to copy ABI automatically. Please copy artifacts/.../PayrollAmendments.json manually to frontend/web/src/abi/PayrollAmendments.json",
+          e
+        );
+      }
     }
   } catch (error) {
     console.error("Deployment failed:", error);
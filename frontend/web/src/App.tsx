@@ -3,24 +3,109 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { useLocation, useNavigate } from "react-router-dom";
+import { getContractReadOnly, getPayrollContractReadOnly, getPayrollContractWithSigner, getFactoryContractReadOnly, getFactoryContractWithSigner, getTreasuryContractReadOnly, getTreasuryContractWithSigner, getAmendmentsContractReadOnly, getActivePayrollAddress, setActivePayrollAddress, decodeRevert, config, normAddr, ROLES, RoleName } from "./contract";
+import { encryptPayrollInput, encryptAdjustmentInput, userDecryptHandles } from "./fhe";
+import StreamsPanel from "./components/StreamsPanel";
+import AuditGrantsPanel from "./components/AuditGrantsPanel";
+import CompliancePanel from "./components/CompliancePanel";
+import EquityAnalyticsPage from "./components/EquityAnalyticsPage";
+import AmendmentsPanel from "./components/AmendmentsPanel";
+import RecordStoreAccessPanel from "./components/RecordStoreAccessPanel";
+import RecordStatusTimeline from "./components/RecordStatusTimeline";
+import { buildPayslip, signPayslip, payslipToPdf, downloadBlob, PayoutBreakdown } from "./payslip";
+import { PayrollRecord, RecordSource, loadPayrollRecords, loadLegacyRecords, isLegacyRecord, recordPayrollAddress, recordStatusName } from "./records";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-interface PayrollRecord {
-  id: string;
-  encryptedSalary: string;
-  encryptedInvestment: string;
-  timestamp: number;
-  employee: string;
-  status: "pending" | "processed" | "failed";
-  investmentStrategy: string;
+import { useAccount } from 'wagmi';
+
+// Amounts are converted from the batch currency's minor units to major units
+interface BatchSummary {
+  batchId: number;
+  requestId: string;
+  totalSalary: number;
+  totalInvestmentAmount: number;
+  decryptedAt: number;
+  currency: string;
+  decimals: number;
+  overflowed: boolean;
+  invalidEntries: number;
+  totalTaxWithheld: number;
+  totalFlatWithheld: number;
+  totalBenefitDeductions: number;
+  totalNetPay: number;
+}
+
+interface BatchInfo {
+  id: number;
+  isOpen: boolean;
+  isExecuted: boolean;
+  currency: string;
+  decimals: number;
+  employeeCount: number;
+  carried: number; // Carry-forward candidates processed, out of carryEnd
+  carryEnd: number;
+  paid: number; // Employees paid so far, out of employeeCount
+}
+
+// Sign-off state of the current batch against the APPROVER_ROLE set
+interface BatchApprovals {
+  batchId: number;
+  threshold: number;
+  approvalCount: number;
+  approverSet: string[];
+  signedOff: string[];
+  submitters: string[]; // Accounts that changed the batch; the contract refuses their sign-off on it
+}
+
+// Solvency check of the current batch against the PayrollTreasury escrow
+interface TreasuryState {
+  address: string;
+  batchId: number;
+  status: number;
+  checkedAt: number;
+}
+
+// Entry of a batch's adjustments ledger; amount and direction stay encrypted
+interface PayrollAdjustment {
+  id: number;
+  employeeId: string;
+  amountHandle: string;
+  isDebitHandle: string;
+  reason: number;
+  submitter: string;
+  createdAt: number;
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
+// Entry of the PayrollFactory registry
+interface Organization {
+  id: number;
+  name: string;
+  admin: string;
+  payroll: string;
+}
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+const ANALYTICS_PATH = "/analytics";
+
+const NO_ROLES: Record<RoleName, boolean> = {
+  payrollAdmin: false,
+  dataProvider: false,
+  approver: false,
+  auditor: false,
+  pauser: false,
+  compliance: false
+};
+
+const formatAmount = (value: number, currency: string): string => {
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${currency}`;
 };
 
+const SUMMARY_PAGE_SIZE = 50;
+// Employees per carryForward and executeBatch transaction, sized to stay within the per-transaction FHE gas limit
+const CARRY_FORWARD_PAGE_SIZE = 2;
+const PAYOUT_PAGE_SIZE = 8;
+const ORGANIZATION_PAGE_SIZE = 50;
+
 const FHEDecryptNumber = (encryptedData: string): number => {
   if (encryptedData.startsWith('FHE-')) {
     return parseFloat(atob(encryptedData.substring(4)));
@@ -28,30 +113,59 @@ const FHEDecryptNumber = (encryptedData: string): number => {
   return parseFloat(encryptedData);
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+// Mirrors StealthPayrollFHE.AdjustmentReason
+const ADJUSTMENT_REASONS = ["Bonus", "Retro Pay", "Clawback", "Correction"];
+
+// Mirrors PayrollTreasury.SolvencyStatus
+const SOLVENCY_STATUS = ["Not checked", "Checking", "Funded", "Underfunded", "Stale", "Paid out"];
+const SOLVENCY_PENDING = 1;
+const SOLVENCY_FUNDED = 2;
+const SOLVENCY_UNDERFUNDED = 3;
+
+// Mirrors StealthPayrollFHE.EmployeeStatus
+const EMPLOYEE_STATUS_ACTIVE = 1;
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<PayrollRecord[]>([]);
+  const [recordSource, setRecordSource] = useState<RecordSource>("payroll");
+  const [summaries, setSummaries] = useState<BatchSummary[]>([]);
+  const [currentBatch, setCurrentBatch] = useState<BatchInfo | null>(null);
+  const [roles, setRoles] = useState<Record<RoleName, boolean>>(NO_ROLES);
+  const [approvals, setApprovals] = useState<BatchApprovals | null>(null);
+  const [treasury, setTreasury] = useState<TreasuryState | null>(null);
+  const [streamsAddress, setStreamsAddress] = useState<string | null>(null);
+  const [auditGrantsAddress, setAuditGrantsAddress] = useState<string | null>(null);
+  const [complianceAddress, setComplianceAddress] = useState<string | null>(null);
+  const [equityAddress, setEquityAddress] = useState<string | null>(null);
+  const [amendmentsAddress, setAmendmentsAddress] = useState<string | null>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isAnalyticsPage = location.pathname === ANALYTICS_PATH;
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [activePayroll, setActivePayroll] = useState<string>(getActivePayrollAddress());
+  const [showOrganizationModal, setShowOrganizationModal] = useState(false);
+  const [newOrganization, setNewOrganization] = useState({ name: "", admin: "" });
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
   const [newRecordData, setNewRecordData] = useState({ 
     employeeAddress: "", 
+    employeeId: 0,
     salary: 0, 
-    investmentAmount: 0,
-    investmentStrategy: "ETH" 
+    investmentPercentage: 0
   });
   const [selectedRecord, setSelectedRecord] = useState<PayrollRecord | null>(null);
   const [decryptedSalary, setDecryptedSalary] = useState<number | null>(null);
   const [decryptedInvestment, setDecryptedInvestment] = useState<number | null>(null);
+  const [decryptedPayout, setDecryptedPayout] = useState<PayoutBreakdown | null>(null);
+  const [recordAdjustments, setRecordAdjustments] = useState<PayrollAdjustment[]>([]);
+  const [decryptedAdjustments, setDecryptedAdjustments] = useState<Record<number, number>>({});
+  const [newAdjustment, setNewAdjustment] = useState({ amount: 0, isDebit: false, reason: 0 });
+  const [submittingAdjustment, setSubmittingAdjustment] = useState(false);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [announcements, setAnnouncements] = useState<string[]>([
@@ -64,116 +178,522 @@ const App: React.FC = () => {
   const processedCount = records.filter(r => r.status === "processed").length;
   const pendingCount = records.filter(r => r.status === "pending").length;
   const failedCount = records.filter(r => r.status === "failed").length;
-  const totalSalary = records.reduce((sum, record) => {
-    return sum + (record.status === "processed" ? FHEDecryptNumber(record.encryptedSalary) : 0);
-  }, 0);
-  const totalInvestment = records.reduce((sum, record) => {
-    return sum + (record.status === "processed" ? FHEDecryptNumber(record.encryptedInvestment) : 0);
-  }, 0);
+  // Totals come from decrypted batch summaries stored on-chain; only batches in the latest currency are added up
+  const displayCurrency = summaries.length > 0 ? summaries[summaries.length - 1].currency : (currentBatch?.currency || "USD");
+  const currencySummaries = summaries.filter(summary => summary.currency === displayCurrency && !summary.overflowed);
+  const totalSalary = currencySummaries.reduce((sum, summary) => sum + summary.totalSalary, 0);
+  const totalInvestment = currencySummaries.reduce((sum, summary) => sum + summary.totalInvestmentAmount, 0);
+  const totalWithheld = currencySummaries.reduce(
+    (sum, summary) => sum + summary.totalTaxWithheld + summary.totalFlatWithheld + summary.totalBenefitDeductions, 0
+  );
+  const totalNetPay = currencySummaries.reduce((sum, summary) => sum + summary.totalNetPay, 0);
+  const invalidEntryCount = summaries.reduce((sum, summary) => sum + summary.invalidEntries, 0);
 
   useEffect(() => {
-    loadRecords().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
+    loadOrganizations();
   }, []);
 
-  const loadRecords = async () => {
-    setIsRefreshing(true);
+  useEffect(() => {
+    setSummaries([]);
+    setCurrentBatch(null);
+    setApprovals(null);
+    setTreasury(null);
+    setStreamsAddress(null);
+    refreshDashboard().finally(() => setLoading(false));
+  }, [activePayroll]);
+
+  useEffect(() => {
+    loadRoles();
+  }, [address, activePayroll]);
+
+  useEffect(() => {
+    setDecryptedAdjustments({});
+    if (selectedRecord) loadRecordAdjustments(selectedRecord);
+    else setRecordAdjustments([]);
+  }, [selectedRecord]);
+
+  const loadRecordAdjustments = async (record: PayrollRecord) => {
+    if (isLegacyRecord(record) || record.batchId === undefined || record.employeeId === undefined) {
+      setRecordAdjustments([]);
+      return;
+    }
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.log("Contract is not available");
-        return;
+      const payrollContract = await getPayrollContractReadOnly();
+      if (!payrollContract) return;
+
+      const ledger = await payrollContract.getBatchAdjustments(record.batchId);
+      const list: PayrollAdjustment[] = [];
+      ledger.forEach((adjustment: any, index: number) => {
+        if (adjustment.employeeId.toString() !== record.employeeId) return;
+        list.push({
+          id: index,
+          employeeId: adjustment.employeeId.toString(),
+          amountHandle: adjustment.amount,
+          isDebitHandle: adjustment.isDebit,
+          reason: Number(adjustment.reason),
+          submitter: adjustment.submitter,
+          createdAt: Number(adjustment.createdAt)
+        });
+      });
+      setRecordAdjustments(list);
+    } catch (e) { console.error("Error loading adjustments:", e); }
+  };
+
+  // Approvers who have not changed the batch, optionally counting `submitter` as having changed it
+  const eligibleApprovers = (batchApprovals: BatchApprovals, submitter?: string) =>
+    batchApprovals.approverSet.filter(approver =>
+      normAddr(approver) !== normAddr(submitter || "") && !batchApprovals.submitters.includes(normAddr(approver)));
+
+  // Submitting makes the wallet ineligible to approve the batch, which deadlocks it if too few approvers are left
+  const confirmQuorumReachable = (): boolean => {
+    if (!approvals || !address || eligibleApprovers(approvals, address).length >= approvals.threshold) return true;
+    return window.confirm(
+      `After this submission only ${eligibleApprovers(approvals, address).length} approver(s) can sign off batch #${approvals.batchId}, ` +
+      `but ${approvals.threshold} are required. Grant APPROVER_ROLE to another account before closing. Submit anyway?`
+    );
+  };
+
+  const submitAdjustment = async (record: PayrollRecord) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (!currentBatch || !currentBatch.isOpen || record.batchId !== currentBatch.id) {
+      alert("Adjustments can only be added while the record's batch is open");
+      return;
+    }
+    if (!confirmQuorumReachable()) return;
+    let amountMinorUnits: bigint;
+    try { amountMinorUnits = ethers.parseUnits(String(newAdjustment.amount), currentBatch.decimals); }
+    catch (e) { alert(`Amount has more than ${currentBatch.decimals} decimal places`); return; }
+    if (amountMinorUnits <= 0n || amountMinorUnits > MAX_UINT64) { alert("Amount is out of range"); return; }
+    setSubmittingAdjustment(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting adjustment with Zama FHE..." });
+    try {
+      const encrypted = await encryptAdjustmentInput(activePayroll, address, amountMinorUnits, newAdjustment.isDebit);
+      const payrollContract = await getPayrollContractWithSigner();
+      if (!payrollContract) throw new Error("Failed to get payroll contract with signer");
+
+      const tx = await payrollContract.submitAdjustment(
+        record.employeeId,
+        encrypted.amountHandle,
+        encrypted.isDebitHandle,
+        newAdjustment.reason,
+        encrypted.inputProof
+      );
+      await tx.wait();
+
+      setTransactionStatus({ visible: true, status: "success", message: "Adjustment recorded in the batch ledger" });
+      setNewAdjustment({ amount: 0, isDebit: false, reason: 0 });
+      await Promise.all([loadRecordAdjustments(record), refreshDashboard()]);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : "Adjustment failed: " + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { setSubmittingAdjustment(false); }
+  };
+
+  const loadOrganizations = async () => {
+    try {
+      const factory = await getFactoryContractReadOnly();
+      if (!factory) return;
+
+      const count = Number(await factory.organizationCount());
+      const list: Organization[] = [];
+      for (let offset = 0; offset < count; offset += ORGANIZATION_PAGE_SIZE) {
+        const page = await factory.getOrganizations(offset, ORGANIZATION_PAGE_SIZE);
+        for (const org of page) {
+          list.push({ id: Number(org.id), name: org.name, admin: org.admin, payroll: org.payroll });
+        }
+      }
+      setOrganizations(list);
+    } catch (e) { console.error("Error loading organizations:", e); }
+  };
+
+  const switchOrganization = (payroll: string) => {
+    setActivePayrollAddress(payroll);
+    setActivePayroll(payroll);
+  };
+
+  const createOrganization = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    const admin = newOrganization.admin || address;
+    if (!newOrganization.name.trim()) { alert("Please enter an organization name"); return; }
+    if (!ethers.isAddress(admin)) { alert("Please enter a valid admin address"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Deploying payroll instance for the organization..." });
+    try {
+      const factory = await getFactoryContractWithSigner();
+      if (!factory) throw new Error("Failed to get factory contract with signer");
+      const tx = await factory.createOrganization(newOrganization.name.trim(), admin);
+      const receipt = await tx.wait();
+
+      const created = receipt.logs
+        .map((log: any) => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find((parsed: any) => parsed?.name === "OrganizationCreated");
+      await loadOrganizations();
+      if (created) switchOrganization(created.args.payroll);
+
+      setTransactionStatus({ visible: true, status: "success", message: "Organization created" });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+        setShowOrganizationModal(false);
+        setNewOrganization({ name: "", admin: "" });
+      }, 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : "Organization creation failed: " + (e.shortMessage || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Actions are only offered to wallets holding the role the payroll contract checks for them
+  const loadRoles = async () => {
+    if (!address) { setRoles(NO_ROLES); return; }
+    try {
+      const payrollContract = await getPayrollContractReadOnly();
+      if (!payrollContract) { setRoles(NO_ROLES); return; }
+
+      const names = Object.keys(ROLES) as RoleName[];
+      const granted = await Promise.all(names.map(name => payrollContract.hasRole(ROLES[name], address)));
+      const next = { ...NO_ROLES };
+      names.forEach((name, index) => { next[name] = granted[index]; });
+      setRoles(next);
+    } catch (e) {
+      console.error("Error loading roles:", e);
+      setRoles(NO_ROLES);
+    }
+  };
+
+  const refreshDashboard = async () => {
+    await Promise.all([loadRecords(), loadBatchSummaries(), loadCurrentBatch(), loadModuleAddresses()]);
+  };
+
+  const loadModuleAddresses = async () => {
+    try {
+      const payrollContract = await getPayrollContractReadOnly();
+      if (!payrollContract) return;
+      const [streams, auditGrants, compliance, equity, amendments]: string[] = await Promise.all([
+        payrollContract.modules(ethers.id("PayrollStreams")),
+        payrollContract.modules(ethers.id("PayrollAuditGrants")),
+        payrollContract.modules(ethers.id("PayrollCompliance")),
+        payrollContract.modules(ethers.id("PayrollEquity")),
+        payrollContract.modules(ethers.id("PayrollAmendments"))
+      ]);
+      setStreamsAddress(streams === ethers.ZeroAddress ? null : streams);
+      setAuditGrantsAddress(auditGrants === ethers.ZeroAddress ? null : auditGrants);
+      setComplianceAddress(compliance === ethers.ZeroAddress ? null : compliance);
+      setEquityAddress(equity === ethers.ZeroAddress ? null : equity);
+      setAmendmentsAddress(amendments === ethers.ZeroAddress ? null : amendments);
+    } catch (e) { console.error("Error loading payroll modules:", e); }
+  };
+
+  const loadCurrentBatch = async () => {
+    try {
+      const payrollContract = await getPayrollContractReadOnly();
+      if (!payrollContract) return;
+
+      const batchId = await payrollContract.currentBatchId();
+      const [batch, progress] = await Promise.all([
+        payrollContract.batches(batchId),
+        payrollContract.batchProgress(batchId)
+      ]);
+      setCurrentBatch({
+        id: Number(batchId),
+        isOpen: batch.isOpen,
+        isExecuted: batch.isExecuted,
+        currency: batch.currency,
+        decimals: Number(batch.decimals),
+        employeeCount: Number(batch.employeeCount),
+        carried: Number(progress.carried),
+        carryEnd: Number(progress.carryEnd),
+        paid: Number(progress.paid)
+      });
+
+      const [threshold, approvalCount, approverSet, signedOff, submissionLogs, adjustmentLogs] = await Promise.all([
+        payrollContract.approvalThreshold(),
+        payrollContract.approvalCount(batchId),
+        payrollContract.getRoleMembers(ROLES.approver),
+        payrollContract.getBatchApprovers(batchId),
+        payrollContract.queryFilter(payrollContract.filters.EmployeeDataSubmitted(batchId)),
+        payrollContract.queryFilter(payrollContract.filters.AdjustmentRecorded(batchId))
+      ]);
+      const submitters = [...submissionLogs, ...adjustmentLogs].map(log => normAddr((log as ethers.EventLog).args[2]));
+      setApprovals({
+        batchId: Number(batchId),
+        threshold: Number(threshold),
+        approvalCount: Number(approvalCount),
+        approverSet: [...approverSet],
+        signedOff: [...signedOff],
+        submitters: [...new Set(submitters)]
+      });
+
+      const treasuryAddress: string = await payrollContract.treasury();
+      if (treasuryAddress === ethers.ZeroAddress) { setTreasury(null); return; }
+      const treasuryContract = await getTreasuryContractReadOnly(treasuryAddress);
+      if (!treasuryContract) return;
+      const check = await treasuryContract.getSolvencyCheck(batchId);
+      setTreasury({
+        address: treasuryAddress,
+        batchId: Number(batchId),
+        status: Number(check.status),
+        checkedAt: Number(check.checkedAt)
+      });
+    } catch (e) { console.error("Error loading current batch:", e); }
+  };
+
+  const describeRevert = (e: any): string | null => {
+    const revert = decodeRevert(e);
+    if (!revert) return null;
+    const batchId = revert.args[0]?.toString();
+    switch (revert.name) {
+      case "BatchUnderfunded":
+        return `Batch #${batchId} is underfunded: the treasury balance does not cover its net pay. Deposit funds and check solvency again.`;
+      case "StaleSolvencyCheck":
+        return `The treasury balance was drawn on after batch #${batchId} was checked. Check solvency again.`;
+      case "SolvencyNotChecked":
+        return `Batch #${batchId} has no completed solvency check.`;
+      case "PayoutInProgress":
+        return `Batch #${batchId} is still being paid out. Finish the payout before withdrawing or checking another batch.`;
+      case "SolvencyCheckPending":
+        return `The solvency check of batch #${batchId} is still being decrypted.`;
+      case "QuorumNotReached":
+        return `Batch #${batchId} has not reached its approval quorum.`;
+      case "IssuanceClosed":
+        return `The issuance window of audit grant #${revert.args[0]} has closed.`;
+      case "GrantRevoked":
+        return `Audit grant #${revert.args[0]} has been revoked.`;
+      case "BatchOutOfRange":
+        return `Batch #${revert.args[1]} is outside the batches covered by audit grant #${revert.args[0]}.`;
+      case "BatchSuperseded":
+        return `Batch #${batchId} has been amended; use revision batch #${revert.args[1]} instead.`;
+      case "EmployeeNotAmended":
+        return `Employee #${revert.args[0]} is not listed on this revision.`;
+      case "BatchNotClosed":
+        // The payroll's own error carries no batch ID; it is also raised when amending while a batch is open
+        return batchId ? `Batch #${batchId} must be closed first.` : "The batch must be closed first, and no other batch may be open.";
+      case "NotWriter":
+        return `This wallet cannot write to the "${revert.args[0]}" namespace of the record store. Ask the namespace owner to add it as a writer.`;
+      case "NotNamespaceOwner":
+        return `Only the owner of the "${revert.args[0]}" namespace can manage its writers and processors, track records or reopen failed ones.`;
+      case "NamespaceTaken":
+        return `The "${revert.args[0]}" namespace is already owned by ${revert.args[1]}.`;
+      case "NotProcessor":
+        return `This wallet cannot change record statuses in the "${revert.args[0]}" namespace. Ask the namespace owner to add it as a processor.`;
+      case "IllegalTransition":
+        return `A ${recordStatusName(revert.args[0])} record cannot be marked ${recordStatusName(revert.args[1])}.`;
+      case "RecordNotFound":
+        return `Record ${revert.args[1]} is not tracked in the record store.`;
+      case "RecordTracked":
+        return `Record ${revert.args[1]} is already tracked in the record store.`;
+      case "CarryForwardPending":
+        return `Batch #${batchId} still has ${revert.args[1]} employees to carry forward.`;
+      case "ReportIncomplete":
+        return `Report #${revert.args[0]} includes ${revert.args[1]} of ${revert.args[2]} employees so far.`;
+      case "TagsChangedSinceReport":
+        return `Group tags changed since report #${revert.args[1]} on batch #${batchId}; another report on it would reveal the salaries of the employees who moved.`;
+      case "MinGroupSizeChangedSinceReport":
+        return `The minimum group size changed since report #${revert.args[1]} on batch #${batchId}; restore it to report on that batch again.`;
+      default:
+        return revert.name;
+    }
+  };
+
+  const runBatchAction = async (pendingMessage: string, successMessage: string, action: (payrollContract: ethers.Contract) => Promise<any>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const payrollContract = await getPayrollContractWithSigner();
+      if (!payrollContract) throw new Error("Failed to get payroll contract with signer");
+      const tx = await action(payrollContract);
+      await tx.wait();
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
+      await refreshDashboard();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: describeTransactionError(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const describeTransactionError = (e: any): string => {
+    if (e.message?.includes("user rejected transaction")) return "Transaction rejected by user";
+    return "Transaction failed: " + (describeRevert(e) || e.shortMessage || e.message || "Unknown error");
+  };
+
+  const approveBatch = (batchId: number) => runBatchAction(
+    `Signing off batch #${batchId}...`,
+    `Batch #${batchId} approved`,
+    payrollContract => payrollContract.approveBatch(batchId)
+  );
+
+  const revokeBatchApproval = (batchId: number) => runBatchAction(
+    `Revoking approval of batch #${batchId}...`,
+    `Approval of batch #${batchId} revoked`,
+    payrollContract => payrollContract.revokeBatchApproval(batchId)
+  );
+
+  const closeBatch = (batchId: number) => runBatchAction(
+    `Closing batch #${batchId}...`,
+    `Batch #${batchId} closed`,
+    payrollContract => payrollContract.closeBatch()
+  );
+
+  // The result arrives with the decryption callback; refresh to pick it up
+  const requestSolvencyCheck = (treasuryAddress: string, batchId: number) => runBatchAction(
+    `Requesting solvency check of batch #${batchId}...`,
+    `Solvency check of batch #${batchId} requested`,
+    async () => (await getTreasuryContractWithSigner(treasuryAddress)).requestSolvencyCheck(batchId)
+  );
+
+  // Carrying forward and paying out take one transaction per page; each page is mined before the next is sent
+  const runPages = async (pages: number, sendPage: () => Promise<any>) => {
+    let tx = await sendPage();
+    for (let page = 1; page < pages; page++) {
+      await tx.wait();
+      tx = await sendPage();
+    }
+    return tx;
+  };
+
+  const carryForward = (batch: BatchInfo) => runBatchAction(
+    `Carrying employees into batch #${batch.id}...`,
+    `Employees carried into batch #${batch.id}`,
+    payrollContract => runPages(
+      Math.ceil((batch.carryEnd - batch.carried) / CARRY_FORWARD_PAGE_SIZE),
+      () => payrollContract.carryForward(CARRY_FORWARD_PAGE_SIZE)
+    )
+  );
+
+  const executeBatch = (batch: BatchInfo) => runBatchAction(
+    `Paying out batch #${batch.id}...`,
+    `Batch #${batch.id} paid out`,
+    payrollContract => runPages(
+      Math.max(1, Math.ceil((batch.employeeCount - batch.paid) / PAYOUT_PAGE_SIZE)),
+      () => payrollContract.executeBatch(batch.id, PAYOUT_PAGE_SIZE)
+    )
+  );
+
+  const loadBatchSummaries = async () => {
+    try {
+      const payrollContract = await getPayrollContractReadOnly();
+      if (!payrollContract) return;
+
+      const count = Number(await payrollContract.summarizedBatchCount());
+      const list: BatchSummary[] = [];
+      for (let offset = 0; offset < count; offset += SUMMARY_PAGE_SIZE) {
+        const page = await payrollContract.getBatchSummaries(offset, SUMMARY_PAGE_SIZE);
+        for (const summary of page) {
+          const decimals = Number(summary.decimals);
+          list.push({
+            batchId: Number(summary.batchId),
+            requestId: summary.requestId.toString(),
+            totalSalary: Number(ethers.formatUnits(summary.totalSalary, decimals)),
+            totalInvestmentAmount: Number(ethers.formatUnits(summary.totalInvestmentAmount, decimals)),
+            decryptedAt: Number(summary.decryptedAt),
+            currency: summary.currency,
+            decimals,
+            overflowed: summary.overflowed,
+            invalidEntries: Number(summary.invalidEntries),
+            totalTaxWithheld: Number(ethers.formatUnits(summary.totalTaxWithheld, decimals)),
+            totalFlatWithheld: Number(ethers.formatUnits(summary.totalFlatWithheld, decimals)),
+            totalBenefitDeductions: Number(ethers.formatUnits(summary.totalBenefitDeductions, decimals)),
+            totalNetPay: Number(ethers.formatUnits(summary.totalNetPay, decimals))
+          });
+        }
       }
 
-      const keysBytes = await contract.getData("payroll_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing payroll keys:", e); }
+      // An amended batch counts once: summaries of batches replaced by an approved revision are left out
+      const amendmentsAddress: string = await payrollContract.modules(ethers.id("PayrollAmendments"));
+      const amendmentsContract = amendmentsAddress === ethers.ZeroAddress ? null : await getAmendmentsContractReadOnly(amendmentsAddress);
+      if (amendmentsContract && list.length > 0) {
+        const latest: bigint[] = await amendmentsContract.latestApprovedBatchIds(list.map(summary => summary.batchId));
+        setSummaries(list.filter((summary, i) => Number(latest[i]) === summary.batchId));
+        return;
       }
+      setSummaries(list);
+    } catch (e) { console.error("Error loading batch summaries:", e); }
+  };
 
-      const list: PayrollRecord[] = [];
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`payroll_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({ 
-                id: key, 
-                encryptedSalary: recordData.salary, 
-                encryptedInvestment: recordData.investment,
-                timestamp: recordData.timestamp, 
-                employee: recordData.employee, 
-                status: recordData.status || "pending",
-                investmentStrategy: recordData.investmentStrategy || "ETH"
-              });
-            } catch (e) { console.error(`Error parsing record data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading record ${key}:`, e); }
+  const loadRecords = async (source: RecordSource = recordSource) => {
+    setIsRefreshing(true);
+    try {
+      if (source === "legacy") {
+        const contract = await getContractReadOnly();
+        if (!contract || !(await contract.isAvailable())) { setRecords([]); return; }
+        const list = await loadLegacyRecords(contract, activePayroll);
+        setRecords(list);
+        setSelectedRecord(current => current && (list.find(record => record.id === current.id) ?? current));
+        return;
       }
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setRecords(list);
+
+      const payrollContract = await getPayrollContractReadOnly();
+      if (!payrollContract) { setRecords([]); return; }
+      const amendmentsAddress: string = await payrollContract.modules(ethers.id("PayrollAmendments"));
+      const amendmentsContract = amendmentsAddress === ethers.ZeroAddress ? null : await getAmendmentsContractReadOnly(amendmentsAddress);
+      setRecords(await loadPayrollRecords(payrollContract, amendmentsContract));
     } catch (e) { console.error("Error loading records:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
+  const switchRecordSource = (source: RecordSource) => {
+    setRecordSource(source);
+    setRecords([]);
+    loadRecords(source);
+  };
+
   const submitPayroll = async () => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (!ethers.isAddress(newRecordData.employeeAddress)) { alert("Please enter a valid employee address"); return; }
+    if (!currentBatch || !currentBatch.isOpen) { alert("There is no open payroll batch"); return; }
+    let salaryMinorUnits: bigint;
+    try { salaryMinorUnits = ethers.parseUnits(String(newRecordData.salary), currentBatch.decimals); }
+    catch (e) { alert(`Salary has more than ${currentBatch.decimals} decimal places`); return; }
+    const investmentPercentage = Math.round(newRecordData.investmentPercentage);
+    if (salaryMinorUnits <= 0n || salaryMinorUnits > MAX_UINT64) { alert("Salary is out of range"); return; }
+    if (!(investmentPercentage >= 0 && investmentPercentage <= 100)) { alert("Investment percentage must be between 0 and 100"); return; }
+    if (!confirmQuorumReachable()) return;
     setCreating(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting payroll data with Zama FHE..." });
     try {
-      const encryptedSalary = FHEEncryptNumber(newRecordData.salary);
-      const encryptedInvestment = FHEEncryptNumber(newRecordData.investmentAmount);
+      const encrypted = await encryptPayrollInput(activePayroll, address, salaryMinorUnits, investmentPercentage);
       
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
+      const payrollContract = await getPayrollContractWithSigner();
+      if (!payrollContract) throw new Error("Failed to get payroll contract with signer");
       
-      const recordId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const recordData = { 
-        salary: encryptedSalary, 
-        investment: encryptedInvestment,
-        timestamp: Math.floor(Date.now() / 1000), 
-        employee: newRecordData.employeeAddress, 
-        status: "pending",
-        investmentStrategy: newRecordData.investmentStrategy
-      };
-      
-      await contract.setData(`payroll_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(recordData)));
-      
-      const keysBytes = await contract.getData("payroll_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
+      // Submissions are only accepted for active registry members; their wallet gets decryption access
+      const member = await payrollContract.registry(newRecordData.employeeId);
+      if (Number(member.status) !== EMPLOYEE_STATUS_ACTIVE) {
+        if (!roles.payrollAdmin) throw new Error(`Employee #${newRecordData.employeeId} is not an active registry member`);
+        setTransactionStatus({ visible: true, status: "pending", message: "Onboarding employee to the payroll registry..." });
+        const onboardTx = await payrollContract.onboardEmployee(newRecordData.employeeId, newRecordData.employeeAddress);
+        await onboardTx.wait();
+      } else if (roles.payrollAdmin && normAddr(member.wallet) !== normAddr(newRecordData.employeeAddress)) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Linking employee wallet for decryption access..." });
+        const walletTx = await payrollContract.setEmployeeWallet(newRecordData.employeeId, newRecordData.employeeAddress);
+        await walletTx.wait();
       }
-      keys.push(recordId);
-      await contract.setData("payroll_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      
+      setTransactionStatus({ visible: true, status: "pending", message: "Submitting encrypted payroll to StealthPayrollFHE..." });
+      const tx = await payrollContract.submitEmployeeData(
+        newRecordData.employeeId,
+        encrypted.salaryHandle,
+        encrypted.investmentPercentageHandle,
+        encrypted.inputProof
+      );
+      await tx.wait();
       
       setTransactionStatus({ visible: true, status: "success", message: "Payroll submitted securely with FHE encryption!" });
-      await loadRecords();
+      await refreshDashboard();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
         setNewRecordData({ 
           employeeAddress: "", 
+          employeeId: 0,
           salary: 0, 
-          investmentAmount: 0,
-          investmentStrategy: "ETH" 
+          investmentPercentage: 0
         });
       }, 2000);
     } catch (e: any) {
@@ -185,68 +705,112 @@ const App: React.FC = () => {
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const decryptWithSignature = async (record: PayrollRecord): Promise<{ salary: number; investment: number; payout: PayoutBreakdown | null; adjustments: Record<number, number> } | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
+    if (isLegacyRecord(record)) {
+      return { salary: FHEDecryptNumber(record.encryptedSalary), investment: FHEDecryptNumber(record.encryptedInvestment), payout: null, adjustments: {} };
+    }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      const handles = [record.encryptedSalary, record.encryptedInvestment];
+      // The payout breakdown exists once the batch was summarized or paid, and only the employee's wallet may decrypt it
+      let payoutHandles: Record<keyof PayoutBreakdown, string> | null = null;
+      if (record.batchId !== undefined && record.employeeId !== undefined && normAddr(record.employee) === normAddr(address || "")) {
+        const payrollContract = await getPayrollContractReadOnly();
+        const payout = await payrollContract?.getEmployeePayout(record.batchId, record.employeeId);
+        if (payout && payout.netPay !== ethers.ZeroHash) {
+          payoutHandles = {
+            gross: payout.gross,
+            adjustmentCredits: payout.adjustmentCredits,
+            adjustmentDebits: payout.adjustmentDebits,
+            investment: payout.investment,
+            tax: payout.tax,
+            withholding: payout.withholding,
+            benefits: payout.benefits,
+            netPay: payout.netPay
+          };
+          // Credits stay uninitialized for employees without any
+          handles.push(...Object.values(payoutHandles).filter(handle => handle !== ethers.ZeroHash));
+        }
+      }
+
+      // Adjustment amounts are shared with the employee and with whoever submitted them
+      const isEmployee = normAddr(record.employee) === normAddr(address || "");
+      const readableAdjustments = recordAdjustments.filter(
+        adjustment => isEmployee || normAddr(adjustment.submitter) === normAddr(address || "")
+      );
+      readableAdjustments.forEach(adjustment => handles.push(adjustment.amountHandle, adjustment.isDebitHandle));
+
+      const values = await userDecryptHandles(handles, recordPayrollAddress(record));
+      let payout: PayoutBreakdown | null = null;
+      if (payoutHandles) {
+        const decrypted = {} as PayoutBreakdown;
+        (Object.keys(payoutHandles) as (keyof PayoutBreakdown)[]).forEach(key => {
+          decrypted[key] = payoutHandles![key] === ethers.ZeroHash ? 0n : values[payoutHandles![key]];
+        });
+        payout = decrypted;
+      }
+      const adjustments: Record<number, number> = {};
+      readableAdjustments.forEach(adjustment => {
+        const amount = Number(ethers.formatUnits(values[adjustment.amountHandle], record.decimals ?? 2));
+        adjustments[adjustment.id] = values[adjustment.isDebitHandle] ? -amount : amount;
+      });
+      return {
+        salary: Number(ethers.formatUnits(values[record.encryptedSalary], record.decimals ?? 2)),
+        investment: Number(values[record.encryptedInvestment]),
+        payout,
+        adjustments
+      };
     } catch (e) { 
       console.error("Decryption failed:", e); 
+      alert("Decryption failed: this wallet has no access to the record's ciphertexts");
       return null; 
     } finally { 
       setIsDecrypting(false); 
     }
   };
 
-  const processPayroll = async (recordId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted payroll with FHE..." });
+  // Assembled from values the employee has already decrypted; nothing is sent anywhere but the wallet for signing
+  const exportPayslip = async (record: PayrollRecord, payout: PayoutBreakdown, format: "pdf" | "json") => {
+    if (record.batchId === undefined || record.employeeId === undefined) return;
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const recordBytes = await contract.getData(`payroll_${recordId}`);
-      if (recordBytes.length === 0) throw new Error("Record not found");
-      
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedRecord = { ...recordData, status: "processed" };
-      await contractWithSigner.setData(`payroll_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(updatedRecord)));
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Payroll processed successfully with FHE!" });
-      await loadRecords();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Processing failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    }
-  };
+      const payrollAddress = recordPayrollAddress(record);
+      const payrollContract = await getPayrollContractReadOnly();
+      let adjustmentTxs: string[] = [];
+      let payoutTx: string | null = null;
+      try {
+        const [adjustmentLogs, paidLogs] = await Promise.all([
+          payrollContract!.queryFilter(payrollContract!.filters.AdjustmentRecorded(record.batchId, record.employeeId)),
+          payrollContract!.queryFilter(payrollContract!.filters.EmployeePaid(record.batchId, record.employeeId))
+        ]);
+        adjustmentTxs = adjustmentLogs.map(log => log.transactionHash);
+        payoutTx = paidLogs.length > 0 ? paidLogs[paidLogs.length - 1].transactionHash : null;
+      } catch (e) { console.error("Error loading payslip transactions:", e); }
 
-  const markAsFailed = async (recordId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Updating payroll status with FHE..." });
-    try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const recordBytes = await contract.getData(`payroll_${recordId}`);
-      if (recordBytes.length === 0) throw new Error("Record not found");
-      
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      const updatedRecord = { ...recordData, status: "failed" };
-      
-      await contract.setData(`payroll_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(updatedRecord)));
-      setTransactionStatus({ visible: true, status: "success", message: "Payroll marked as failed!" });
-      await loadRecords();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      const network = await payrollContract!.runner!.provider!.getNetwork();
+      const payslip = buildPayslip({
+        chainId: network.chainId.toString(),
+        payrollContract: payrollAddress,
+        batchId: record.batchId,
+        employeeId: record.employeeId,
+        employee: record.employee,
+        currency: record.currency || "USD",
+        decimals: record.decimals ?? 2,
+        investmentPercentage: decryptedInvestment ?? 0,
+        investmentStrategy: record.investmentStrategy || "",
+        transactions: { submission: record.txHash || null, adjustments: adjustmentTxs, payout: payoutTx }
+      }, payout);
+
+      const filename = `payslip-batch-${record.batchId}-employee-${record.employeeId}`;
+      if (format === "pdf") {
+        downloadBlob(payslipToPdf(payslip), `${filename}.pdf`);
+      } else {
+        const signed = await signPayslip(payslip);
+        downloadBlob(new Blob([JSON.stringify(signed, null, 2)], { type: "application/json" }), `${filename}.json`);
+      }
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Update failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      console.error("Payslip export failed:", e);
+      alert("Payslip export failed: " + (e.shortMessage || e.message || "Unknown error"));
     }
   };
 
@@ -261,12 +825,10 @@ const App: React.FC = () => {
     const monthlyData = Array(12).fill(0);
     const currentYear = new Date().getFullYear();
     
-    records.forEach(record => {
-      if (record.status === "processed") {
-        const date = new Date(record.timestamp * 1000);
-        if (date.getFullYear() === currentYear) {
-          monthlyData[date.getMonth()] += FHEDecryptNumber(record.encryptedSalary);
-        }
+    currencySummaries.forEach(summary => {
+      const date = new Date(summary.decryptedAt * 1000);
+      if (date.getFullYear() === currentYear) {
+        monthlyData[date.getMonth()] += summary.totalSalary;
       }
     });
 
@@ -281,7 +843,7 @@ const App: React.FC = () => {
             <div 
               className="bar" 
               style={{ height: `${(value / maxValue) * 100}%` }}
-              title={`$${value.toLocaleString()}`}
+              title={formatAmount(value, displayCurrency)}
             ></div>
           </div>
         ))}
@@ -304,34 +866,83 @@ const App: React.FC = () => {
           <p>Confidential Payroll & Investment</p>
         </div>
         <div className="header-actions">
+          {organizations.length > 0 && (
+            <select
+              className="filter-select organization-select"
+              value={normAddr(activePayroll)}
+              onChange={(e) => switchOrganization(e.target.value)}
+            >
+              {!organizations.some(org => normAddr(org.payroll) === normAddr(activePayroll)) && (
+                <option value={normAddr(activePayroll)}>Default deployment</option>
+              )}
+              {organizations.map(org => (
+                <option key={org.id} value={normAddr(org.payroll)}>{org.name}</option>
+              ))}
+            </select>
+          )}
+          {config.payrollFactoryAddress !== ethers.ZeroAddress && (
+            <button className="refresh-btn" onClick={() => setShowOrganizationModal(true)}>
+              + Organization
+            </button>
+          )}
+          {equityAddress && (
+            <button className="refresh-btn" onClick={() => navigate(isAnalyticsPage ? "/" : ANALYTICS_PATH)}>
+              {isAnalyticsPage ? "Dashboard" : "Pay Equity"}
+            </button>
+          )}
           <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
         </div>
       </header>
 
-      <div className="main-content">
+      {isAnalyticsPage && equityAddress && (
+        <EquityAnalyticsPage
+          equityAddress={equityAddress}
+          account={address}
+          isPayrollAdmin={roles.payrollAdmin}
+          onStatus={setTransactionStatus}
+          describeError={describeTransactionError}
+        />
+      )}
+
+      {/* Hidden rather than unmounted so the dashboard keeps its loaded state while the analytics page is open */}
+      <div className="main-content" hidden={isAnalyticsPage && !!equityAddress}>
         <div className="dashboard-grid">
           <div className="dashboard-card overview-card">
             <h2>Payroll Overview</h2>
             <div className="stats-row">
               <div className="stat-item">
-                <div className="stat-value">${totalSalary.toLocaleString()}</div>
+                <div className="stat-value">{formatAmount(totalSalary, displayCurrency)}</div>
                 <div className="stat-label">Total Salary</div>
               </div>
               <div className="stat-item">
-                <div className="stat-value">${totalInvestment.toLocaleString()}</div>
+                <div className="stat-value">{formatAmount(totalInvestment, displayCurrency)}</div>
                 <div className="stat-label">Total Investment</div>
               </div>
+              <div className="stat-item">
+                <div className="stat-value">{formatAmount(totalWithheld, displayCurrency)}</div>
+                <div className="stat-label">Total Withheld</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{formatAmount(totalNetPay, displayCurrency)}</div>
+                <div className="stat-label">Total Net Pay</div>
+              </div>
               <div className="stat-item">
                 <div className="stat-value">{records.length}</div>
                 <div className="stat-label">Total Records</div>
               </div>
+              <div className="stat-item">
+                <div className="stat-value">{invalidEntryCount}</div>
+                <div className="stat-label">Clamped Entries</div>
+              </div>
             </div>
-            <button 
-              className="primary-btn" 
-              onClick={() => setShowCreateModal(true)}
-            >
-              + Add Payroll
-            </button>
+            {roles.dataProvider && (
+              <button 
+                className="primary-btn" 
+                onClick={() => setShowCreateModal(true)}
+              >
+                + Add Payroll
+              </button>
+            )}
           </div>
 
           <div className="dashboard-card status-card">
@@ -355,6 +966,117 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {approvals && currentBatch && (
+            <div className="dashboard-card approvals-card">
+              <h2>Batch #{approvals.batchId} Approvals</h2>
+              <div className="quorum-row">
+                <span className={`quorum-badge ${approvals.approvalCount >= approvals.threshold ? "reached" : "pending"}`}>
+                  {approvals.approvalCount} of {approvals.threshold} required
+                </span>
+                <span className="quorum-state">
+                  {currentBatch.isExecuted ? "Paid out" : currentBatch.isOpen ? "Open" : "Closed"}
+                </span>
+              </div>
+              {currentBatch.isOpen && eligibleApprovers(approvals).length < approvals.threshold && (
+                <p className="quorum-warning">
+                  Only {eligibleApprovers(approvals).length} approver(s) did not submit to this batch, so it cannot reach {approvals.threshold} sign-off(s).
+                  Grant APPROVER_ROLE to another account.
+                </p>
+              )}
+              <div className="approvers-list">
+                {approvals.approverSet.length === 0 && <p>No approvers configured</p>}
+                {approvals.approverSet.map(approver => {
+                  const signed = approvals.signedOff.some(a => normAddr(a) === normAddr(approver));
+                  const submitted = approvals.submitters.includes(normAddr(approver));
+                  return (
+                    <div key={approver} className="approver-item">
+                      <span>{approver.substring(0, 6)}...{approver.substring(38)}</span>
+                      <span className={`approver-status ${signed ? "signed" : "waiting"}`}>
+                        {signed ? "Signed off" : submitted ? "Submitted, cannot approve" : "Waiting"}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+              {roles.payrollAdmin && currentBatch.isOpen && currentBatch.carried < currentBatch.carryEnd && (
+                <div className="approval-actions">
+                  <button className="action-btn process-btn" onClick={() => carryForward(currentBatch)}>
+                    Carry Forward ({currentBatch.carried} of {currentBatch.carryEnd})
+                  </button>
+                </div>
+              )}
+              {roles.approver && !currentBatch.isExecuted && (
+                <div className="approval-actions">
+                  {approvals.signedOff.some(a => normAddr(a) === normAddr(address || "")) ? (
+                    <button className="action-btn fail-btn" onClick={() => revokeBatchApproval(approvals.batchId)}>
+                      Revoke
+                    </button>
+                  ) : (
+                    <button className="action-btn process-btn" onClick={() => approveBatch(approvals.batchId)}>
+                      Approve
+                    </button>
+                  )}
+                  {currentBatch.isOpen && (
+                    <button
+                      className="action-btn view-btn"
+                      onClick={() => closeBatch(approvals.batchId)}
+                      disabled={approvals.approvalCount < approvals.threshold || currentBatch.carried < currentBatch.carryEnd}
+                    >
+                      Close Batch
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {treasury && currentBatch && treasury.batchId === currentBatch.id && (
+            <div className="dashboard-card treasury-card">
+              <h2>Batch #{treasury.batchId} Funding</h2>
+              <div className="quorum-row">
+                <span className={`solvency-badge status-${treasury.status}`}>
+                  {SOLVENCY_STATUS[treasury.status] || "Unknown"}
+                </span>
+                {treasury.checkedAt > 0 && (
+                  <span className="quorum-state">Checked {new Date(treasury.checkedAt * 1000).toLocaleString()}</span>
+                )}
+              </div>
+              {treasury.status === SOLVENCY_UNDERFUNDED && (
+                <p className="solvency-warning">
+                  The treasury balance does not cover this batch's net pay. Payout is blocked until more funds are deposited and the check passes.
+                </p>
+              )}
+              <p className="treasury-address">
+                Treasury {treasury.address.substring(0, 6)}...{treasury.address.substring(38)}
+              </p>
+              {roles.payrollAdmin && !currentBatch.isOpen && !currentBatch.isExecuted && (
+                <div className="approval-actions">
+                  <button
+                    className="action-btn view-btn"
+                    onClick={() => requestSolvencyCheck(treasury.address, treasury.batchId)}
+                    disabled={treasury.status === SOLVENCY_PENDING}
+                  >
+                    Check Solvency
+                  </button>
+                  <button
+                    className="action-btn process-btn"
+                    onClick={() => executeBatch(currentBatch)}
+                    disabled={treasury.status !== SOLVENCY_FUNDED}
+                  >
+                    Execute Payout
+                  </button>
+                </div>
+              )}
+              {roles.payrollAdmin && currentBatch.isExecuted && currentBatch.paid < currentBatch.employeeCount && (
+                <div className="approval-actions">
+                  <button className="action-btn process-btn" onClick={() => executeBatch(currentBatch)}>
+                    Continue Payout ({currentBatch.paid} of {currentBatch.employeeCount})
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="dashboard-card announcements-card">
             <h2>System Announcements</h2>
             <div className="announcements-list">
@@ -381,6 +1103,14 @@ const App: React.FC = () => {
                 />
                 <div className="search-icon"></div>
               </div>
+              <select
+                value={recordSource}
+                onChange={(e) => switchRecordSource(e.target.value as RecordSource)}
+                className="filter-select"
+              >
+                <option value="payroll">Payroll Contract</option>
+                <option value="legacy">Legacy Records</option>
+              </select>
               <select 
                 value={filterStatus} 
                 onChange={(e) => setFilterStatus(e.target.value)}
@@ -392,7 +1122,7 @@ const App: React.FC = () => {
                 <option value="failed">Failed</option>
               </select>
               <button 
-                onClick={loadRecords} 
+                onClick={refreshDashboard} 
                 className="refresh-btn"
                 disabled={isRefreshing}
               >
@@ -416,12 +1146,14 @@ const App: React.FC = () => {
             {filteredRecords.length === 0 ? (
               <div className="no-records">
                 <p>No payroll records found</p>
-                <button 
-                  className="primary-btn" 
-                  onClick={() => setShowCreateModal(true)}
-                >
-                  Create First Payroll
-                </button>
+                {roles.dataProvider && recordSource === "payroll" && (
+                  <button 
+                    className="primary-btn" 
+                    onClick={() => setShowCreateModal(true)}
+                  >
+                    Create First Payroll
+                  </button>
+                )}
               </div>
             ) : (
               filteredRecords.map(record => (
@@ -440,9 +1172,9 @@ const App: React.FC = () => {
                       {record.encryptedInvestment.substring(0, 10)}...
                     </span>
                   </div>
-                  <div className="table-cell">{record.investmentStrategy}</div>
+                  <div className="table-cell">{record.investmentStrategy || "—"}</div>
                   <div className="table-cell">
-                    {new Date(record.timestamp * 1000).toLocaleDateString()}
+                    {record.timestamp > 0 ? new Date(record.timestamp * 1000).toLocaleDateString() : "—"}
                   </div>
                   <div className="table-cell">
                     <span className={`status-badge ${record.status}`}>
@@ -456,28 +1188,63 @@ const App: React.FC = () => {
                     >
                       View
                     </button>
-                    {record.status === "pending" && (
-                      <>
-                        <button 
-                          className="action-btn process-btn"
-                          onClick={() => processPayroll(record.id)}
-                        >
-                          Process
-                        </button>
-                        <button 
-                          className="action-btn fail-btn"
-                          onClick={() => markAsFailed(record.id)}
-                        >
-                          Fail
-                        </button>
-                      </>
-                    )}
                   </div>
                 </div>
               ))
             )}
           </div>
         </div>
+
+        {streamsAddress && (
+          <StreamsPanel
+            streamsAddress={streamsAddress}
+            account={address}
+            isPayrollAdmin={roles.payrollAdmin}
+            onStatus={setTransactionStatus}
+            describeError={describeTransactionError}
+          />
+        )}
+
+        {auditGrantsAddress && (
+          <AuditGrantsPanel
+            auditGrantsAddress={auditGrantsAddress}
+            account={address}
+            isPayrollAdmin={roles.payrollAdmin}
+            onStatus={setTransactionStatus}
+            describeError={describeTransactionError}
+          />
+        )}
+
+        {complianceAddress && (roles.payrollAdmin || roles.compliance) && (
+          <CompliancePanel
+            complianceAddress={complianceAddress}
+            account={address}
+            isPayrollAdmin={roles.payrollAdmin}
+            isComplianceOfficer={roles.compliance}
+            currentBatch={currentBatch}
+            onStatus={setTransactionStatus}
+            describeError={describeTransactionError}
+          />
+        )}
+
+        {amendmentsAddress && (
+          <AmendmentsPanel
+            amendmentsAddress={amendmentsAddress}
+            account={address}
+            isPayrollAdmin={roles.payrollAdmin}
+            onStatus={setTransactionStatus}
+            describeError={describeTransactionError}
+            onBatchOpened={loadCurrentBatch}
+          />
+        )}
+
+        {recordSource === "legacy" && (
+          <RecordStoreAccessPanel
+            account={address}
+            onStatus={setTransactionStatus}
+            describeError={describeTransactionError}
+          />
+        )}
       </div>
 
       {showCreateModal && (
@@ -502,48 +1269,48 @@ const App: React.FC = () => {
                   placeholder="0x..."
                 />
               </div>
+              <div className="form-group">
+                <label>Employee ID</label>
+                <input
+                  type="number"
+                  value={newRecordData.employeeId}
+                  onChange={(e) => setNewRecordData({...newRecordData, employeeId: parseInt(e.target.value) || 0})}
+                  min="0"
+                  step="1"
+                />
+              </div>
               <div className="form-group">
                 <label>Salary Amount</label>
                 <input
                   type="number"
                   value={newRecordData.salary}
                   onChange={(e) => setNewRecordData({...newRecordData, salary: parseFloat(e.target.value)})}
-                  placeholder="Amount in USD"
+                  placeholder={`Amount in ${currentBatch?.currency || "USD"}`}
                   step="0.01"
                 />
               </div>
               <div className="form-group">
-                <label>Investment Amount</label>
+                <label>Investment Percentage</label>
                 <input
                   type="number"
-                  value={newRecordData.investmentAmount}
-                  onChange={(e) => setNewRecordData({...newRecordData, investmentAmount: parseFloat(e.target.value)})}
-                  placeholder="Amount to invest"
-                  step="0.01"
+                  value={newRecordData.investmentPercentage}
+                  onChange={(e) => setNewRecordData({...newRecordData, investmentPercentage: parseFloat(e.target.value)})}
+                  placeholder="Share of salary to invest (0-100)"
+                  min="0"
+                  max="100"
+                  step="1"
                 />
               </div>
-              <div className="form-group">
-                <label>Investment Strategy</label>
-                <select
-                  value={newRecordData.investmentStrategy}
-                  onChange={(e) => setNewRecordData({...newRecordData, investmentStrategy: e.target.value})}
-                >
-                  <option value="ETH">ETH</option>
-                  <option value="BTC">BTC</option>
-                  <option value="USDC">USDC</option>
-                  <option value="DAI">DAI</option>
-                </select>
-              </div>
               <div className="encryption-preview">
-                <h4>FHE Encryption Preview</h4>
+                <h4>FHE Encryption</h4>
                 <div className="preview-row">
                   <div className="preview-item">
                     <span>Salary:</span>
-                    <div>{newRecordData.salary ? FHEEncryptNumber(newRecordData.salary).substring(0, 20) + '...' : 'Not encrypted'}</div>
+                    <div>{newRecordData.salary ? `${newRecordData.salary} ${currentBatch?.currency || ""} → euint64` : 'Not set'}</div>
                   </div>
                   <div className="preview-item">
                     <span>Investment:</span>
-                    <div>{newRecordData.investmentAmount ? FHEEncryptNumber(newRecordData.investmentAmount).substring(0, 20) + '...' : 'Not encrypted'}</div>
+                    <div>{`${newRecordData.investmentPercentage || 0}% → euint32`}</div>
                   </div>
                 </div>
               </div>
@@ -567,6 +1334,59 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showOrganizationModal && (
+        <div className="modal-overlay">
+          <div className="create-modal">
+            <div className="modal-header">
+              <h2>New Organization</h2>
+              <button 
+                onClick={() => setShowOrganizationModal(false)}
+                className="close-btn"
+              >
+                &times;
+              </button>
+            </div>
+            <div className="modal-body">
+              <div className="form-group">
+                <label>Organization Name</label>
+                <input
+                  type="text"
+                  value={newOrganization.name}
+                  onChange={(e) => setNewOrganization({...newOrganization, name: e.target.value})}
+                  placeholder="e.g. Example DAO"
+                />
+              </div>
+              <div className="form-group">
+                <label>Admin Address</label>
+                <input
+                  type="text"
+                  value={newOrganization.admin}
+                  onChange={(e) => setNewOrganization({...newOrganization, admin: e.target.value})}
+                  placeholder={address || "0x..."}
+                />
+              </div>
+              <div className="decryption-note">
+                <p>The organization starts with a payroll instance only. Treasury payouts, salary streams, audit grants, compliance checks, pay-equity reports and amendments stay unavailable until its admin deploys those modules and registers them on the instance.</p>
+              </div>
+            </div>
+            <div className="modal-footer">
+              <button 
+                onClick={() => setShowOrganizationModal(false)}
+                className="cancel-btn"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={createOrganization}
+                className="submit-btn"
+              >
+                Create Organization
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {selectedRecord && (
         <div className="modal-overlay">
           <div className="detail-modal">
@@ -577,6 +1397,7 @@ const App: React.FC = () => {
                   setSelectedRecord(null);
                   setDecryptedSalary(null);
                   setDecryptedInvestment(null);
+                  setDecryptedPayout(null);
                 }}
                 className="close-btn"
               >
@@ -594,7 +1415,7 @@ const App: React.FC = () => {
               </div>
               <div className="detail-row">
                 <span>Date:</span>
-                <strong>{new Date(selectedRecord.timestamp * 1000).toLocaleString()}</strong>
+                <strong>{selectedRecord.timestamp > 0 ? new Date(selectedRecord.timestamp * 1000).toLocaleString() : "—"}</strong>
               </div>
               <div className="detail-row">
                 <span>Status:</span>
@@ -602,10 +1423,24 @@ const App: React.FC = () => {
                   {selectedRecord.status}
                 </strong>
               </div>
-              <div className="detail-row">
-                <span>Investment Strategy:</span>
-                <strong>{selectedRecord.investmentStrategy}</strong>
-              </div>
+              {selectedRecord.batchId !== undefined && (
+                <div className="detail-row">
+                  <span>Batch:</span>
+                  <strong>#{selectedRecord.batchId}{selectedRecord.employeeId !== undefined && ` · Employee #${selectedRecord.employeeId}`}</strong>
+                </div>
+              )}
+              {selectedRecord.investmentStrategy && (
+                <div className="detail-row">
+                  <span>Investment Strategy:</span>
+                  <strong>{selectedRecord.investmentStrategy}</strong>
+                </div>
+              )}
+              {selectedRecord.txHash && (
+                <div className="detail-row">
+                  <span>Transaction:</span>
+                  <strong>{selectedRecord.txHash.substring(0, 10)}...{selectedRecord.txHash.substring(58)}</strong>
+                </div>
+              )}
               
               <div className="encrypted-section">
                 <h3>Encrypted Data</h3>
@@ -623,13 +1458,18 @@ const App: React.FC = () => {
                   className="decrypt-btn"
                   onClick={async () => {
                     if (decryptedSalary === null) {
-                      const salary = await decryptWithSignature(selectedRecord.encryptedSalary);
-                      const investment = await decryptWithSignature(selectedRecord.encryptedInvestment);
-                      setDecryptedSalary(salary);
-                      setDecryptedInvestment(investment);
+                      const values = await decryptWithSignature(selectedRecord);
+                      if (values) {
+                        setDecryptedSalary(values.salary);
+                        setDecryptedInvestment(values.investment);
+                        setDecryptedPayout(values.payout);
+                        setDecryptedAdjustments(values.adjustments);
+                      }
                     } else {
                       setDecryptedSalary(null);
                       setDecryptedInvestment(null);
+                      setDecryptedPayout(null);
+                      setDecryptedAdjustments({});
                     }
                   }}
                   disabled={isDecrypting}
@@ -645,18 +1485,122 @@ const App: React.FC = () => {
                   <div className="decrypted-data">
                     <div className="data-item">
                       <span>Salary:</span>
-                      <div>${decryptedSalary?.toLocaleString()}</div>
+                      <div>
+                        {isLegacyRecord(selectedRecord) 
+                          ? `$${decryptedSalary?.toLocaleString()}` 
+                          : formatAmount(decryptedSalary, selectedRecord.currency || "USD")}
+                      </div>
                     </div>
                     <div className="data-item">
                       <span>Investment:</span>
-                      <div>${decryptedInvestment?.toLocaleString()}</div>
+                      <div>
+                        {isLegacyRecord(selectedRecord) 
+                          ? `$${decryptedInvestment?.toLocaleString()}` 
+                          : `${decryptedInvestment}% of salary`}
+                      </div>
                     </div>
+                    {decryptedPayout !== null && ([
+                      ["Gross Pay", decryptedPayout.gross],
+                      ["Investment", decryptedPayout.investment],
+                      ["Income Tax", decryptedPayout.tax],
+                      ["Flat Withholding", decryptedPayout.withholding],
+                      ["Benefits", decryptedPayout.benefits],
+                      ["Net Pay", decryptedPayout.netPay]
+                    ] as [string, bigint][]).map(([label, value]) => (
+                      <div className="data-item" key={label}>
+                        <span>{label}:</span>
+                        <div>{formatAmount(Number(ethers.formatUnits(value, selectedRecord.decimals ?? 2)), selectedRecord.currency || "USD")}</div>
+                      </div>
+                    ))}
                   </div>
+                  {decryptedPayout !== null && (
+                    <div className="payslip-actions">
+                      <button className="action-btn view-btn" onClick={() => exportPayslip(selectedRecord, decryptedPayout, "pdf")}>
+                        Payslip PDF
+                      </button>
+                      <button className="action-btn view-btn" onClick={() => exportPayslip(selectedRecord, decryptedPayout, "json")}>
+                        Self-Signed Payslip JSON
+                      </button>
+                    </div>
+                  )}
+                  {decryptedPayout !== null && (
+                    <div className="decryption-note">
+                      <p>Payslips are signed by your own wallet, not by the employer. The signature shows the file is unchanged since you exported it.</p>
+                    </div>
+                  )}
                   <div className="decryption-note">
-                    <p>Values decrypted using your wallet signature. Data remains encrypted on-chain.</p>
+                    <p>Values decrypted locally through an EIP-712 signed user decryption request. Data remains encrypted on-chain.</p>
                   </div>
                 </div>
               )}
+
+              {!isLegacyRecord(selectedRecord) && (
+                <div className="adjustments-section">
+                  <h3>Adjustments</h3>
+                  {recordAdjustments.length === 0 ? (
+                    <p className="no-adjustments">No adjustments in this batch</p>
+                  ) : (
+                    <div className="adjustments-list">
+                      {recordAdjustments.map(adjustment => (
+                        <div key={adjustment.id} className="adjustment-item">
+                          <span className="adjustment-reason">{ADJUSTMENT_REASONS[adjustment.reason] || "Unknown"}</span>
+                          <span>{adjustment.submitter.substring(0, 6)}...{adjustment.submitter.substring(38)}</span>
+                          <span>{new Date(adjustment.createdAt * 1000).toLocaleDateString()}</span>
+                          <strong>
+                            {decryptedAdjustments[adjustment.id] !== undefined
+                              ? formatAmount(decryptedAdjustments[adjustment.id], selectedRecord.currency || "USD")
+                              : `${adjustment.amountHandle.substring(0, 10)}...`}
+                          </strong>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {roles.dataProvider && currentBatch?.isOpen && selectedRecord.batchId === currentBatch.id && (
+                    <div className="adjustment-form">
+                      <input
+                        type="number"
+                        value={newAdjustment.amount}
+                        onChange={(e) => setNewAdjustment({...newAdjustment, amount: parseFloat(e.target.value)})}
+                        placeholder={`Amount in ${selectedRecord.currency || "USD"}`}
+                        step="0.01"
+                        min="0"
+                      />
+                      <select
+                        value={newAdjustment.isDebit ? "debit" : "credit"}
+                        onChange={(e) => setNewAdjustment({...newAdjustment, isDebit: e.target.value === "debit"})}
+                      >
+                        <option value="credit">Credit</option>
+                        <option value="debit">Debit</option>
+                      </select>
+                      <select
+                        value={newAdjustment.reason}
+                        onChange={(e) => setNewAdjustment({...newAdjustment, reason: parseInt(e.target.value)})}
+                      >
+                        {ADJUSTMENT_REASONS.map((reason, index) => (
+                          <option key={reason} value={index}>{reason}</option>
+                        ))}
+                      </select>
+                      <button
+                        className="action-btn process-btn"
+                        onClick={() => submitAdjustment(selectedRecord)}
+                        disabled={submittingAdjustment}
+                      >
+                        {submittingAdjustment ? "Encrypting..." : "Add"}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {recordSource === "legacy" && (
+                <RecordStatusTimeline
+                  record={selectedRecord}
+                  account={address}
+                  onStatus={setTransactionStatus}
+                  describeError={describeTransactionError}
+                  onChanged={() => loadRecords("legacy")}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,236 @@
+// AmendmentsPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { getPayrollContractReadOnly, getAmendmentsContractReadOnly, getAmendmentsContractWithSigner } from '../contract';
+
+type TransactionStatus = { visible: boolean; status: "pending" | "success" | "error"; message: string };
+
+interface AmendmentsPanelProps {
+  amendmentsAddress: string;
+  account?: string;
+  isPayrollAdmin: boolean;
+  onStatus: (status: TransactionStatus) => void;
+  describeError: (e: any) => string;
+  onBatchOpened: () => void;
+}
+
+interface Revision {
+  id: number;
+  batchId: number;
+  parentBatchId: number;
+  rootBatchId: number;
+  version: number;
+  changedEmployeeIds: number[];
+  reason: string;
+  requestedBy: string;
+  createdAt: number;
+  isOpen: boolean;
+  isExecuted: boolean;
+}
+
+// Employees listed on a revision and what was actually done to them in it
+interface EmployeeChange {
+  employeeId: number;
+  changes: string[];
+}
+
+const REVISION_PAGE_SIZE = 50;
+
+const AmendmentsPanel: React.FC<AmendmentsPanelProps> = ({
+  amendmentsAddress,
+  account,
+  isPayrollAdmin,
+  onStatus,
+  describeError,
+  onBatchOpened
+}) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [diffs, setDiffs] = useState<Record<number, EmployeeChange[]>>({});
+  const [amendment, setAmendment] = useState({ parentBatchId: "", employeeIds: "", reason: "" });
+
+  useEffect(() => {
+    setDiffs({});
+    loadRevisions();
+  }, [amendmentsAddress]);
+
+  const loadRevisions = async () => {
+    try {
+      const [amendmentsContract, payrollContract] = await Promise.all([
+        getAmendmentsContractReadOnly(amendmentsAddress),
+        getPayrollContractReadOnly()
+      ]);
+      if (!amendmentsContract || !payrollContract) return;
+
+      const count = Number(await amendmentsContract.revisionCount());
+      const list: Revision[] = [];
+      for (let offset = 0; offset < count; offset += REVISION_PAGE_SIZE) {
+        const page = await amendmentsContract.getRevisions(offset, REVISION_PAGE_SIZE);
+        for (const revision of page) {
+          const batch = await payrollContract.batches(revision.batchId);
+          list.push({
+            id: Number(revision.id),
+            batchId: Number(revision.batchId),
+            parentBatchId: Number(revision.parentBatchId),
+            rootBatchId: Number(revision.rootBatchId),
+            version: Number(revision.version),
+            changedEmployeeIds: revision.changedEmployeeIds.map((id: bigint) => Number(id)),
+            reason: revision.reason,
+            requestedBy: revision.requestedBy,
+            createdAt: Number(revision.createdAt),
+            isOpen: batch.isOpen,
+            isExecuted: batch.isExecuted
+          });
+        }
+      }
+      setRevisions(list);
+    } catch (e) { console.error("Error loading batch revisions:", e); }
+  };
+
+  const amendBatch = async () => {
+    const parentBatchId = parseInt(amendment.parentBatchId);
+    const employeeIds = amendment.employeeIds.split(",").map(id => parseInt(id.trim()));
+    if (!(parentBatchId > 0)) { alert("Enter the closed batch to amend"); return; }
+    if (employeeIds.length === 0 || employeeIds.some(id => !(id > 0))) { alert("Enter the employee IDs that change, comma-separated"); return; }
+    if (!amendment.reason.trim()) { alert("Enter a reason for the amendment"); return; }
+    if (!account) { alert("Please connect wallet first"); return; }
+
+    onStatus({ visible: true, status: "pending", message: `Opening a revision of batch #${parentBatchId}...` });
+    try {
+      const amendmentsContract = await getAmendmentsContractWithSigner(amendmentsAddress);
+      await (await amendmentsContract.amendBatch(parentBatchId, employeeIds, amendment.reason.trim())).wait();
+      onStatus({ visible: true, status: "success", message: "Revision opened as the current batch" });
+      setAmendment({ parentBatchId: "", employeeIds: "", reason: "" });
+      await loadRevisions();
+      onBatchOpened();
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      onStatus({ visible: true, status: "error", message: describeError(e) });
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Salaries stay encrypted, so changes are read from the handles: a resubmission always yields a new one
+  const loadDiff = async (revision: Revision) => {
+    try {
+      const payrollContract = await getPayrollContractReadOnly();
+      if (!payrollContract) return;
+      const adjustments = await payrollContract.getBatchAdjustments(revision.batchId);
+      const changes = await Promise.all(revision.changedEmployeeIds.map(async employeeId => {
+        const [before, after] = await Promise.all([
+          payrollContract.getEmployeeData(revision.parentBatchId, employeeId),
+          payrollContract.getEmployeeData(revision.batchId, employeeId)
+        ]);
+        const list: string[] = [];
+        if (!after.isActive) list.push("Not submitted");
+        else if (!before.isActive) list.push("Added");
+        else {
+          if (before.encryptedSalary !== after.encryptedSalary) list.push("Salary resubmitted");
+          if (before.encryptedInvestmentPercentage !== after.encryptedInvestmentPercentage) list.push("Investment % resubmitted");
+        }
+        const adjustmentCount = adjustments.filter((adjustment: any) => Number(adjustment.employeeId) === employeeId).length;
+        if (adjustmentCount > 0) list.push(`${adjustmentCount} adjustment${adjustmentCount === 1 ? "" : "s"}`);
+        return { employeeId, changes: list.length > 0 ? list : ["Unchanged so far"] };
+      }));
+      setDiffs(previous => ({ ...previous, [revision.id]: changes }));
+    } catch (e) { console.error("Error loading revision diff:", e); }
+  };
+
+  const revisionStatus = (revision: Revision, next?: Revision) => {
+    if (revision.isExecuted) return { label: "Paid", className: "status-1" };
+    if (revision.isOpen) return { label: "Awaiting approval", className: "status-2" };
+    if (next && !next.isOpen) return { label: "Superseded", className: "status-3" };
+    return { label: "Approved", className: "status-1" };
+  };
+
+  // One history per original batch, oldest revision first
+  const histories = revisions.reduce<Record<number, Revision[]>>((groups, revision) => {
+    (groups[revision.rootBatchId] = groups[revision.rootBatchId] || []).push(revision);
+    return groups;
+  }, {});
+  const rootBatchIds = Object.keys(histories).map(Number).sort((a, b) => b - a);
+
+  return (
+    <div className="streams-section">
+      <div className="section-header">
+        <h2>Batch Amendments</h2>
+      </div>
+
+      {isPayrollAdmin && (
+        <div className="stream-form">
+          <input
+            type="number"
+            value={amendment.parentBatchId}
+            onChange={(e) => setAmendment({ ...amendment, parentBatchId: e.target.value })}
+            placeholder="Closed batch ID"
+            min="1"
+            step="1"
+          />
+          <input
+            type="text"
+            value={amendment.employeeIds}
+            onChange={(e) => setAmendment({ ...amendment, employeeIds: e.target.value })}
+            placeholder="Employee IDs, e.g. 3, 7"
+          />
+          <input
+            type="text"
+            value={amendment.reason}
+            onChange={(e) => setAmendment({ ...amendment, reason: e.target.value })}
+            placeholder="Reason"
+          />
+          <button className="action-btn process-btn" onClick={amendBatch}>Amend Batch</button>
+        </div>
+      )}
+
+      {rootBatchIds.length === 0 ? (
+        <p className="no-streams">No batch has been amended</p>
+      ) : (
+        <div className="streams-list">
+          {rootBatchIds.map(rootBatchId => {
+            const history = histories[rootBatchId];
+            return (
+              <div className="stream-item" key={rootBatchId}>
+                <div className="stream-header">
+                  <span>Batch #{rootBatchId}</span>
+                  <span className="revision-chain">
+                    {[rootBatchId, ...history.map(revision => revision.batchId)].map(id => `#${id}`).join(" → ")}
+                  </span>
+                </div>
+                {history.map((revision, index) => {
+                  const status = revisionStatus(revision, history[index + 1]);
+                  return (
+                    <div className="revision" key={revision.id}>
+                      <div className="stream-header">
+                        <span>Revision {revision.version} · Batch #{revision.batchId} amends #{revision.parentBatchId}</span>
+                        <span className={`stream-status ${status.className}`}>{status.label}</span>
+                      </div>
+                      <div className="stream-meta">
+                        “{revision.reason}” · {revision.requestedBy.substring(0, 6)}...{revision.requestedBy.substring(38)} · {new Date(revision.createdAt * 1000).toLocaleString()}
+                      </div>
+                      {diffs[revision.id] ? (
+                        <div className="revision-diff">
+                          {diffs[revision.id].map(change => (
+                            <div className="audit-value" key={change.employeeId}>
+                              <span>Employee #{change.employeeId}</span>
+                              <span>{change.changes.join(", ")}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="stream-actions">
+                          <button className="action-btn view-btn" onClick={() => loadDiff(revision)}>
+                            Show Changes ({revision.changedEmployeeIds.length})
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AmendmentsPanel;
@@ -0,0 +1,314 @@
+// AuditGrantsPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  getPayrollContractReadOnly,
+  getAuditGrantsContractReadOnly,
+  getAuditGrantsContractWithSigner,
+  normAddr
+} from '../contract';
+import { userDecryptHandles } from '../fhe';
+
+type TransactionStatus = { visible: boolean; status: "pending" | "success" | "error"; message: string };
+
+interface AuditGrantsPanelProps {
+  auditGrantsAddress: string;
+  account?: string;
+  isPayrollAdmin: boolean;
+  onStatus: (status: TransactionStatus) => void;
+  describeError: (e: any) => string;
+}
+
+interface AuditGrant {
+  id: number;
+  auditor: string;
+  firstBatchId: number;
+  lastBatchId: number;
+  employeeIds: string[];
+  grantedBy: string;
+  grantedAt: number;
+  issuableUntil: number;
+  revokedAt: number;
+}
+
+interface DecryptedAudit {
+  currency: string;
+  rows: { label: string; value: string; isAmount: boolean }[];
+}
+
+// Mirrors the layout of StealthPayrollFHE.exportBatchCiphertexts: summary aggregates, then per-employee handles
+const AGGREGATE_LABELS = [
+  "Total salary",
+  "Total investment",
+  "Totals overflowed",
+  "Invalid entries",
+  "Income tax",
+  "Flat withholding",
+  "Benefits",
+  "Net pay",
+  "Adjustment credits",
+  "Adjustment debits"
+];
+const AGGREGATE_AMOUNTS = [0, 1, 4, 5, 6, 7, 8, 9];
+const AGGREGATE_OVERFLOWED = 2;
+const EMPLOYEE_LABELS = ["Salary", "Gross", "Investment", "Income tax", "Flat withholding", "Benefits", "Net pay"];
+
+const GRANT_PAGE_SIZE = 50;
+const MAX_ISSUANCE_DAYS = 90;
+
+const AuditGrantsPanel: React.FC<AuditGrantsPanelProps> = ({ auditGrantsAddress, account, isPayrollAdmin, onStatus, describeError }) => {
+  const [grants, setGrants] = useState<AuditGrant[]>([]);
+  const [batchInputs, setBatchInputs] = useState<Record<number, string>>({});
+  const [decrypted, setDecrypted] = useState<Record<string, DecryptedAudit>>({});
+  const [newGrant, setNewGrant] = useState({ auditor: "", firstBatchId: "", lastBatchId: "", employeeIds: "", days: "30" });
+  const [now, setNow] = useState(Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    setDecrypted({});
+    loadGrants();
+  }, [auditGrantsAddress, account, isPayrollAdmin]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Admins see every grant; auditors only their own
+  const loadGrants = async () => {
+    try {
+      const auditContract = await getAuditGrantsContractReadOnly(auditGrantsAddress);
+      if (!auditContract) return;
+
+      const raw: any[] = [];
+      if (isPayrollAdmin) {
+        const count = Number(await auditContract.grantCount());
+        for (let offset = 0; offset < count; offset += GRANT_PAGE_SIZE) {
+          raw.push(...(await auditContract.getGrants(offset, GRANT_PAGE_SIZE)));
+        }
+      } else if (account) {
+        const ids: bigint[] = await auditContract.getGrantIdsByAuditor(account);
+        raw.push(...(await Promise.all(ids.map(id => auditContract.getGrant(id)))));
+      }
+      setGrants(raw.map(grant => ({
+        id: Number(grant.id),
+        auditor: grant.auditor,
+        firstBatchId: Number(grant.firstBatchId),
+        lastBatchId: Number(grant.lastBatchId),
+        employeeIds: grant.employeeIds.map((id: bigint) => id.toString()),
+        grantedBy: grant.grantedBy,
+        grantedAt: Number(grant.grantedAt),
+        issuableUntil: Number(grant.issuableUntil),
+        revokedAt: Number(grant.revokedAt)
+      })));
+    } catch (e) { console.error("Error loading audit grants:", e); }
+  };
+
+  const runGrantAction = async (pendingMessage: string, successMessage: string, action: () => Promise<any>) => {
+    if (!account) { alert("Please connect wallet first"); return; }
+    onStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const tx = await action();
+      if (tx) await tx.wait();
+      onStatus({ visible: true, status: "success", message: successMessage });
+      await loadGrants();
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      onStatus({ visible: true, status: "error", message: describeError(e) });
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const createGrant = () => {
+    const firstBatchId = parseInt(newGrant.firstBatchId);
+    const lastBatchId = parseInt(newGrant.lastBatchId || newGrant.firstBatchId);
+    const days = parseInt(newGrant.days);
+    if (!ethers.isAddress(newGrant.auditor)) { alert("Enter a valid auditor address"); return; }
+    if (!(firstBatchId > 0) || !(lastBatchId >= firstBatchId)) { alert("Enter a valid batch range"); return; }
+    if (!(days > 0 && days <= MAX_ISSUANCE_DAYS)) { alert(`Issuance windows last between 1 and ${MAX_ISSUANCE_DAYS} days`); return; }
+    const employeeIds = newGrant.employeeIds.split(",").map(id => id.trim()).filter(id => id !== "");
+    if (employeeIds.some(id => !/^\d+$/.test(id))) { alert("Employee IDs must be comma-separated numbers"); return; }
+
+    return runGrantAction(`Creating an audit grant for ${newGrant.auditor}...`, "Audit grant created", async () => {
+      const auditContract = await getAuditGrantsContractWithSigner(auditGrantsAddress);
+      const issuableUntil = Math.floor(Date.now() / 1000) + days * 86400;
+      setNewGrant({ auditor: "", firstBatchId: "", lastBatchId: "", employeeIds: "", days: "30" });
+      return auditContract.createGrant(newGrant.auditor, firstBatchId, lastBatchId, employeeIds, issuableUntil);
+    });
+  };
+
+  const revokeGrant = (grant: AuditGrant) =>
+    runGrantAction(`Revoking audit grant #${grant.id}...`, `Audit grant #${grant.id} revoked`, async () => {
+      const auditContract = await getAuditGrantsContractWithSigner(auditGrantsAddress);
+      return auditContract.revokeGrant(grant.id);
+    });
+
+  const issueCiphertexts = (grant: AuditGrant, batchId: number) =>
+    runGrantAction(`Issuing batch #${batchId} ciphertexts...`, `Batch #${batchId} ciphertexts issued`, async () => {
+      const auditContract = await getAuditGrantsContractWithSigner(auditGrantsAddress);
+      return auditContract.issueCiphertexts(grant.id, batchId);
+    });
+
+  // Decrypts the handles last issued for this grant and batch; they stay readable after the grant ends
+  const decryptIssued = async (grant: AuditGrant, batchId: number) => {
+    try {
+      const [auditContract, payrollContract] = await Promise.all([
+        getAuditGrantsContractReadOnly(auditGrantsAddress),
+        getPayrollContractReadOnly()
+      ]);
+      if (!auditContract || !payrollContract) return;
+
+      const handles: string[] = await auditContract.getIssuedCiphertexts(grant.id, batchId);
+      if (handles.length === 0) { alert(`No ciphertexts have been issued for batch #${batchId} yet`); return; }
+      const batch = await payrollContract.batches(batchId);
+      const decimals = Number(batch.decimals);
+      const initialized = handles.filter(handle => handle !== ethers.ZeroHash);
+      const values = await userDecryptHandles(initialized, auditGrantsAddress);
+
+      const rows = AGGREGATE_LABELS.map((label, index) => {
+        const value = values[handles[index]] ?? 0n;
+        if (index === AGGREGATE_OVERFLOWED) return { label, value: value ? "Yes" : "No", isAmount: false };
+        const isAmount = AGGREGATE_AMOUNTS.includes(index);
+        return { label, value: isAmount ? ethers.formatUnits(value, decimals) : value.toString(), isAmount };
+      });
+      grant.employeeIds.forEach((employeeId, position) => {
+        const offset = AGGREGATE_LABELS.length + position * EMPLOYEE_LABELS.length;
+        if (handles[offset] === ethers.ZeroHash) {
+          rows.push({ label: `Employee #${employeeId}`, value: "Not in batch", isAmount: false });
+          return;
+        }
+        EMPLOYEE_LABELS.forEach((label, index) => {
+          rows.push({
+            label: `Employee #${employeeId} ${label.toLowerCase()}`,
+            value: ethers.formatUnits(values[handles[offset + index]] ?? 0n, decimals),
+            isAmount: true
+          });
+        });
+      });
+      setDecrypted({ ...decrypted, [`${grant.id}:${batchId}`]: { currency: batch.currency, rows } });
+    } catch (e) {
+      console.error("Audit decryption failed:", e);
+      alert("Decryption failed: this wallet may not have been issued these ciphertexts");
+    }
+  };
+
+  const grantState = (grant: AuditGrant) => {
+    if (grant.revokedAt !== 0) return { label: "Revoked", className: "status-3" };
+    if (now >= grant.issuableUntil) return { label: "Closed", className: "status-2" };
+    return { label: "Active", className: "status-1" };
+  };
+
+  if (!isPayrollAdmin && grants.length === 0) return null;
+
+  return (
+    <div className="streams-section audit-section">
+      <div className="section-header">
+        <h2>Audit Disclosures</h2>
+      </div>
+      <p className="decryption-note">
+        An auditor can decrypt the ciphertexts issued under a grant for good. Closing the issuance window or revoking the grant only stops further batches and later values from being issued.
+      </p>
+
+      {isPayrollAdmin && (
+        <div className="stream-form">
+          <input
+            type="text"
+            value={newGrant.auditor}
+            onChange={(e) => setNewGrant({ ...newGrant, auditor: e.target.value })}
+            placeholder="Auditor address"
+          />
+          <input
+            type="number"
+            value={newGrant.firstBatchId}
+            onChange={(e) => setNewGrant({ ...newGrant, firstBatchId: e.target.value })}
+            placeholder="First batch"
+            min="1"
+            step="1"
+          />
+          <input
+            type="number"
+            value={newGrant.lastBatchId}
+            onChange={(e) => setNewGrant({ ...newGrant, lastBatchId: e.target.value })}
+            placeholder="Last batch"
+            min="1"
+            step="1"
+          />
+          <input
+            type="text"
+            value={newGrant.employeeIds}
+            onChange={(e) => setNewGrant({ ...newGrant, employeeIds: e.target.value })}
+            placeholder="Employee IDs (optional)"
+          />
+          <input
+            type="number"
+            value={newGrant.days}
+            onChange={(e) => setNewGrant({ ...newGrant, days: e.target.value })}
+            placeholder="Issuance days"
+            min="1"
+            max={MAX_ISSUANCE_DAYS}
+            step="1"
+          />
+          <button className="action-btn process-btn" onClick={createGrant}>Create Grant</button>
+        </div>
+      )}
+
+      {grants.length === 0 ? (
+        <p className="no-streams">No audit grants</p>
+      ) : (
+        <div className="streams-list">
+          {grants.map(grant => {
+            const state = grantState(grant);
+            const isAuditor = !!account && normAddr(grant.auditor) === normAddr(account);
+            const batchId = parseInt(batchInputs[grant.id] || String(grant.firstBatchId));
+            const result = decrypted[`${grant.id}:${batchId}`];
+            return (
+              <div className="stream-item" key={grant.id}>
+                <div className="stream-header">
+                  <span>Grant #{grant.id} · {grant.auditor.substring(0, 6)}...{grant.auditor.substring(38)}</span>
+                  <span className={`stream-status ${state.className}`}>{state.label}</span>
+                </div>
+                <div className="stream-meta">
+                  Batches #{grant.firstBatchId}–#{grant.lastBatchId}
+                  {grant.employeeIds.length > 0 && ` · Employees ${grant.employeeIds.map(id => `#${id}`).join(", ")}`}
+                  {` · Issues until ${new Date(grant.issuableUntil * 1000).toLocaleString()}`}
+                </div>
+                <div className="stream-actions">
+                  {isAuditor && (
+                    <>
+                      <input
+                        type="number"
+                        value={batchInputs[grant.id] ?? String(grant.firstBatchId)}
+                        onChange={(e) => setBatchInputs({ ...batchInputs, [grant.id]: e.target.value })}
+                        min={grant.firstBatchId}
+                        max={grant.lastBatchId}
+                        step="1"
+                      />
+                      {state.label === "Active" && (
+                        <button className="action-btn process-btn" onClick={() => issueCiphertexts(grant, batchId)}>Issue</button>
+                      )}
+                      <button className="action-btn view-btn" onClick={() => decryptIssued(grant, batchId)}>Decrypt</button>
+                    </>
+                  )}
+                  {isPayrollAdmin && state.label === "Active" && (
+                    <button className="action-btn fail-btn" onClick={() => revokeGrant(grant)}>Revoke</button>
+                  )}
+                </div>
+                {result && (
+                  <div className="audit-values">
+                    {result.rows.map(row => (
+                      <div className="audit-value" key={row.label}>
+                        <span>{row.label}</span>
+                        <span>{row.isAmount ? `${row.value} ${result.currency}` : row.value}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditGrantsPanel;
@@ -0,0 +1,292 @@
+// CompliancePanel.tsx
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getComplianceContractReadOnly, getComplianceContractWithSigner } from '../contract';
+import { encryptAmountInput, encryptRangeInput, userDecryptHandles } from '../fhe';
+
+type TransactionStatus = { visible: boolean; status: "pending" | "success" | "error"; message: string };
+
+interface CompliancePanelProps {
+  complianceAddress: string;
+  account?: string;
+  isPayrollAdmin: boolean;
+  isComplianceOfficer: boolean;
+  currentBatch: { id: number; isOpen: boolean; currency: string; decimals: number } | null;
+  onStatus: (status: TransactionStatus) => void;
+  describeError: (e: any) => string;
+}
+
+interface ComplianceResult {
+  batchId: number;
+  requestId: string;
+  violationCount: number;
+  decryptedAt: number;
+}
+
+interface DrillDownResult {
+  batchId: number;
+  employeeId: string;
+  belowMinimumWage: boolean;
+  outsidePayBand: boolean;
+}
+
+const CompliancePanel: React.FC<CompliancePanelProps> = ({
+  complianceAddress,
+  account,
+  isPayrollAdmin,
+  isComplianceOfficer,
+  currentBatch,
+  onStatus,
+  describeError
+}) => {
+  const [results, setResults] = useState<ComplianceResult[]>([]);
+  const [minimumWage, setMinimumWage] = useState("");
+  const [payBand, setPayBand] = useState({ payRoleId: "", min: "", max: "" });
+  const [payRole, setPayRole] = useState({ employeeId: "", payRoleId: "" });
+  const [batchId, setBatchId] = useState("");
+  const [drillEmployeeId, setDrillEmployeeId] = useState("");
+  const [drillDown, setDrillDown] = useState<DrillDownResult | null>(null);
+
+  useEffect(() => {
+    setDrillDown(null);
+    loadResults();
+  }, [complianceAddress, currentBatch?.id]);
+
+  const loadResults = async () => {
+    try {
+      const complianceContract = await getComplianceContractReadOnly(complianceAddress);
+      if (!complianceContract || !currentBatch) return;
+      const list: ComplianceResult[] = [];
+      for (let id = currentBatch.id; id >= 1; id--) {
+        const result = await complianceContract.complianceResults(id);
+        if (Number(result.decryptedAt) === 0) continue;
+        list.push({
+          batchId: id,
+          requestId: result.requestId.toString(),
+          violationCount: Number(result.violationCount),
+          decryptedAt: Number(result.decryptedAt)
+        });
+      }
+      setResults(list);
+    } catch (e) { console.error("Error loading compliance results:", e); }
+  };
+
+  const runComplianceAction = async (pendingMessage: string, successMessage: string, action: () => Promise<any>) => {
+    if (!account) { alert("Please connect wallet first"); return false; }
+    onStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const tx = await action();
+      if (tx) await tx.wait();
+      onStatus({ visible: true, status: "success", message: successMessage });
+      await loadResults();
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 2000);
+      return true;
+    } catch (e: any) {
+      onStatus({ visible: true, status: "error", message: describeError(e) });
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return false;
+    }
+  };
+
+  // Rules are set in the current batch's currency, in its major units
+  const parseAmount = (value: string): bigint | null => {
+    if (!currentBatch) return null;
+    try {
+      const amount = ethers.parseUnits(value || "0", currentBatch.decimals);
+      return amount >= 0n ? amount : null;
+    } catch { return null; }
+  };
+
+  const saveMinimumWage = () => {
+    const floor = parseAmount(minimumWage);
+    if (!currentBatch || floor === null) { alert("Enter a valid minimum wage"); return; }
+    return runComplianceAction(`Setting the ${currentBatch.currency} minimum wage...`, "Minimum wage set", async () => {
+      const input = await encryptAmountInput(complianceAddress, account!, floor);
+      const complianceContract = await getComplianceContractWithSigner(complianceAddress);
+      setMinimumWage("");
+      return complianceContract.setMinimumWage(currentBatch.currency, input.amountHandle, input.inputProof);
+    });
+  };
+
+  const savePayBand = () => {
+    const payRoleId = parseInt(payBand.payRoleId);
+    const min = parseAmount(payBand.min);
+    const max = parseAmount(payBand.max);
+    if (!currentBatch || !(payRoleId > 0)) { alert("Enter a pay role ID of 1 or more"); return; }
+    if (min === null || max === null || max < min) { alert("Enter a valid pay band"); return; }
+    return runComplianceAction(`Setting the pay band of role #${payRoleId}...`, "Pay band set", async () => {
+      const input = await encryptRangeInput(complianceAddress, account!, min, max);
+      const complianceContract = await getComplianceContractWithSigner(complianceAddress);
+      setPayBand({ payRoleId: "", min: "", max: "" });
+      return complianceContract.setPayBand(currentBatch.currency, payRoleId, input.minHandle, input.maxHandle, input.inputProof);
+    });
+  };
+
+  const assignPayRole = () => {
+    const employeeId = parseInt(payRole.employeeId);
+    const payRoleId = parseInt(payRole.payRoleId || "0");
+    if (!(employeeId > 0) || !(payRoleId >= 0)) { alert("Enter an employee ID and a pay role ID (0 clears it)"); return; }
+    return runComplianceAction(`Assigning employee #${employeeId} to pay role #${payRoleId}...`, "Pay role assigned", async () => {
+      const complianceContract = await getComplianceContractWithSigner(complianceAddress);
+      setPayRole({ employeeId: "", payRoleId: "" });
+      return complianceContract.setPayRole(employeeId, payRoleId);
+    });
+  };
+
+  const requestViolationCount = () => {
+    const id = parseInt(batchId);
+    if (!(id > 0)) { alert("Enter a batch ID"); return; }
+    return runComplianceAction(`Requesting the violation count of batch #${id}...`, "Decryption requested; the count appears once the oracle responds", async () => {
+      const complianceContract = await getComplianceContractWithSigner(complianceAddress);
+      return complianceContract.requestViolationCountDecryption(id);
+    });
+  };
+
+  // Access to the flags is granted on-chain first, then they are decrypted with the officer's own key
+  const runDrillDown = async () => {
+    const id = parseInt(batchId);
+    const employeeId = parseInt(drillEmployeeId);
+    if (!(id > 0) || !(employeeId > 0)) { alert("Enter a batch ID and an employee ID"); return; }
+    const granted = await runComplianceAction(`Opening employee #${employeeId} in batch #${id}...`, "Access granted", async () => {
+      const complianceContract = await getComplianceContractWithSigner(complianceAddress);
+      return complianceContract.drillDown(id, employeeId);
+    });
+    if (!granted) return;
+    try {
+      const complianceContract = await getComplianceContractReadOnly(complianceAddress);
+      if (!complianceContract) return;
+      const violation = await complianceContract.getViolation(id, employeeId);
+      const handles = [violation.belowMinimumWage, violation.outsidePayBand];
+      const values = await userDecryptHandles(handles, complianceAddress);
+      setDrillDown({
+        batchId: id,
+        employeeId: employeeId.toString(),
+        belowMinimumWage: values[handles[0]] !== 0n,
+        outsidePayBand: values[handles[1]] !== 0n
+      });
+    } catch (e) {
+      console.error("Compliance drill-down failed:", e);
+      alert("Decryption failed: this wallet may not have access to the flags");
+    }
+  };
+
+  return (
+    <div className="streams-section compliance-section">
+      <div className="section-header">
+        <h2>Pay Compliance</h2>
+      </div>
+
+      {isPayrollAdmin && currentBatch && (
+        <div>
+          <div className="stream-form">
+            <input
+              type="text"
+              value={minimumWage}
+              onChange={(e) => setMinimumWage(e.target.value)}
+              placeholder={`Minimum wage (${currentBatch.currency})`}
+            />
+            <button className="action-btn process-btn" onClick={saveMinimumWage}>Set Floor</button>
+          </div>
+          <div className="stream-form">
+            <input
+              type="number"
+              value={payBand.payRoleId}
+              onChange={(e) => setPayBand({ ...payBand, payRoleId: e.target.value })}
+              placeholder="Pay role ID"
+              min="1"
+              step="1"
+            />
+            <input
+              type="text"
+              value={payBand.min}
+              onChange={(e) => setPayBand({ ...payBand, min: e.target.value })}
+              placeholder="Band minimum"
+            />
+            <input
+              type="text"
+              value={payBand.max}
+              onChange={(e) => setPayBand({ ...payBand, max: e.target.value })}
+              placeholder="Band maximum"
+            />
+            <button className="action-btn process-btn" onClick={savePayBand}>Set Band</button>
+          </div>
+          <div className="stream-form">
+            <input
+              type="number"
+              value={payRole.employeeId}
+              onChange={(e) => setPayRole({ ...payRole, employeeId: e.target.value })}
+              placeholder="Employee ID"
+              min="1"
+              step="1"
+            />
+            <input
+              type="number"
+              value={payRole.payRoleId}
+              onChange={(e) => setPayRole({ ...payRole, payRoleId: e.target.value })}
+              placeholder="Pay role ID"
+              min="0"
+              step="1"
+            />
+            <button className="action-btn view-btn" onClick={assignPayRole}>Assign Role</button>
+          </div>
+          <p className="no-streams">Rules apply to salaries submitted after they are set.</p>
+        </div>
+      )}
+
+      {isComplianceOfficer && (
+        <div className="stream-form">
+          <input
+            type="number"
+            value={batchId}
+            onChange={(e) => setBatchId(e.target.value)}
+            placeholder="Batch ID"
+            min="1"
+            step="1"
+          />
+          <button className="action-btn process-btn" onClick={requestViolationCount}>Decrypt Count</button>
+          <input
+            type="number"
+            value={drillEmployeeId}
+            onChange={(e) => setDrillEmployeeId(e.target.value)}
+            placeholder="Employee ID"
+            min="1"
+            step="1"
+          />
+          <button className="action-btn view-btn" onClick={runDrillDown}>Drill Down</button>
+        </div>
+      )}
+
+      {drillDown && (
+        <div className="stream-item">
+          <div className="stream-header">
+            <span>Batch #{drillDown.batchId} · Employee #{drillDown.employeeId}</span>
+          </div>
+          <div className="stream-values">
+            <span>Below minimum wage: {drillDown.belowMinimumWage ? "Yes" : "No"}</span>
+            <span>Outside pay band: {drillDown.outsidePayBand ? "Yes" : "No"}</span>
+          </div>
+        </div>
+      )}
+
+      {results.length === 0 ? (
+        <p className="no-streams">No violation counts decrypted yet</p>
+      ) : (
+        <div className="streams-list">
+          {results.map(result => (
+            <div className="stream-item" key={result.batchId}>
+              <div className="stream-header">
+                <span>Batch #{result.batchId}</span>
+                <span className={`stream-status ${result.violationCount === 0 ? "status-1" : "status-3"}`}>
+                  {result.violationCount === 0 ? "Compliant" : `${result.violationCount} violation${result.violationCount === 1 ? "" : "s"}`}
+                </span>
+              </div>
+              <div className="stream-meta">Decrypted {new Date(result.decryptedAt * 1000).toLocaleString()}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompliancePanel;
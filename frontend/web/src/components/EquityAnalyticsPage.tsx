@@ -0,0 +1,321 @@
+// EquityAnalyticsPage.tsx
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getPayrollContractReadOnly, getEquityContractReadOnly, getEquityContractWithSigner } from '../contract';
+import { encryptGroupTagsInput } from '../fhe';
+
+type TransactionStatus = { visible: boolean; status: "pending" | "success" | "error"; message: string };
+
+interface EquityAnalyticsPageProps {
+  equityAddress: string;
+  account?: string;
+  isPayrollAdmin: boolean;
+  onStatus: (status: TransactionStatus) => void;
+  describeError: (e: any) => string;
+}
+
+interface EquityReport {
+  id: number;
+  batchId: number;
+  dimension: number;
+  groupCount: number;
+  minGroupSize: number;
+  cursor: number;
+  employeeCount: number;
+  averagedGroups: number;
+  status: number;
+  createdAt: number;
+  decryptedAt: number;
+  currency: string;
+  decimals: number;
+  results: { released: boolean; minHeadcount: number; averageSalary: bigint }[];
+}
+
+// Mirrors PayrollEquity.Dimension and PayrollEquity.ReportStatus
+const DIMENSIONS = ["Gender", "Role band"];
+const REPORT_STATUS = ["None", "Accumulating", "Decrypting headcounts", "Averaging", "Decrypting averages", "Decrypted"];
+const REPORT_ACCUMULATING = 1;
+const REPORT_AVERAGING = 3;
+const REPORT_DECRYPTED = 5;
+
+const REPORT_PAGE_SIZE = 50;
+// Each employee costs a handful of FHE operations per group, so batches are folded in a few at a time
+const ACCUMULATE_CHUNK = 5;
+// Each released group costs minGroupSize scalar divisions, and 20 fit in a transaction
+const DIVISIONS_PER_TX = 20;
+
+const EquityAnalyticsPage: React.FC<EquityAnalyticsPageProps> = ({ equityAddress, account, isPayrollAdmin, onStatus, describeError }) => {
+  const [reports, setReports] = useState<EquityReport[]>([]);
+  const [labels, setLabels] = useState<string[][]>([[], []]);
+  const [minGroupSize, setMinGroupSize] = useState(0);
+  const [labelInputs, setLabelInputs] = useState(["", ""]);
+  const [newReport, setNewReport] = useState({ batchId: "", dimension: 0 });
+  const [tags, setTags] = useState({ employeeId: "", gender: "", roleBand: "" });
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [equityAddress]);
+
+  const loadAnalytics = async () => {
+    try {
+      const [equityContract, payrollContract] = await Promise.all([
+        getEquityContractReadOnly(equityAddress),
+        getPayrollContractReadOnly()
+      ]);
+      if (!equityContract || !payrollContract) return;
+
+      const [genderLabels, roleBandLabels, threshold] = await Promise.all([
+        equityContract.getGroupLabels(0),
+        equityContract.getGroupLabels(1),
+        equityContract.minGroupSize()
+      ]);
+      setLabels([[...genderLabels], [...roleBandLabels]]);
+      setLabelInputs([genderLabels.join(", "), roleBandLabels.join(", ")]);
+      setMinGroupSize(Number(threshold));
+
+      const count = Number(await equityContract.reportCount());
+      const list: EquityReport[] = [];
+      for (let offset = 0; offset < count; offset += REPORT_PAGE_SIZE) {
+        const page = await equityContract.getReports(offset, REPORT_PAGE_SIZE);
+        for (const report of page) {
+          const batch = await payrollContract.batches(report.batchId);
+          const results = Number(report.status) === REPORT_DECRYPTED ? await equityContract.getReportResults(report.id) : [];
+          list.push({
+            id: Number(report.id),
+            batchId: Number(report.batchId),
+            dimension: Number(report.dimension),
+            groupCount: Number(report.groupCount),
+            minGroupSize: Number(report.minGroupSize),
+            cursor: Number(report.cursor),
+            employeeCount: Number(report.employeeCount),
+            averagedGroups: Number(report.averagedGroups),
+            status: Number(report.status),
+            createdAt: Number(report.createdAt),
+            decryptedAt: Number(report.decryptedAt),
+            currency: batch.currency,
+            decimals: Number(batch.decimals),
+            results: results.map((result: any) => ({ released: result.released, minHeadcount: Number(result.minHeadcount), averageSalary: result.averageSalary }))
+          });
+        }
+      }
+      setReports(list.reverse());
+    } catch (e) { console.error("Error loading pay-equity reports:", e); }
+  };
+
+  const runEquityAction = async (pendingMessage: string, successMessage: string, action: () => Promise<any>) => {
+    if (!account) { alert("Please connect wallet first"); return; }
+    onStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const tx = await action();
+      if (tx) await tx.wait();
+      onStatus({ visible: true, status: "success", message: successMessage });
+      await loadAnalytics();
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      onStatus({ visible: true, status: "error", message: describeError(e) });
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const saveLabels = (dimension: number) => {
+    const list = labelInputs[dimension].split(",").map(label => label.trim()).filter(label => label !== "");
+    return runEquityAction(`Saving ${DIMENSIONS[dimension].toLowerCase()} groups...`, "Groups saved", async () => {
+      const equityContract = await getEquityContractWithSigner(equityAddress);
+      return equityContract.setGroupLabels(dimension, list);
+    });
+  };
+
+  const saveTags = () => {
+    const employeeId = parseInt(tags.employeeId);
+    const gender = parseInt(tags.gender);
+    const roleBand = parseInt(tags.roleBand);
+    if (!(employeeId > 0) || !(gender >= 0 && gender < 256) || !(roleBand >= 0 && roleBand < 256)) {
+      alert("Enter an employee ID and a group for each dimension");
+      return;
+    }
+    return runEquityAction(`Encrypting group tags of employee #${employeeId}...`, "Group tags saved", async () => {
+      const input = await encryptGroupTagsInput(equityAddress, account!, gender, roleBand);
+      const equityContract = await getEquityContractWithSigner(equityAddress);
+      setTags({ employeeId: "", gender: "", roleBand: "" });
+      return equityContract.setGroupTags(employeeId, input.genderHandle, input.roleBandHandle, input.inputProof);
+    });
+  };
+
+  const createReport = () => {
+    const batchId = parseInt(newReport.batchId);
+    if (!(batchId > 0)) { alert("Enter a closed batch ID"); return; }
+    return runEquityAction(`Creating a ${DIMENSIONS[newReport.dimension].toLowerCase()} report for batch #${batchId}...`, "Report created", async () => {
+      const equityContract = await getEquityContractWithSigner(equityAddress);
+      return equityContract.createReport(batchId, newReport.dimension);
+    });
+  };
+
+  // Folds the rest of the batch into the report, one transaction per chunk
+  const accumulateReport = (report: EquityReport) =>
+    runEquityAction(`Adding batch #${report.batchId} salaries to report #${report.id}...`, `Report #${report.id} is ready to decrypt`, async () => {
+      const equityContract = await getEquityContractWithSigner(equityAddress);
+      for (let cursor = report.cursor; cursor < report.employeeCount; cursor += ACCUMULATE_CHUNK) {
+        onStatus({ visible: true, status: "pending", message: `Adding employees ${cursor + 1}-${Math.min(cursor + ACCUMULATE_CHUNK, report.employeeCount)} of ${report.employeeCount}...` });
+        await (await equityContract.accumulate(report.id, ACCUMULATE_CHUNK)).wait();
+      }
+    });
+
+  const requestDecryption = (report: EquityReport) =>
+    runEquityAction(`Requesting the headcounts of report #${report.id}...`, "Decryption requested; averages can be computed once the oracle responds", async () => {
+      const equityContract = await getEquityContractWithSigner(equityAddress);
+      return equityContract.requestReportDecryption(report.id);
+    });
+
+  // Divides the group totals by their encrypted headcounts; the last transaction requests the averages
+  const computeAverages = (report: EquityReport) =>
+    runEquityAction(`Computing the averages of report #${report.id}...`, "Averages requested; they appear once the oracle responds", async () => {
+      const equityContract = await getEquityContractWithSigner(equityAddress);
+      const groupsPerTx = Math.max(1, Math.floor(DIVISIONS_PER_TX / report.minGroupSize));
+      for (let group = report.averagedGroups; group < report.groupCount; group += groupsPerTx) {
+        onStatus({ visible: true, status: "pending", message: `Averaging groups ${group + 1}-${Math.min(group + groupsPerTx, report.groupCount)} of ${report.groupCount}...` });
+        await (await equityContract.computeAverages(report.id, groupsPerTx)).wait();
+      }
+    });
+
+  const renderResults = (report: EquityReport) => {
+    const groupLabels = labels[report.dimension];
+    const released = report.results.filter(result => result.released).map(result => result.averageSalary);
+    const maxAverage = released.reduce((max, value) => (value > max ? value : max), 1n);
+    return (
+      <div className="equity-results">
+        {report.results.map((result, group) => (
+          <div className="equity-row" key={group}>
+            <span className="equity-group">{groupLabels[group] || `Group ${group}`}</span>
+            {result.released ? (
+              <>
+                <div className="equity-bar-track">
+                  <div className="equity-bar" style={{ width: `${Number((result.averageSalary * 1000n) / maxAverage) / 10}%` }}></div>
+                </div>
+                <span className="equity-value">
+                  {ethers.formatUnits(result.averageSalary, report.decimals)} {report.currency}
+                  {result.averageSalary < maxAverage && ` (−${(Number(((maxAverage - result.averageSalary) * 1000n) / maxAverage) / 10).toFixed(1)}%)`}
+                  {` · ${result.minHeadcount}-${result.minHeadcount + report.minGroupSize - 1} employees`}
+                </span>
+              </>
+            ) : (
+              <span className="equity-suppressed">Fewer than {report.minGroupSize} employees, withheld</span>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="main-content">
+      <div className="streams-section">
+        <div className="section-header">
+          <h2>Pay-Equity Analytics</h2>
+        </div>
+        <p className="no-streams">
+          Average salary per group, decrypted only for groups with at least {minGroupSize} employees. Headcounts are shown in ranges of {minGroupSize}. Gaps are shown against the highest released average.
+        </p>
+
+        {isPayrollAdmin && (
+          <div>
+            {DIMENSIONS.map((dimension, index) => (
+              <div className="stream-form" key={dimension}>
+                <input
+                  type="text"
+                  value={labelInputs[index]}
+                  onChange={(e) => setLabelInputs(labelInputs.map((value, i) => (i === index ? e.target.value : value)))}
+                  placeholder={`${dimension} groups, comma-separated`}
+                />
+                <button className="action-btn view-btn" onClick={() => saveLabels(index)}>Save {dimension} Groups</button>
+              </div>
+            ))}
+            <div className="stream-form">
+              <input
+                type="number"
+                value={tags.employeeId}
+                onChange={(e) => setTags({ ...tags, employeeId: e.target.value })}
+                placeholder="Employee ID"
+                min="1"
+                step="1"
+              />
+              {DIMENSIONS.map((dimension, index) => {
+                const key = index === 0 ? "gender" : "roleBand";
+                return (
+                  <select
+                    key={dimension}
+                    className="filter-select"
+                    value={tags[key]}
+                    onChange={(e) => setTags({ ...tags, [key]: e.target.value })}
+                  >
+                    <option value="">{dimension}</option>
+                    {labels[index].map((label, group) => (
+                      <option key={group} value={group}>{label}</option>
+                    ))}
+                  </select>
+                );
+              })}
+              <button className="action-btn process-btn" onClick={saveTags}>Tag Employee</button>
+            </div>
+            <div className="stream-form">
+              <input
+                type="number"
+                value={newReport.batchId}
+                onChange={(e) => setNewReport({ ...newReport, batchId: e.target.value })}
+                placeholder="Closed batch ID"
+                min="1"
+                step="1"
+              />
+              <select
+                className="filter-select"
+                value={newReport.dimension}
+                onChange={(e) => setNewReport({ ...newReport, dimension: parseInt(e.target.value) })}
+              >
+                {DIMENSIONS.map((dimension, index) => (
+                  <option key={dimension} value={index}>{dimension}</option>
+                ))}
+              </select>
+              <button className="action-btn process-btn" onClick={createReport}>New Report</button>
+            </div>
+          </div>
+        )}
+
+        {reports.length === 0 ? (
+          <p className="no-streams">No pay-equity reports</p>
+        ) : (
+          <div className="streams-list">
+            {reports.map(report => (
+              <div className="stream-item" key={report.id}>
+                <div className="stream-header">
+                  <span>Report #{report.id} · Batch #{report.batchId} · {DIMENSIONS[report.dimension]}</span>
+                  <span className={`stream-status status-${report.status === REPORT_DECRYPTED ? 1 : 2}`}>{REPORT_STATUS[report.status]}</span>
+                </div>
+                <div className="stream-meta">
+                  {report.status === REPORT_DECRYPTED
+                    ? `Decrypted ${new Date(report.decryptedAt * 1000).toLocaleString()}`
+                    : `${report.cursor} of ${report.employeeCount} employees included`}
+                </div>
+                {report.status === REPORT_DECRYPTED && renderResults(report)}
+                {isPayrollAdmin && report.status === REPORT_ACCUMULATING && (
+                  <div className="stream-actions">
+                    {report.cursor < report.employeeCount ? (
+                      <button className="action-btn view-btn" onClick={() => accumulateReport(report)}>Include Employees</button>
+                    ) : (
+                      <button className="action-btn process-btn" onClick={() => requestDecryption(report)}>Decrypt Headcounts</button>
+                    )}
+                  </div>
+                )}
+                {isPayrollAdmin && report.status === REPORT_AVERAGING && (
+                  <div className="stream-actions">
+                    <button className="action-btn process-btn" onClick={() => computeAverages(report)}>Compute Averages</button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EquityAnalyticsPage;
@@ -0,0 +1,109 @@
+// RecordStatusTimeline.tsx
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getContractReadOnly, getContractWithSigner } from '../contract';
+import {
+  PayrollRecord, StatusChange, StatusRights, LEGACY_COLLECTION, STATUS_TRANSITIONS,
+  canChangeStatus, loadStatusHistory, loadStatusRights, recordStatusCode
+} from '../records';
+
+type TransactionStatus = { visible: boolean; status: "pending" | "success" | "error"; message: string };
+
+interface RecordStatusTimelineProps {
+  record: PayrollRecord;
+  account?: string;
+  onStatus: (status: TransactionStatus) => void;
+  describeError: (e: any) => string;
+  onChanged: () => Promise<void>;
+}
+
+const ACTION_LABELS: Record<PayrollRecord["status"], string> = {
+  processed: "Mark Processed",
+  failed: "Mark Failed",
+  pending: "Reopen"
+};
+
+// Status history of a legacy record as kept by UniversalAdapter, with the transitions the wallet may make
+const RecordStatusTimeline: React.FC<RecordStatusTimelineProps> = ({ record, account, onStatus, describeError, onChanged }) => {
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [rights, setRights] = useState<StatusRights | null>(null);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [record.id, record.status, account]);
+
+  const loadTimeline = async () => {
+    try {
+      const adapterContract = await getContractReadOnly();
+      if (!adapterContract) return;
+      setHistory(await loadStatusHistory(adapterContract, record.id));
+      setRights(account ? await loadStatusRights(adapterContract, account) : null);
+    } catch (e) { console.error("Error loading status history:", e); }
+  };
+
+  const runStatusAction = async (pendingMessage: string, successMessage: string, action: (adapterContract: ethers.Contract) => Promise<any>) => {
+    if (!account) { alert("Please connect wallet first"); return; }
+    onStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const adapterContract = await getContractWithSigner();
+      await (await action(adapterContract)).wait();
+      onStatus({ visible: true, status: "success", message: successMessage });
+      await onChanged();
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      onStatus({ visible: true, status: "error", message: describeError(e) });
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const changeStatus = (to: PayrollRecord["status"]) =>
+    runStatusAction(`Marking record ${to}...`, `Record marked ${to}`, adapterContract =>
+      adapterContract.setRecordStatus(LEGACY_COLLECTION, record.id, recordStatusCode(to)));
+
+  const trackRecord = () =>
+    runStatusAction("Tracking record status on-chain...", "Record is now tracked", adapterContract =>
+      adapterContract.trackRecord(LEGACY_COLLECTION, record.id));
+
+  const actions = record.statusTracked && rights
+    ? STATUS_TRANSITIONS[record.status].filter(to => canChangeStatus(rights, to))
+    : [];
+
+  return (
+    <div className="adjustments-section">
+      <h3>Status History</h3>
+      {!record.statusTracked ? (
+        <p className="no-adjustments">Not tracked on-chain; the status is the one last written to the record. Tracking restarts it at pending and locks the record against further writes.</p>
+      ) : (
+        <div className="adjustments-list">
+          {history.map((change, index) => (
+            <div key={index} className="adjustment-item">
+              <span className={`status-badge ${change.status}`}>{change.status}</span>
+              <span>{change.actor.substring(0, 6)}...{change.actor.substring(38)}</span>
+              <span>{new Date(change.changedAt * 1000).toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {!record.statusTracked && rights?.isOwner && (
+        <div className="stream-actions">
+          <button className="action-btn process-btn" onClick={trackRecord}>Track Status</button>
+        </div>
+      )}
+      {actions.length > 0 && (
+        <div className="stream-actions">
+          {actions.map(to => (
+            <button
+              key={to}
+              className={`action-btn ${to === "failed" ? "fail-btn" : "process-btn"}`}
+              onClick={() => changeStatus(to)}
+            >
+              {ACTION_LABELS[to]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordStatusTimeline;
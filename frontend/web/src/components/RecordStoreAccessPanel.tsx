@@ -0,0 +1,162 @@
+// RecordStoreAccessPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getContractReadOnly, getContractWithSigner, normAddr } from '../contract';
+import { LEGACY_COLLECTION, adapterWriteError } from '../records';
+
+type TransactionStatus = { visible: boolean; status: "pending" | "success" | "error"; message: string };
+
+interface RecordStoreAccessPanelProps {
+  account?: string;
+  onStatus: (status: TransactionStatus) => void;
+  describeError: (e: any) => string;
+}
+
+interface NamespaceAccess {
+  owner: string;
+  writers: string[];
+  processors: string[]; // Empty on adapters deployed before record statuses
+  writeError: string | null;
+}
+
+type MemberRole = "writer" | "processor";
+
+// Who may write the legacy payroll records in UniversalAdapter and settle their statuses; the namespace owner
+// manages both lists
+const RecordStoreAccessPanel: React.FC<RecordStoreAccessPanelProps> = ({ account, onStatus, describeError }) => {
+  const [access, setAccess] = useState<NamespaceAccess | null>(null);
+  const [newMember, setNewMember] = useState<{ address: string; role: MemberRole }>({ address: "", role: "writer" });
+
+  useEffect(() => {
+    loadAccess();
+  }, [account]);
+
+  const loadAccess = async () => {
+    try {
+      const adapterContract = await getContractReadOnly();
+      if (!adapterContract) return;
+      const [owner, writers] = await Promise.all([
+        adapterContract.namespaceOwner(LEGACY_COLLECTION),
+        adapterContract.getWriters(LEGACY_COLLECTION)
+      ]);
+      const processors: string[] = await adapterContract.getProcessors(LEGACY_COLLECTION).catch(() => []);
+      setAccess({
+        owner,
+        writers: [...writers],
+        processors: [...processors],
+        writeError: account ? await adapterWriteError(adapterContract, LEGACY_COLLECTION, account) : null
+      });
+    } catch (e) {
+      // Adapters deployed before namespaces have no access control to show
+      console.error("Error loading record store access:", e);
+      setAccess(null);
+    }
+  };
+
+  const runAccessAction = async (pendingMessage: string, successMessage: string, action: (adapterContract: ethers.Contract) => Promise<any>) => {
+    if (!account) { alert("Please connect wallet first"); return; }
+    onStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const adapterContract = await getContractWithSigner();
+      await (await action(adapterContract)).wait();
+      onStatus({ visible: true, status: "success", message: successMessage });
+      await loadAccess();
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      onStatus({ visible: true, status: "error", message: describeError(e) });
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const setMember = (adapterContract: ethers.Contract, role: MemberRole, member: string, allowed: boolean) =>
+    role === "writer"
+      ? adapterContract.setWriter(LEGACY_COLLECTION, member, allowed)
+      : adapterContract.setProcessor(LEGACY_COLLECTION, member, allowed);
+
+  const addMember = () => {
+    const { address, role } = newMember;
+    if (!ethers.isAddress(address)) { alert(`Please enter a valid ${role} address`); return; }
+    return runAccessAction(`Adding ${role}...`, `${role === "writer" ? "Writer" : "Processor"} added`, adapterContract => {
+      setNewMember({ address: "", role });
+      return setMember(adapterContract, role, address, true);
+    });
+  };
+
+  const removeMember = (role: MemberRole, member: string) =>
+    runAccessAction(`Removing ${role}...`, `${role === "writer" ? "Writer" : "Processor"} removed`, adapterContract => setMember(adapterContract, role, member, false));
+
+  const claimNamespace = () =>
+    runAccessAction(`Claiming the "${LEGACY_COLLECTION}" namespace...`, "Namespace claimed", adapterContract => adapterContract.claimNamespace(LEGACY_COLLECTION));
+
+  if (!access) return null;
+  const isOwner = !!account && normAddr(access.owner) === normAddr(account);
+  const isUnclaimed = access.owner === ethers.ZeroAddress;
+
+  return (
+    <div className="streams-section">
+      <div className="section-header">
+        <h2>Record Store Access</h2>
+      </div>
+
+      <div className="stream-item">
+        <div className="stream-header">
+          <span>Namespace “{LEGACY_COLLECTION}”</span>
+          <span className={`stream-status status-${access.writeError ? 3 : 1}`}>
+            {!account ? "Not connected" : access.writeError ? "Read only" : isOwner ? "Owner" : "Writer"}
+          </span>
+        </div>
+        <div className="stream-meta">
+          {isUnclaimed ? "Unclaimed" : `Owner ${access.owner.substring(0, 6)}...${access.owner.substring(38)}`}
+        </div>
+        {access.writeError && <p className="solvency-warning">{access.writeError}</p>}
+        {isUnclaimed && account && (
+          <div className="stream-actions">
+            <button className="action-btn process-btn" onClick={claimNamespace}>Claim Namespace</button>
+          </div>
+        )}
+      </div>
+
+      {isOwner && (
+        <div className="stream-form">
+          <input
+            type="text"
+            value={newMember.address}
+            onChange={(e) => setNewMember({ ...newMember, address: e.target.value })}
+            placeholder="Address 0x..."
+          />
+          <select
+            value={newMember.role}
+            onChange={(e) => setNewMember({ ...newMember, role: e.target.value as MemberRole })}
+          >
+            <option value="writer">Writer</option>
+            <option value="processor">Processor</option>
+          </select>
+          <button className="action-btn process-btn" onClick={addMember}>Add</button>
+        </div>
+      )}
+
+      {access.writers.length === 0 && access.processors.length === 0 ? (
+        <p className="no-streams">No writers or processors besides the owner</p>
+      ) : (
+        <div className="streams-list">
+          {([
+            ...access.writers.map(member => ["writer", member]),
+            ...access.processors.map(member => ["processor", member])
+          ] as [MemberRole, string][]).map(([role, member]) => (
+            <div className="stream-item" key={`${role}-${member}`}>
+              <div className="stream-header">
+                <span>{member.substring(0, 6)}...{member.substring(38)}</span>
+                <span className="stream-meta">{role === "writer" ? "Writer" : "Processor"}</span>
+                {isOwner && (
+                  <button className="action-btn fail-btn" onClick={() => removeMember(role, member)}>Remove</button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordStoreAccessPanel;
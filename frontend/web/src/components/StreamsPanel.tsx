@@ -0,0 +1,308 @@
+// StreamsPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  getPayrollContractReadOnly,
+  getPayrollContractWithSigner,
+  getStreamsContractReadOnly,
+  getStreamsContractWithSigner,
+  getPayoutTokenContractWithSigner,
+  PAYOUT_TOKEN_ABI,
+  normAddr
+} from '../contract';
+import { encryptAmountInput, userDecryptHandles } from '../fhe';
+
+type TransactionStatus = { visible: boolean; status: "pending" | "success" | "error"; message: string };
+
+interface StreamsPanelProps {
+  streamsAddress: string;
+  account?: string;
+  isPayrollAdmin: boolean;
+  onStatus: (status: TransactionStatus) => void;
+  describeError: (e: any) => string;
+}
+
+interface PayrollStream {
+  id: number;
+  employeeId: string;
+  recipient: string;
+  rateHandle: string;
+  accruedHandle: string;
+  balanceHandle: string;
+  startedAt: number;
+  lastAccrualAt: number;
+  accrualEnd: number | null; // Set once the employment the stream was created in has ended
+  status: number;
+}
+
+// Amounts in the payout token's minor units
+interface DecryptedStream {
+  rate: bigint;
+  accrued: bigint;
+  balance: bigint;
+}
+
+// Mirrors PayrollStreams.StreamStatus
+const STREAM_STATUS = ["None", "Active", "Paused", "Cancelled"];
+const STREAM_ACTIVE = 1;
+const STREAM_PAUSED = 2;
+const STREAM_CANCELLED = 3;
+
+// Mirrors StealthPayrollFHE.PayModel and EmployeeStatus
+const PAY_MODEL_STREAM = 1;
+const EMPLOYEE_ACTIVE = 1;
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+const STREAM_PAGE_SIZE = 50;
+const MAX_OPERATOR_UNTIL = 2n ** 48n - 1n;
+
+const StreamsPanel: React.FC<StreamsPanelProps> = ({ streamsAddress, account, isPayrollAdmin, onStatus, describeError }) => {
+  const [streams, setStreams] = useState<PayrollStream[]>([]);
+  const [decimals, setDecimals] = useState(6);
+  const [tokenAddress, setTokenAddress] = useState("");
+  const [decrypted, setDecrypted] = useState<Record<number, DecryptedStream>>({});
+  const [amounts, setAmounts] = useState<Record<number, string>>({});
+  const [newStream, setNewStream] = useState({ employeeId: 0, ratePerSecond: "" });
+  const [now, setNow] = useState(Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    setDecrypted({});
+    loadStreams();
+  }, [streamsAddress]);
+
+  // Accrual is extrapolated locally between on-chain settlements
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const loadStreams = async () => {
+    try {
+      const [streamsContract, payrollContract] = await Promise.all([
+        getStreamsContractReadOnly(streamsAddress),
+        getPayrollContractReadOnly()
+      ]);
+      if (!streamsContract || !payrollContract) return;
+
+      const token: string = await streamsContract.token();
+      const tokenContract = new ethers.Contract(token, PAYOUT_TOKEN_ABI, streamsContract.runner);
+      setTokenAddress(token);
+      setDecimals(Number(await tokenContract.decimals()));
+
+      const count = Number(await streamsContract.streamCount());
+      const list: PayrollStream[] = [];
+      for (let offset = 0; offset < count; offset += STREAM_PAGE_SIZE) {
+        const page = await streamsContract.getStreams(offset, STREAM_PAGE_SIZE);
+        for (const stream of page) {
+          const member = await payrollContract.registry(stream.employeeId);
+          const startedAt = Number(stream.startedAt);
+          const lastAccrualAt = Number(stream.lastAccrualAt);
+          list.push({
+            id: Number(stream.id),
+            employeeId: stream.employeeId.toString(),
+            recipient: member.wallet,
+            rateHandle: stream.ratePerSecond,
+            accruedHandle: stream.accrued,
+            balanceHandle: stream.balance,
+            startedAt,
+            lastAccrualAt,
+            accrualEnd: accrualEnd(member, startedAt, lastAccrualAt),
+            status: Number(stream.status)
+          });
+        }
+      }
+      setStreams(list);
+    } catch (e) { console.error("Error loading streams:", e); }
+  };
+
+  const runStreamAction = async (pendingMessage: string, successMessage: string, action: () => Promise<any>) => {
+    if (!account) { alert("Please connect wallet first"); return; }
+    onStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const tx = await action();
+      if (tx) await tx.wait();
+      onStatus({ visible: true, status: "success", message: successMessage });
+      setDecrypted({});
+      await loadStreams();
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      onStatus({ visible: true, status: "error", message: describeError(e) });
+      setTimeout(() => onStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const parseAmount = (value: string): bigint | null => {
+    try {
+      const amount = ethers.parseUnits(value || "0", decimals);
+      return amount > 0n ? amount : null;
+    } catch { return null; }
+  };
+
+  // Moving an employee to stream pay takes them out of the next batch
+  const createStream = () => {
+    const rate = parseAmount(newStream.ratePerSecond);
+    if (!rate) { alert("Enter a positive rate per second"); return; }
+    return runStreamAction(`Creating stream for employee #${newStream.employeeId}...`, "Stream created", async () => {
+      const payrollContract = await getPayrollContractWithSigner();
+      const member = await payrollContract.registry(newStream.employeeId);
+      if (Number(member.payModel) !== PAY_MODEL_STREAM) {
+        await (await payrollContract.setPayModel(newStream.employeeId, PAY_MODEL_STREAM)).wait();
+      }
+      const input = await encryptAmountInput(streamsAddress, account!, rate);
+      const streamsContract = await getStreamsContractWithSigner(streamsAddress);
+      setNewStream({ employeeId: 0, ratePerSecond: "" });
+      return streamsContract.createStream(newStream.employeeId, input.amountHandle, input.inputProof);
+    });
+  };
+
+  // Top-ups are pulled from the admin's token balance, so the streams contract must be their operator
+  const topUp = (stream: PayrollStream) => {
+    const amount = parseAmount(amounts[stream.id]);
+    if (!amount) { alert("Enter a positive amount"); return; }
+    return runStreamAction(`Topping up stream #${stream.id}...`, `Stream #${stream.id} topped up`, async () => {
+      const tokenContract = await getPayoutTokenContractWithSigner(tokenAddress);
+      if (!(await tokenContract.isOperator(account, streamsAddress))) {
+        await (await tokenContract.setOperator(streamsAddress, MAX_OPERATOR_UNTIL)).wait();
+      }
+      const input = await encryptAmountInput(streamsAddress, account!, amount);
+      const streamsContract = await getStreamsContractWithSigner(streamsAddress);
+      return streamsContract.topUp(stream.id, input.amountHandle, input.inputProof);
+    });
+  };
+
+  const withdraw = (stream: PayrollStream) => {
+    const amount = parseAmount(amounts[stream.id]);
+    if (!amount) { alert("Enter a positive amount"); return; }
+    return runStreamAction(`Withdrawing from stream #${stream.id}...`, "Withdrawal submitted", async () => {
+      const input = await encryptAmountInput(streamsAddress, account!, amount);
+      const streamsContract = await getStreamsContractWithSigner(streamsAddress);
+      return streamsContract.withdraw(stream.id, input.amountHandle, input.inputProof);
+    });
+  };
+
+  const setStreamState = (stream: PayrollStream, method: "pauseStream" | "resumeStream" | "cancelStream", label: string) =>
+    runStreamAction(`${label} stream #${stream.id}...`, `Stream #${stream.id} updated`, async () => {
+      const streamsContract = await getStreamsContractWithSigner(streamsAddress);
+      return streamsContract[method](stream.id);
+    });
+
+  const decryptStream = async (stream: PayrollStream) => {
+    try {
+      const handles = [stream.rateHandle, stream.accruedHandle, stream.balanceHandle];
+      const values = await userDecryptHandles(handles, streamsAddress);
+      setDecrypted({
+        ...decrypted,
+        [stream.id]: { rate: values[handles[0]], accrued: values[handles[1]], balance: values[handles[2]] }
+      });
+    } catch (e) {
+      console.error("Stream decryption failed:", e);
+      alert("Decryption failed: this wallet may not have access to the stream");
+    }
+  };
+
+  // Mirrors PayrollStreams._accrualEnd
+  const accrualEnd = (member: any, startedAt: number, lastAccrualAt: number): number | null => {
+    if (Number(member.onboardedAt) > startedAt) return lastAccrualAt;
+    if (Number(member.status) !== EMPLOYEE_ACTIVE) return Number(member.offboardedAt);
+    return null;
+  };
+
+  // Mirrors PayrollStreams._accrue and the withdrawal limit of PayrollStreams.withdraw
+  const withdrawable = (stream: PayrollStream, values: DecryptedStream): bigint => {
+    const end = stream.accrualEnd ?? now;
+    const elapsed = stream.status === STREAM_ACTIVE ? BigInt(Math.max(0, end - stream.lastAccrualAt)) : 0n;
+    const accrued = values.accrued + values.rate * elapsed;
+    const capped = accrued > MAX_UINT64 ? MAX_UINT64 : accrued;
+    return capped < values.balance ? capped : values.balance;
+  };
+
+  const format = (value: bigint) => ethers.formatUnits(value, decimals);
+
+  return (
+    <div className="streams-section">
+      <div className="section-header">
+        <h2>Salary Streams</h2>
+      </div>
+
+      {isPayrollAdmin && (
+        <div className="stream-form">
+          <input
+            type="number"
+            value={newStream.employeeId}
+            onChange={(e) => setNewStream({ ...newStream, employeeId: parseInt(e.target.value) || 0 })}
+            placeholder="Employee ID"
+            min="0"
+            step="1"
+          />
+          <input
+            type="text"
+            value={newStream.ratePerSecond}
+            onChange={(e) => setNewStream({ ...newStream, ratePerSecond: e.target.value })}
+            placeholder="Rate per second"
+          />
+          <button className="action-btn process-btn" onClick={createStream}>Start Stream</button>
+        </div>
+      )}
+
+      {streams.length === 0 ? (
+        <p className="no-streams">No salary streams</p>
+      ) : (
+        <div className="streams-list">
+          {streams.map(stream => {
+            const isRecipient = !!account && normAddr(stream.recipient) === normAddr(account);
+            const values = decrypted[stream.id];
+            return (
+              <div className="stream-item" key={stream.id}>
+                <div className="stream-header">
+                  <span>Stream #{stream.id} · Employee #{stream.employeeId}</span>
+                  <span className={`stream-status status-${stream.status}`}>{STREAM_STATUS[stream.status] || "Unknown"}</span>
+                </div>
+                <div className="stream-meta">
+                  Started {new Date(stream.startedAt * 1000).toLocaleDateString()}
+                  {stream.accrualEnd !== null && <> · Employment ended, no longer accruing</>} · Paid to {stream.recipient.substring(0, 6)}...{stream.recipient.substring(38)}
+                </div>
+                {values ? (
+                  <div className="stream-values">
+                    <span>Rate {format(values.rate)}/s</span>
+                    <span>Withdrawable {format(withdrawable(stream, values))}</span>
+                    <span>Funded {format(values.balance)}</span>
+                  </div>
+                ) : (isRecipient || isPayrollAdmin) && (
+                  <button className="action-btn view-btn" onClick={() => decryptStream(stream)}>Decrypt</button>
+                )}
+                {(isRecipient || (isPayrollAdmin && stream.status !== STREAM_CANCELLED)) && (
+                  <div className="stream-actions">
+                    <input
+                      type="text"
+                      value={amounts[stream.id] || ""}
+                      onChange={(e) => setAmounts({ ...amounts, [stream.id]: e.target.value })}
+                      placeholder="Amount"
+                    />
+                    {isRecipient && (
+                      <button className="action-btn process-btn" onClick={() => withdraw(stream)}>Withdraw</button>
+                    )}
+                    {isPayrollAdmin && stream.status !== STREAM_CANCELLED && (
+                      <>
+                        <button className="action-btn view-btn" onClick={() => topUp(stream)}>Top Up</button>
+                        {stream.status === STREAM_ACTIVE && (
+                          <button className="action-btn view-btn" onClick={() => setStreamState(stream, "pauseStream", "Pausing")}>Pause</button>
+                        )}
+                        {stream.status === STREAM_PAUSED && stream.accrualEnd === null && (
+                          <button className="action-btn view-btn" onClick={() => setStreamState(stream, "resumeStream", "Resuming")}>Resume</button>
+                        )}
+                        <button className="action-btn fail-btn" onClick={() => setStreamState(stream, "cancelStream", "Cancelling")}>Cancel</button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreamsPanel;
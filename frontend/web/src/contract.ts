@@ -1,11 +1,60 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
+import payrollAbiJson from "./abi/StealthPayrollFHE.json";
+import factoryAbiJson from "./abi/PayrollFactory.json";
+import treasuryAbiJson from "./abi/PayrollTreasury.json";
+import streamsAbiJson from "./abi/PayrollStreams.json";
+import auditGrantsAbiJson from "./abi/PayrollAuditGrants.json";
+import complianceAbiJson from "./abi/PayrollCompliance.json";
+import equityAbiJson from "./abi/PayrollEquity.json";
+import amendmentsAbiJson from "./abi/PayrollAmendments.json";
 import configJson from "./config.json";
 
 export const ABI = (abiJson as any).abi || abiJson;
+export const PAYROLL_ABI = (payrollAbiJson as any).abi || payrollAbiJson;
+export const FACTORY_ABI = (factoryAbiJson as any).abi || factoryAbiJson;
+export const TREASURY_ABI = (treasuryAbiJson as any).abi || treasuryAbiJson;
+export const STREAMS_ABI = (streamsAbiJson as any).abi || streamsAbiJson;
+export const AUDIT_GRANTS_ABI = (auditGrantsAbiJson as any).abi || auditGrantsAbiJson;
+export const COMPLIANCE_ABI = (complianceAbiJson as any).abi || complianceAbiJson;
+export const EQUITY_ABI = (equityAbiJson as any).abi || equityAbiJson;
+export const AMENDMENTS_ABI = (amendmentsAbiJson as any).abi || amendmentsAbiJson;
+
+// The part of ConfidentialPayrollToken the web app calls
+export const PAYOUT_TOKEN_ABI = [
+  "function decimals() view returns (uint8)",
+  "function isOperator(address holder, address spender) view returns (bool)",
+  "function setOperator(address operator, uint48 until)"
+];
+
+// Role identifiers of StealthPayrollFHE, keccak256 of the role name
+export const ROLES = {
+  payrollAdmin: ethers.id("PAYROLL_ADMIN_ROLE"),
+  dataProvider: ethers.id("DATA_PROVIDER_ROLE"),
+  approver: ethers.id("APPROVER_ROLE"),
+  auditor: ethers.id("AUDITOR_ROLE"),
+  pauser: ethers.id("PAUSER_ROLE"),
+  compliance: ethers.id("COMPLIANCE_ROLE") // Checked by PayrollCompliance, granted on the payroll instance
+};
+
+export type RoleName = keyof typeof ROLES;
 export const config = configJson;
 
+const ACTIVE_PAYROLL_KEY = "stealthPayroll.activePayroll";
+
+// The organization switcher points every payroll call at one instance; config.json supplies the default
+let activePayrollAddress: string = localStorage.getItem(ACTIVE_PAYROLL_KEY) || config.payrollContractAddress;
+
+export function getActivePayrollAddress() {
+  return activePayrollAddress;
+}
+
+export function setActivePayrollAddress(address: string) {
+  activePayrollAddress = address;
+  localStorage.setItem(ACTIVE_PAYROLL_KEY, address);
+}
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -81,6 +130,249 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getPayrollContractReadOnly() {
+  try {
+    const provider = await getTestnetProvider();
+    const contract = new ethers.Contract(activePayrollAddress, PAYROLL_ABI, provider);
+    
+    const code = await retry(() => provider.getCode(activePayrollAddress));
+    if (code === "0x") {
+      return null;
+    }
+    
+    return contract;
+  } catch (error) {
+    console.error("Failed to create read-only payroll contract:", error);
+    return null;
+  }
+}
+
+export async function getPayrollContractWithSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    const contract = new ethers.Contract(activePayrollAddress, PAYROLL_ABI, signer);
+    return contract;
+  } catch (error) {
+    console.error("Failed to create payroll contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function getFactoryContractReadOnly() {
+  try {
+    const provider = await getTestnetProvider();
+    const contract = new ethers.Contract(config.payrollFactoryAddress, FACTORY_ABI, provider);
+    
+    const code = await retry(() => provider.getCode(config.payrollFactoryAddress));
+    if (code === "0x") {
+      return null;
+    }
+    
+    return contract;
+  } catch (error) {
+    console.error("Failed to create read-only factory contract:", error);
+    return null;
+  }
+}
+
+export async function getFactoryContractWithSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    const contract = new ethers.Contract(config.payrollFactoryAddress, FACTORY_ABI, signer);
+    return contract;
+  } catch (error) {
+    console.error("Failed to create factory contract with signer:", error);
+    throw error;
+  }
+}
+
+// Each payroll instance has its own treasury, read from StealthPayrollFHE.treasury()
+export async function getTreasuryContractReadOnly(treasuryAddress: string) {
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(treasuryAddress, TREASURY_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only treasury contract:", error);
+    return null;
+  }
+}
+
+export async function getTreasuryContractWithSigner(treasuryAddress: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(treasuryAddress, TREASURY_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create treasury contract with signer:", error);
+    throw error;
+  }
+}
+
+// Each payroll instance registers its own module contracts, read from StealthPayrollFHE.modules(ethers.id(name))
+export async function getStreamsContractReadOnly(streamsAddress: string) {
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(streamsAddress, STREAMS_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only streams contract:", error);
+    return null;
+  }
+}
+
+export async function getStreamsContractWithSigner(streamsAddress: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(streamsAddress, STREAMS_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create streams contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function getAuditGrantsContractReadOnly(auditGrantsAddress: string) {
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(auditGrantsAddress, AUDIT_GRANTS_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only audit grants contract:", error);
+    return null;
+  }
+}
+
+export async function getAuditGrantsContractWithSigner(auditGrantsAddress: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(auditGrantsAddress, AUDIT_GRANTS_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create audit grants contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function getComplianceContractReadOnly(complianceAddress: string) {
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(complianceAddress, COMPLIANCE_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only compliance contract:", error);
+    return null;
+  }
+}
+
+export async function getComplianceContractWithSigner(complianceAddress: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(complianceAddress, COMPLIANCE_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create compliance contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function getEquityContractReadOnly(equityAddress: string) {
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(equityAddress, EQUITY_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only equity contract:", error);
+    return null;
+  }
+}
+
+export async function getEquityContractWithSigner(equityAddress: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(equityAddress, EQUITY_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create equity contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function getAmendmentsContractReadOnly(amendmentsAddress: string) {
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(amendmentsAddress, AMENDMENTS_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only amendments contract:", error);
+    return null;
+  }
+}
+
+export async function getAmendmentsContractWithSigner(amendmentsAddress: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(amendmentsAddress, AMENDMENTS_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create amendments contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function getPayoutTokenContractWithSigner(tokenAddress: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return new ethers.Contract(tokenAddress, PAYOUT_TOKEN_ABI, signer);
+}
+
+// Treasury reverts bubble up through executeBatch, so revert data is matched against every payroll module ABI
+const ERROR_INTERFACES = [
+  new ethers.Interface(PAYROLL_ABI),
+  new ethers.Interface(ABI),
+  new ethers.Interface(TREASURY_ABI),
+  new ethers.Interface(STREAMS_ABI),
+  new ethers.Interface(AUDIT_GRANTS_ABI),
+  new ethers.Interface(COMPLIANCE_ABI),
+  new ethers.Interface(EQUITY_ABI),
+  new ethers.Interface(AMENDMENTS_ABI)
+];
+
+export function decodeRevert(error: any): ethers.ErrorDescription | null {
+  const data = error?.data ?? error?.info?.error?.data ?? error?.error?.data;
+  if (typeof data !== "string" || data.length < 10) return null;
+  for (const iface of ERROR_INTERFACES) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) return parsed;
+    } catch {}
+  }
+  return null;
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
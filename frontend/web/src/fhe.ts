@@ -0,0 +1,186 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { initSDK, createInstance, SepoliaConfig, FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+export async function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: (window as any).ethereum });
+    })();
+    // Allow a retry on the next call if the relayer or the wasm modules failed to load
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+export interface EncryptedPayrollInput {
+  salaryHandle: string;
+  investmentPercentageHandle: string;
+  inputProof: string;
+}
+
+// Salary is expected in the batch currency's minor units, the percentage as a whole number 0-100
+export async function encryptPayrollInput(
+  contractAddress: string,
+  userAddress: string,
+  salary: bigint,
+  investmentPercentage: number
+): Promise<EncryptedPayrollInput> {
+  const instance = await getFhevmInstance();
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(salary)
+    .add32(investmentPercentage)
+    .encrypt();
+
+  return {
+    salaryHandle: ethers.hexlify(handles[0]),
+    investmentPercentageHandle: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface EncryptedAdjustmentInput {
+  amountHandle: string;
+  isDebitHandle: string;
+  inputProof: string;
+}
+
+// Amount in the batch currency's minor units; the direction is encrypted along with it
+export async function encryptAdjustmentInput(
+  contractAddress: string,
+  userAddress: string,
+  amount: bigint,
+  isDebit: boolean
+): Promise<EncryptedAdjustmentInput> {
+  const instance = await getFhevmInstance();
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(amount)
+    .addBool(isDebit)
+    .encrypt();
+
+  return {
+    amountHandle: ethers.hexlify(handles[0]),
+    isDebitHandle: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface EncryptedAmountInput {
+  amountHandle: string;
+  inputProof: string;
+}
+
+// Amount in the payout token's minor units
+export async function encryptAmountInput(
+  contractAddress: string,
+  userAddress: string,
+  amount: bigint
+): Promise<EncryptedAmountInput> {
+  const instance = await getFhevmInstance();
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(amount)
+    .encrypt();
+
+  return {
+    amountHandle: ethers.hexlify(handles[0]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface EncryptedRangeInput {
+  minHandle: string;
+  maxHandle: string;
+  inputProof: string;
+}
+
+// Inclusive bounds in the batch currency's minor units, e.g. a compliance pay band
+export async function encryptRangeInput(
+  contractAddress: string,
+  userAddress: string,
+  min: bigint,
+  max: bigint
+): Promise<EncryptedRangeInput> {
+  const instance = await getFhevmInstance();
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(min)
+    .add64(max)
+    .encrypt();
+
+  return {
+    minHandle: ethers.hexlify(handles[0]),
+    maxHandle: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface EncryptedGroupTagsInput {
+  genderHandle: string;
+  roleBandHandle: string;
+  inputProof: string;
+}
+
+// Tags are indexes into PayrollEquity's group labels for each dimension
+export async function encryptGroupTagsInput(
+  contractAddress: string,
+  userAddress: string,
+  gender: number,
+  roleBand: number
+): Promise<EncryptedGroupTagsInput> {
+  const instance = await getFhevmInstance();
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add8(gender)
+    .add8(roleBand)
+    .encrypt();
+
+  return {
+    genderHandle: ethers.hexlify(handles[0]),
+    roleBandHandle: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Decrypts handles the connected wallet has been granted ACL access to, using an EIP-712 signed request
+export async function userDecryptHandles(handles: string[], contractAddress: string): Promise<Record<string, bigint>> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const instance = await getFhevmInstance();
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  const userAddress = await signer.getAddress();
+
+  const keypair = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000).toString();
+  const durationDays = "10";
+  const eip712 = instance.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    userAddress,
+    startTimestamp,
+    durationDays
+  );
+
+  const decrypted: Record<string, bigint> = {};
+  for (const handle of handles) {
+    decrypted[handle] = BigInt(results[handle] as bigint | string);
+  }
+  return decrypted;
+}
@@ -0,0 +1,90 @@
+// indexer.ts
+import { config, normAddr } from "./contract";
+
+// Client for the event indexer in indexer/; every call resolves to null when no indexer is configured or it
+// follows other contracts, so callers fall back to reading the chain directly
+export interface IndexedEvent {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+  args: Record<string, string | number | boolean>;
+}
+
+export interface IndexedBatch extends IndexedEvent {
+  batchId: string;
+  submissionCount: number;
+}
+
+export interface IndexedSubmission extends IndexedEvent {
+  batchId: string;
+  employeeId: string;
+  provider: string;
+}
+
+export interface IndexedData extends IndexedEvent {
+  key: string;
+  sender: string;
+}
+
+interface IndexerPage<T> {
+  total: number;
+  offset: number;
+  limit: number;
+  items: T[];
+}
+
+interface IndexerHealth {
+  chainId: string | null;
+  payrollAddress: string | null;
+  adapterAddress: string | null;
+  lastBlock: number | null;
+}
+
+const INDEXER_PAGE_SIZE = 500;
+
+const indexerUrl = (): string => config.indexerUrl.replace(/\/$/, "");
+
+const fetchJson = async <T>(path: string, params: Record<string, string | number | boolean | undefined> = {}): Promise<T> => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => { if (value !== undefined) query.set(key, String(value)); });
+  const response = await fetch(`${indexerUrl()}${path}?${query}`);
+  if (!response.ok) throw new Error(`Indexer ${path} returned ${response.status}`);
+  return response.json();
+};
+
+// Pages through a listing until every item is loaded
+const fetchAll = async <T>(path: string, params: Record<string, string | number | boolean | undefined> = {}): Promise<T[]> => {
+  const items: T[] = [];
+  for (let offset = 0; ; offset += INDEXER_PAGE_SIZE) {
+    const page = await fetchJson<IndexerPage<T>>(path, { ...params, offset, limit: INDEXER_PAGE_SIZE });
+    items.push(...page.items);
+    if (offset + INDEXER_PAGE_SIZE >= page.total) return items;
+  }
+};
+
+const follows = async (field: "payrollAddress" | "adapterAddress", address: string): Promise<boolean> => {
+  if (!indexerUrl()) return false;
+  try {
+    const health = await fetchJson<IndexerHealth>("/health");
+    return health.lastBlock !== null && normAddr(health[field] || "") === normAddr(address);
+  } catch (e) {
+    console.error("Indexer unavailable:", e);
+    return false;
+  }
+};
+
+export async function fetchPayrollEvents(payrollAddress: string): Promise<{ batches: IndexedBatch[]; submissions: IndexedSubmission[] } | null> {
+  if (!(await follows("payrollAddress", payrollAddress))) return null;
+  const [batches, submissions] = await Promise.all([
+    fetchAll<IndexedBatch>("/batches"),
+    fetchAll<IndexedSubmission>("/submissions")
+  ]);
+  return { batches, submissions };
+}
+
+// The newest value of every adapter key starting with prefix
+export async function fetchAdapterData(adapterAddress: string, prefix: string): Promise<IndexedData[] | null> {
+  if (!(await follows("adapterAddress", adapterAddress))) return null;
+  return fetchAll<IndexedData>("/data", { prefix, latest: true });
+}
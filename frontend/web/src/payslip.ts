@@ -0,0 +1,175 @@
+// payslip.ts
+import { ethers } from "ethers";
+
+// Decrypted StealthPayrollFHE.getEmployeePayout components, in the batch currency's minor units
+export interface PayoutBreakdown {
+  gross: bigint;
+  adjustmentCredits: bigint;
+  adjustmentDebits: bigint;
+  investment: bigint;
+  tax: bigint;
+  withholding: bigint;
+  benefits: bigint;
+  netPay: bigint;
+}
+
+// Amounts are decimal strings in the batch currency's major units
+export interface Payslip {
+  version: 1;
+  chainId: string;
+  payrollContract: string;
+  batchId: number;
+  employeeId: string;
+  employee: string;
+  currency: string;
+  grossPay: string;
+  adjustments: { credits: string; debits: string };
+  deductions: { incomeTax: string; flatWithholding: string; benefits: string; total: string };
+  investmentAllocation: { percentage: number; strategy: string; amount: string };
+  netPay: string;
+  transactions: { submission: string | null; adjustments: string[]; payout: string | null };
+  issuedAt: string;
+}
+
+// A self-attestation: the signer is whoever exported the payslip, normally the employee, so the signature proves
+// who produced the file and that it was not altered since. It does not prove the employer agrees with the amounts;
+// a verifier who needs that must decrypt the payout of batchId on payrollContract with the employee's consent.
+// The signature covers JSON.stringify(payslip); verify with ethers.verifyMessage(JSON.stringify(payslip), signature)
+export interface SignedPayslip {
+  attestation: "self";
+  payslip: Payslip;
+  signer: string;
+  signature: string;
+}
+
+export interface PayslipSource {
+  chainId: string;
+  payrollContract: string;
+  batchId: number;
+  employeeId: string;
+  employee: string;
+  currency: string;
+  decimals: number;
+  investmentPercentage: number;
+  investmentStrategy: string;
+  transactions: Payslip["transactions"];
+}
+
+export function buildPayslip(source: PayslipSource, payout: PayoutBreakdown): Payslip {
+  const format = (value: bigint) => ethers.formatUnits(value, source.decimals);
+  return {
+    version: 1,
+    chainId: source.chainId,
+    payrollContract: source.payrollContract,
+    batchId: source.batchId,
+    employeeId: source.employeeId,
+    employee: source.employee,
+    currency: source.currency,
+    grossPay: format(payout.gross),
+    adjustments: { credits: format(payout.adjustmentCredits), debits: format(payout.adjustmentDebits) },
+    deductions: {
+      incomeTax: format(payout.tax),
+      flatWithholding: format(payout.withholding),
+      benefits: format(payout.benefits),
+      total: format(payout.tax + payout.withholding + payout.benefits)
+    },
+    investmentAllocation: {
+      percentage: source.investmentPercentage,
+      strategy: source.investmentStrategy,
+      amount: format(payout.investment)
+    },
+    netPay: format(payout.netPay),
+    transactions: source.transactions,
+    issuedAt: new Date().toISOString()
+  };
+}
+
+export async function signPayslip(payslip: Payslip): Promise<SignedPayslip> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  const signature = await signer.signMessage(JSON.stringify(payslip));
+  return { attestation: "self", payslip, signer: await signer.getAddress(), signature };
+}
+
+const payslipLines = (payslip: Payslip): string[] => {
+  const amount = (value: string) => `${value} ${payslip.currency}`;
+  const lines = [
+    `Payroll contract: ${payslip.payrollContract} (chain ${payslip.chainId})`,
+    `Employee: #${payslip.employeeId} ${payslip.employee}`,
+    `Pay period: batch #${payslip.batchId}`,
+    `Issued: ${payslip.issuedAt}`,
+    "",
+    `Gross pay: ${amount(payslip.grossPay)}`,
+    `  Adjustment credits: ${amount(payslip.adjustments.credits)}`,
+    `  Adjustment debits: ${amount(payslip.adjustments.debits)}`,
+    `Investment allocation (${payslip.investmentAllocation.percentage}%${payslip.investmentAllocation.strategy ? ` ${payslip.investmentAllocation.strategy}` : ""}): ${amount(payslip.investmentAllocation.amount)}`,
+    "Deductions:",
+    `  Income tax: ${amount(payslip.deductions.incomeTax)}`,
+    `  Flat withholding: ${amount(payslip.deductions.flatWithholding)}`,
+    `  Benefits: ${amount(payslip.deductions.benefits)}`,
+    `  Total deductions: ${amount(payslip.deductions.total)}`,
+    `Net pay: ${amount(payslip.netPay)}`,
+    "",
+    "Transactions:"
+  ];
+  if (payslip.transactions.submission) lines.push(`  Submission: ${payslip.transactions.submission}`);
+  payslip.transactions.adjustments.forEach(hash => lines.push(`  Adjustment: ${hash}`));
+  if (payslip.transactions.payout) lines.push(`  Payout: ${payslip.transactions.payout}`);
+  lines.push(
+    "",
+    "Amounts were decrypted by the employee's wallet from encrypted on-chain payroll data.",
+    "This payslip is not signed by the employer."
+  );
+  return lines;
+};
+
+// PDF string literals escape backslashes and parentheses; the built-in Helvetica font only covers ASCII here
+const pdfText = (text: string) => text.replace(/[^\x20-\x7e]/g, "?").replace(/[\\()]/g, match => `\\${match}`);
+
+// Single-page A4 PDF with the standard Helvetica font, written by hand so no PDF library is needed
+export function payslipToPdf(payslip: Payslip): Blob {
+  const content = [
+    "BT",
+    "/F1 16 Tf",
+    "50 790 Td",
+    `(${pdfText(`Payslip - batch #${payslip.batchId}`)}) Tj`,
+    "/F1 10 Tf",
+    "14 TL",
+    "0 -28 Td",
+    ...payslipLines(payslip).flatMap(line => [`(${pdfText(line)}) Tj`, "T*"]),
+    "ET"
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+  ];
+
+  // Every character is ASCII, so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => { pdf += `${offset.toString().padStart(10, "0")} 00000 n \n`; });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return new Blob([pdf], { type: "application/pdf" });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,287 @@
+// records.ts
+import { ethers } from "ethers";
+import { config, normAddr } from "./contract";
+import { fetchPayrollEvents, fetchAdapterData } from "./indexer";
+
+// One employee's entry in one batch. Legacy records come from the JSON blobs the app used to write to UniversalAdapter.
+export interface PayrollRecord {
+  id: string;
+  encryptedSalary: string;
+  encryptedInvestment: string;
+  timestamp: number;
+  employee: string;
+  status: "pending" | "processed" | "failed";
+  investmentStrategy?: string; // Only legacy records carry one; the payroll contract has no such field
+  employeeId?: string;
+  txHash?: string;
+  batchId?: number;
+  currency?: string;
+  decimals?: number;
+  payrollAddress?: string;
+  statusTracked?: boolean; // Legacy records whose status is kept by the adapter rather than in their blob
+}
+
+// One entry of a legacy record's on-chain status history
+export interface StatusChange {
+  status: PayrollRecord["status"];
+  actor: string;
+  changedAt: number;
+}
+
+export type RecordSource = "payroll" | "legacy";
+
+// Records written before the relayer SDK integration hold base64 values instead of ciphertext handles
+export const isLegacyRecord = (record: PayrollRecord): boolean => record.encryptedSalary.startsWith('FHE-');
+
+// Records written before the organization registry belong to the instance configured at deploy time
+export const recordPayrollAddress = (record: PayrollRecord): string => record.payrollAddress || config.payrollContractAddress;
+
+const byNewest = (a: PayrollRecord, b: PayrollRecord) => b.timestamp - a.timestamp || (b.batchId ?? 0) - (a.batchId ?? 0);
+
+// Submission transactions and dates come from events; employees carried into a batch date from its opening.
+// The indexer serves them in a few requests; without one they are queried from the chain, one block per date.
+async function loadRecordEvents(payrollContract: ethers.Contract, payrollAddress: string) {
+  const submissions = new Map<string, { txHash: string; timestamp: number }>();
+  const openedAt = new Map<number, number>();
+  try {
+    const indexed = await fetchPayrollEvents(payrollAddress);
+    if (indexed) {
+      indexed.submissions.forEach(event => submissions.set(`${event.batchId}-${event.employeeId}`, event));
+      indexed.batches.forEach(event => openedAt.set(Number(event.batchId), event.timestamp));
+      return { submissions, openedAt };
+    }
+  } catch (e) { console.error("Error loading indexed payroll events:", e); }
+
+  try {
+    const [submittedLogs, openedLogs] = await Promise.all([
+      payrollContract.queryFilter(payrollContract.filters.EmployeeDataSubmitted()),
+      payrollContract.queryFilter(payrollContract.filters.BatchOpened())
+    ]);
+    const provider = payrollContract.runner!.provider!;
+    const blockNumbers = [...new Set([...submittedLogs, ...openedLogs].map(log => log.blockNumber))];
+    const blocks = await Promise.all(blockNumbers.map(blockNumber => provider.getBlock(blockNumber)));
+    const blockTimes = new Map(blocks.filter(block => block !== null).map(block => [block!.number, block!.timestamp]));
+    submittedLogs.forEach(log => {
+      const args = (log as ethers.EventLog).args;
+      if (args) submissions.set(`${args.batchId}-${args.employeeId}`, { txHash: log.transactionHash, timestamp: blockTimes.get(log.blockNumber) ?? 0 });
+    });
+    openedLogs.forEach(log => {
+      const args = (log as ethers.EventLog).args;
+      if (args) openedAt.set(Number(args.batchId), blockTimes.get(log.blockNumber) ?? 0);
+    });
+  } catch (e) { console.error("Error loading payroll events:", e); }
+  return { submissions, openedAt };
+}
+
+// Every employee entry of every batch, with its status taken from the batch: paid batches are processed, batches
+// replaced by an approved amendment are failed since they will never be paid, and everything else is pending.
+// amendmentsContract is PayrollAmendments, when the payroll has one.
+export async function loadPayrollRecords(payrollContract: ethers.Contract, amendmentsContract: ethers.Contract | null): Promise<PayrollRecord[]> {
+  const payrollAddress = await payrollContract.getAddress();
+  const currentBatchId = Number(await payrollContract.currentBatchId());
+  const candidates = Array.from({ length: currentBatchId }, (_, i) => i + 1);
+  const batches = (await Promise.all(candidates.map(id => payrollContract.batches(id))))
+    .filter(batch => Number(batch.id) !== 0);
+  if (batches.length === 0) return [];
+
+  const batchIds = batches.map(batch => Number(batch.id));
+  const latest: bigint[] = amendmentsContract ? await amendmentsContract.latestApprovedBatchIds(batchIds) : [];
+  const employeeIds: bigint[][] = await Promise.all(batchIds.map(id => payrollContract.getBatchEmployeeIds(id)));
+
+  const { submissions, openedAt } = await loadRecordEvents(payrollContract, payrollAddress);
+
+  const wallets = new Map<string, string>();
+  const uniqueEmployeeIds = [...new Set(employeeIds.flat().map(id => id.toString()))];
+  const members = await Promise.all(uniqueEmployeeIds.map(id => payrollContract.registry(id)));
+  uniqueEmployeeIds.forEach((id, index) => wallets.set(id, members[index].wallet));
+
+  const list: PayrollRecord[] = [];
+  await Promise.all(batches.map(async (batch, index) => {
+    const batchId = batchIds[index];
+    const status: PayrollRecord["status"] = batch.isExecuted
+      ? "processed"
+      : latest.length > 0 && Number(latest[index]) !== batchId ? "failed" : "pending";
+    const entries = await Promise.all(employeeIds[index].map(id => payrollContract.getEmployeeData(batchId, id)));
+    entries.forEach((entry, i) => {
+      if (!entry.isActive) return;
+      const employeeId = employeeIds[index][i].toString();
+      const submission = submissions.get(`${batchId}-${employeeId}`);
+      list.push({
+        id: `${batchId}-${employeeId}`,
+        encryptedSalary: entry.encryptedSalary,
+        encryptedInvestment: entry.encryptedInvestmentPercentage,
+        timestamp: submission?.timestamp ?? openedAt.get(batchId) ?? 0,
+        employee: wallets.get(employeeId) || ethers.ZeroAddress,
+        status,
+        employeeId,
+        txHash: submission?.txHash,
+        batchId,
+        currency: batch.currency,
+        decimals: Number(batch.decimals),
+        payrollAddress
+      });
+    });
+  }));
+  return list.sort(byNewest);
+}
+
+// Also the adapter namespace those records are written in
+export const LEGACY_COLLECTION = "payroll";
+// Mirrors UniversalAdapter.MAX_BATCH_SIZE
+const ADAPTER_BATCH_SIZE = 50;
+
+// Keys appended through appendRecord or tracked later are enumerated on-chain. Other keys are only listed in the
+// "payroll_keys" value, and adapters deployed before that have neither enumeration nor batched reads.
+async function loadLegacyKeys(adapterContract: ethers.Contract): Promise<{ keys: string[]; batched: boolean }> {
+  const keys: string[] = [];
+  let batched = true;
+  try {
+    const count = Number(await adapterContract.keyCount(LEGACY_COLLECTION));
+    for (let offset = 0; offset < count; offset += ADAPTER_BATCH_SIZE) {
+      keys.push(...await adapterContract.getKeys(LEGACY_COLLECTION, offset, ADAPTER_BATCH_SIZE));
+    }
+  } catch (e) { batched = false; }
+
+  const keysBytes: string = await adapterContract.getData(`${LEGACY_COLLECTION}_keys`);
+  if (keysBytes.length > 2) {
+    try {
+      const keysStr = ethers.toUtf8String(keysBytes);
+      if (keysStr.trim() !== '') keys.push(...JSON.parse(keysStr));
+    } catch (e) { console.error("Error parsing payroll keys:", e); }
+  }
+  return { keys: [...new Set(keys)], batched };
+}
+
+// UniversalAdapter.RecordStatus, by enum value
+const RECORD_STATUSES = [null, "pending", "processed", "failed"] as const;
+export const recordStatusCode = (status: PayrollRecord["status"]): number => RECORD_STATUSES.indexOf(status);
+export const recordStatusName = (code: number | bigint): string => RECORD_STATUSES[Number(code)] ?? "untracked";
+
+// Mirrors UniversalAdapter.setRecordStatus: processors settle pending records, the namespace owner reopens failed ones
+export const STATUS_TRANSITIONS: Record<PayrollRecord["status"], PayrollRecord["status"][]> = {
+  pending: ["processed", "failed"],
+  processed: [],
+  failed: ["pending"]
+};
+
+export interface StatusRights {
+  isOwner: boolean;
+  canProcess: boolean;
+}
+
+// What account may do to the statuses of legacy records, or null on adapters deployed before record statuses
+export async function loadStatusRights(adapterContract: ethers.Contract, account: string): Promise<StatusRights | null> {
+  try {
+    const [owner, canProcess] = await Promise.all([
+      adapterContract.namespaceOwner(LEGACY_COLLECTION),
+      adapterContract.canProcess(LEGACY_COLLECTION, account)
+    ]);
+    return { isOwner: normAddr(owner) === normAddr(account), canProcess };
+  } catch (e) { return null; }
+}
+
+export const canChangeStatus = (rights: StatusRights, to: PayrollRecord["status"]): boolean =>
+  to === "pending" ? rights.isOwner : rights.canProcess;
+
+export async function loadStatusHistory(adapterContract: ethers.Contract, key: string): Promise<StatusChange[]> {
+  try {
+    const history = await adapterContract.getStatusHistory(LEGACY_COLLECTION, key);
+    return history.map((change: any) => ({
+      status: recordStatusName(change.status) as PayrollRecord["status"],
+      actor: change.actor,
+      changedAt: Number(change.changedAt)
+    }));
+  } catch (e) { return []; }
+}
+
+// Statuses kept by the adapter replace the ones written in the blobs; read a page of records per call
+async function applyTrackedStatuses(adapterContract: ethers.Contract, list: PayrollRecord[]): Promise<void> {
+  try {
+    for (let offset = 0; offset < list.length; offset += ADAPTER_BATCH_SIZE) {
+      const page = list.slice(offset, offset + ADAPTER_BATCH_SIZE);
+      const codes: bigint[] = await adapterContract.recordStatuses(LEGACY_COLLECTION, page.map(record => record.id));
+      codes.forEach((code, i) => {
+        if (Number(code) === 0) return;
+        page[i].status = recordStatusName(code) as PayrollRecord["status"];
+        page[i].statusTracked = true;
+      });
+    }
+  } catch (e) { console.error("Error loading record statuses:", e); }
+}
+
+// Explains why account cannot write to an adapter namespace, or null when it can. Adapters deployed before
+// namespaces had no write checks.
+export async function adapterWriteError(adapterContract: ethers.Contract, namespace: string, account: string): Promise<string | null> {
+  let owner: string;
+  try { owner = await adapterContract.namespaceOwner(namespace); }
+  catch (e) { return null; }
+  if (await adapterContract.canWrite(namespace, account)) return null;
+  if (owner === ethers.ZeroAddress) return `Nobody owns the "${namespace}" namespace of the record store yet; it has to be claimed before records can be written.`;
+  return `This wallet cannot write to the "${namespace}" namespace of the record store. Ask its owner ${owner.substring(0, 6)}...${owner.substring(38)} to add ${account.substring(0, 6)}...${account.substring(38)} as a writer.`;
+}
+
+const parseLegacyRecord = (key: string, recordBytes: string): PayrollRecord | null => {
+  try {
+    const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
+    return {
+      id: key,
+      encryptedSalary: recordData.salary,
+      encryptedInvestment: recordData.investment,
+      timestamp: recordData.timestamp,
+      employee: recordData.employee,
+      status: recordData.status || "pending",
+      investmentStrategy: recordData.investmentStrategy || "ETH",
+      employeeId: recordData.employeeId,
+      txHash: recordData.txHash,
+      batchId: recordData.batchId,
+      currency: recordData.currency,
+      decimals: recordData.decimals,
+      payrollAddress: recordData.payrollAddress
+    };
+  } catch (e) {
+    console.error(`Error parsing record data for ${key}:`, e);
+    return null;
+  }
+};
+
+// Read-only: the app no longer writes these blobs. Their statuses are whatever was last written, unless the
+// adapter tracks the record.
+// The indexer has the newest value of every payroll_ key; otherwise the keys are listed and read in batches.
+export async function loadLegacyRecords(adapterContract: ethers.Contract, payrollAddress: string): Promise<PayrollRecord[]> {
+  let list: PayrollRecord[] | null = null;
+  try {
+    const indexed = await fetchAdapterData(await adapterContract.getAddress(), `${LEGACY_COLLECTION}_`);
+    if (indexed) {
+      list = indexed
+        .filter(entry => entry.key !== `${LEGACY_COLLECTION}_keys` && entry.args.value !== "0x")
+        .map(entry => parseLegacyRecord(entry.key.substring(LEGACY_COLLECTION.length + 1), String(entry.args.value)))
+        .filter((record): record is PayrollRecord => record !== null);
+    }
+  } catch (e) { console.error("Error loading indexed adapter data:", e); }
+
+  if (list === null) {
+    const { keys, batched } = await loadLegacyKeys(adapterContract);
+    list = [];
+    if (batched) {
+      for (let offset = 0; offset < keys.length; offset += ADAPTER_BATCH_SIZE) {
+        const page = keys.slice(offset, offset + ADAPTER_BATCH_SIZE);
+        const values: string[] = await adapterContract.getDataBatch(page.map(key => `${LEGACY_COLLECTION}_${key}`));
+        values.forEach((recordBytes, i) => {
+          const record = recordBytes.length > 2 ? parseLegacyRecord(page[i], recordBytes) : null;
+          if (record) list!.push(record);
+        });
+      }
+    } else {
+      for (const key of keys) {
+        try {
+          const recordBytes: string = await adapterContract.getData(`${LEGACY_COLLECTION}_${key}`);
+          const record = recordBytes.length > 2 ? parseLegacyRecord(key, recordBytes) : null;
+          if (record) list.push(record);
+        } catch (e) { console.error(`Error loading record ${key}:`, e); }
+      }
+    }
+  }
+  const records = list.filter(record => normAddr(recordPayrollAddress(record)) === normAddr(payrollAddress));
+  await applyTrackedStatuses(adapterContract, records);
+  return records.sort(byNewest);
+}
@@ -0,0 +1,119 @@
+// indexer/src/api.ts
+import http from "http";
+import { ethers } from "ethers";
+import { IndexerDb, PageQuery } from "./db";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+const intParam = (
+  params: URLSearchParams,
+  name: string,
+): number | undefined => {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0)
+    throw new BadRequestError(`${name} must be a non-negative integer`);
+  return parsed;
+};
+
+// IDs are matched as the canonical decimal strings the indexer stores
+const uintParam = (
+  params: URLSearchParams,
+  name: string,
+): string | undefined => {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+  if (!/^\d+$/.test(value) || BigInt(value) > ethers.MaxUint256)
+    throw new BadRequestError(`${name} must be a uint256`);
+  return BigInt(value).toString();
+};
+
+const addressParam = (
+  params: URLSearchParams,
+  name: string,
+): string | undefined => {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+  if (!ethers.isAddress(value))
+    throw new BadRequestError(`${name} must be an address`);
+  return ethers.getAddress(value);
+};
+
+// Same (offset, limit) paging as the contracts' list views, oldest first unless order=desc
+const pageParams = (params: URLSearchParams): PageQuery => {
+  const limit = intParam(params, "limit") ?? DEFAULT_PAGE_SIZE;
+  if (limit === 0 || limit > MAX_PAGE_SIZE)
+    throw new BadRequestError(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  const order = params.get("order") || "asc";
+  if (order !== "asc" && order !== "desc")
+    throw new BadRequestError("order must be asc or desc");
+  return { offset: intParam(params, "offset") ?? 0, limit, order };
+};
+
+type Route = (params: URLSearchParams) => unknown;
+
+export function createApiServer(db: IndexerDb): http.Server {
+  const routes: Record<string, Route> = {
+    "/health": () => ({ ...db.target(), lastBlock: db.lastBlock() }),
+    "/batches": (params) => db.listBatches(pageParams(params)),
+    "/submissions": (params) =>
+      db.listSubmissions(
+        {
+          batchId: uintParam(params, "batchId"),
+          employeeId: uintParam(params, "employeeId"),
+          provider: addressParam(params, "provider"),
+        },
+        pageParams(params),
+      ),
+    "/decryptions": (params) =>
+      db.listDecryptions(
+        { batchId: uintParam(params, "batchId") },
+        pageParams(params),
+      ),
+    // latest=true keeps only the newest write of each key, i.e. the adapter's current state
+    "/data": (params) =>
+      db.listData(
+        {
+          key: params.get("key") || undefined,
+          prefix: params.get("prefix") || undefined,
+          sender: addressParam(params, "sender"),
+          latest: params.get("latest") === "true",
+        },
+        pageParams(params),
+      ),
+  };
+
+  return http.createServer((req, res) => {
+    // The dashboard is served from another origin
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Content-Type", "application/json");
+    const send = (status: number, body: unknown) => {
+      res.statusCode = status;
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "OPTIONS") return send(204, null);
+    if (req.method !== "GET")
+      return send(405, { error: "Only GET is supported" });
+
+    const url = new URL(req.url || "/", "http://localhost");
+    const route = routes[url.pathname];
+    if (!route) return send(404, { error: `No route ${url.pathname}` });
+    try {
+      send(200, route(url.searchParams));
+    } catch (e) {
+      if (e instanceof BadRequestError) return send(400, { error: e.message });
+      console.error(`Request ${url.pathname} failed:`, e);
+      send(500, { error: "Internal error" });
+    }
+  });
+}
@@ -0,0 +1,82 @@
+// indexer/src/config.ts
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  payrollAddress: string;
+  adapterAddress: string;
+  startBlock: number;
+  confirmations: number; // Blocks behind head the indexer stays; 0 follows the head and relies on reorg handling alone
+  reorgDepth: number; // How far back stored block hashes are compared against the chain
+  maxBlockRange: number; // Blocks per eth_getLogs call
+  pollIntervalMs: number;
+  dbPath: string;
+  port: number;
+}
+
+// Addresses default to the ones deploy/deploy.ts wrote for the web app
+const FRONTEND_CONFIG = path.join(
+  __dirname,
+  "..",
+  "..",
+  "frontend",
+  "web",
+  "src",
+  "config.json",
+);
+
+const readFrontendConfig = (): Record<string, string> => {
+  try {
+    return JSON.parse(fs.readFileSync(FRONTEND_CONFIG, "utf-8"));
+  } catch {
+    return {};
+  }
+};
+
+const intFromEnv = (
+  value: string | undefined,
+  fallback: number,
+  name: string,
+): number => {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0)
+    throw new Error(`${name} must be a non-negative integer`);
+  return parsed;
+};
+
+const addressFromEnv = (value: string | undefined, name: string): string => {
+  if (!value || !ethers.isAddress(value) || value === ethers.ZeroAddress) {
+    throw new Error(`${name} is not set to a contract address`);
+  }
+  return ethers.getAddress(value);
+};
+
+export function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): IndexerConfig {
+  const frontend = readFrontendConfig();
+  return {
+    rpcUrl: env.INDEXER_RPC_URL || "http://127.0.0.1:8545",
+    payrollAddress: addressFromEnv(
+      env.PAYROLL_ADDRESS || frontend.payrollContractAddress,
+      "PAYROLL_ADDRESS",
+    ),
+    adapterAddress: addressFromEnv(
+      env.ADAPTER_ADDRESS || frontend.contractAddress,
+      "ADAPTER_ADDRESS",
+    ),
+    startBlock: intFromEnv(env.START_BLOCK, 0, "START_BLOCK"),
+    confirmations: intFromEnv(env.CONFIRMATIONS, 0, "CONFIRMATIONS"),
+    reorgDepth: intFromEnv(env.REORG_DEPTH, 64, "REORG_DEPTH"),
+    maxBlockRange: Math.max(
+      1,
+      intFromEnv(env.MAX_BLOCK_RANGE, 2000, "MAX_BLOCK_RANGE"),
+    ),
+    pollIntervalMs: intFromEnv(env.POLL_INTERVAL_MS, 2000, "POLL_INTERVAL_MS"),
+    dbPath: env.INDEXER_DB || path.join(__dirname, "..", "data", "indexer.db"),
+    port: intFromEnv(env.PORT, 4000, "PORT"),
+  };
+}
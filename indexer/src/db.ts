@@ -0,0 +1,390 @@
+// indexer/src/db.ts
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+export interface BlockRow {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface EventRow {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  contract: string;
+  name: string;
+  batchId: string | null; // uint256 IDs as decimal strings, like requestId
+  employeeId: string | null;
+  requestId: string | null;
+  account: string | null; // provider of EmployeeDataSubmitted, sender of DataStored
+  dataKey: string | null;
+  args: Record<string, string | number | boolean>; // uint256 values as decimal strings
+}
+
+export interface Page<T> {
+  total: number;
+  offset: number;
+  limit: number;
+  items: T[];
+}
+
+export interface PageQuery {
+  offset: number;
+  limit: number;
+  order: "asc" | "desc";
+}
+
+export interface IndexedEvent {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+  args: Record<string, string | number | boolean>;
+}
+
+export interface DecryptionItem {
+  requestId: string;
+  batchId: string;
+  requested: IndexedEvent;
+  completed: IndexedEvent | null;
+}
+
+export class TargetMismatchError extends Error {
+  constructor(field: string, stored: string, configured: string) {
+    super(
+      `Database was built for ${field} ${stored}, not ${configured}; point INDEXER_DB at another file`,
+    );
+    this.name = "TargetMismatchError";
+  }
+}
+
+// Bumped whenever a column changes; the indexed rows are derived from the chain, so an older database is
+// emptied and synced again from START_BLOCK
+const SCHEMA_VERSION = "2";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  name TEXT NOT NULL,
+  batch_id TEXT,
+  employee_id TEXT,
+  request_id TEXT,
+  account TEXT,
+  data_key TEXT,
+  args TEXT NOT NULL,
+  UNIQUE (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_batch ON events (name, batch_id);
+CREATE INDEX IF NOT EXISTS events_employee ON events (name, employee_id);
+CREATE INDEX IF NOT EXISTS events_request ON events (name, request_id);
+CREATE INDEX IF NOT EXISTS events_key ON events (name, data_key);
+`;
+
+// Columns every event listing selects, joined with the block for its timestamp
+const EVENT_COLUMNS =
+  "e.id, e.block_number, e.log_index, e.tx_hash, e.batch_id, e.employee_id, e.request_id, e.account, e.data_key, e.args, b.timestamp";
+
+interface EventRecord {
+  id: number;
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+  batch_id: string | null;
+  employee_id: string | null;
+  request_id: string | null;
+  account: string | null;
+  data_key: string | null;
+  args: string;
+  timestamp: number;
+}
+
+const toIndexedEvent = (row: EventRecord): IndexedEvent => ({
+  blockNumber: row.block_number,
+  timestamp: row.timestamp,
+  txHash: row.tx_hash,
+  logIndex: row.log_index,
+  args: JSON.parse(row.args),
+});
+
+export class IndexerDb {
+  private readonly db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ":memory:")
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+    if (this.getMeta("schemaVersion") !== SCHEMA_VERSION) this.resetSchema();
+  }
+
+  private resetSchema() {
+    this.db.transaction(() => {
+      this.db.exec("DROP TABLE events; DROP TABLE blocks;");
+      this.db.exec(SCHEMA);
+      this.db.prepare("DELETE FROM meta WHERE key = 'lastBlock'").run();
+      this.setMeta("schemaVersion", SCHEMA_VERSION);
+    })();
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private getMeta(key: string): string | null {
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = ?")
+      .get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  private setMeta(key: string, value: string) {
+    this.db
+      .prepare(
+        "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+      )
+      .run(key, value);
+  }
+
+  // A database only ever holds one chain and one pair of contracts
+  bindTarget(target: {
+    chainId: string;
+    payrollAddress: string;
+    adapterAddress: string;
+  }) {
+    for (const [field, value] of Object.entries(target)) {
+      const stored = this.getMeta(field);
+      if (stored === null) this.setMeta(field, value);
+      else if (stored !== value)
+        throw new TargetMismatchError(field, stored, value);
+    }
+  }
+
+  target() {
+    return {
+      chainId: this.getMeta("chainId"),
+      payrollAddress: this.getMeta("payrollAddress"),
+      adapterAddress: this.getMeta("adapterAddress"),
+    };
+  }
+
+  lastBlock(): number | null {
+    const value = this.getMeta("lastBlock");
+    return value === null ? null : Number(value);
+  }
+
+  // Stored block hashes from newest to oldest, down to fromBlock
+  storedBlocksSince(fromBlock: number): BlockRow[] {
+    return this.db
+      .prepare(
+        "SELECT number, hash, timestamp FROM blocks WHERE number >= ? ORDER BY number DESC",
+      )
+      .all(fromBlock) as BlockRow[];
+  }
+
+  // Blocks and events of one synced range land together with the cursor, or not at all
+  applyRange(
+    blocks: BlockRow[],
+    events: EventRow[],
+    lastBlock: number,
+    reorgDepth: number,
+  ) {
+    const insertBlock = this.db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)",
+    );
+    const insertEvent = this.db.prepare(
+      `INSERT OR REPLACE INTO events (block_number, log_index, tx_hash, contract, name, batch_id, employee_id, request_id, account, data_key, args)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    // Hashes of blocks without events are only needed while they can still be reorged away
+    const prune = this.db.prepare(
+      "DELETE FROM blocks WHERE number < ? AND number NOT IN (SELECT block_number FROM events)",
+    );
+    this.db.transaction(() => {
+      for (const block of blocks)
+        insertBlock.run(block.number, block.hash, block.timestamp);
+      for (const event of events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.txHash,
+          event.contract,
+          event.name,
+          event.batchId,
+          event.employeeId,
+          event.requestId,
+          event.account,
+          event.dataKey,
+          JSON.stringify(event.args),
+        );
+      }
+      prune.run(lastBlock - reorgDepth);
+      this.setMeta("lastBlock", String(lastBlock));
+    })();
+  }
+
+  // Drops everything above forkBlock, the newest block still on the canonical chain
+  rollback(forkBlock: number) {
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM events WHERE block_number > ?")
+        .run(forkBlock);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(forkBlock);
+      this.setMeta("lastBlock", String(forkBlock));
+    })();
+  }
+
+  private listEvents(
+    name: string,
+    filters: Record<string, string | number | undefined>,
+    page: PageQuery,
+    latestPerKey = false,
+  ): Page<EventRecord> {
+    const clauses = ["e.name = ?"];
+    const params: (string | number)[] = [name];
+    for (const [column, value] of Object.entries(filters)) {
+      if (value === undefined) continue;
+      if (column === "data_key_prefix") {
+        clauses.push("substr(e.data_key, 1, ?) = ?");
+        params.push(String(value).length, value);
+      } else {
+        clauses.push(`e.${column} = ?`);
+        params.push(value);
+      }
+    }
+    if (latestPerKey)
+      clauses.push(
+        "e.id IN (SELECT MAX(id) FROM events WHERE name = e.name GROUP BY data_key)",
+      );
+    const where = clauses.join(" AND ");
+    const direction = page.order === "desc" ? "DESC" : "ASC";
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM events e WHERE ${where}`)
+      .get(...params) as { total: number };
+    const items = this.db
+      .prepare(
+        `SELECT ${EVENT_COLUMNS} FROM events e JOIN blocks b ON b.number = e.block_number
+         WHERE ${where} ORDER BY e.block_number ${direction}, e.log_index ${direction} LIMIT ? OFFSET ?`,
+      )
+      .all(...params, page.limit, page.offset) as EventRecord[];
+    return { total, offset: page.offset, limit: page.limit, items };
+  }
+
+  listBatches(
+    page: PageQuery,
+  ): Page<IndexedEvent & { batchId: string; submissionCount: number }> {
+    const result = this.listEvents("BatchOpened", {}, page);
+    const countSubmissions = this.db.prepare(
+      "SELECT COUNT(*) AS count FROM events WHERE name = 'EmployeeDataSubmitted' AND batch_id = ?",
+    );
+    return {
+      ...result,
+      items: result.items.map((row) => ({
+        batchId: row.batch_id!,
+        submissionCount: (
+          countSubmissions.get(row.batch_id) as { count: number }
+        ).count,
+        ...toIndexedEvent(row),
+      })),
+    };
+  }
+
+  listSubmissions(
+    filters: { batchId?: string; employeeId?: string; provider?: string },
+    page: PageQuery,
+  ) {
+    const result = this.listEvents(
+      "EmployeeDataSubmitted",
+      {
+        batch_id: filters.batchId,
+        employee_id: filters.employeeId,
+        account: filters.provider,
+      },
+      page,
+    );
+    return {
+      ...result,
+      items: result.items.map((row) => ({
+        batchId: row.batch_id!,
+        employeeId: row.employee_id!,
+        provider: row.account!,
+        ...toIndexedEvent(row),
+      })),
+    };
+  }
+
+  // One item per request, with its completion once the oracle has answered
+  listDecryptions(
+    filters: { batchId?: string },
+    page: PageQuery,
+  ): Page<DecryptionItem> {
+    const result = this.listEvents(
+      "DecryptionRequested",
+      { batch_id: filters.batchId },
+      page,
+    );
+    const findCompletion = this.db.prepare(
+      `SELECT ${EVENT_COLUMNS} FROM events e JOIN blocks b ON b.number = e.block_number
+       WHERE e.name = 'DecryptionCompleted' AND e.request_id = ? ORDER BY e.block_number DESC LIMIT 1`,
+    );
+    return {
+      ...result,
+      items: result.items.map((row) => {
+        const completion = findCompletion.get(row.request_id) as
+          | EventRecord
+          | undefined;
+        return {
+          requestId: row.request_id!,
+          batchId: row.batch_id!,
+          requested: toIndexedEvent(row),
+          completed: completion ? toIndexedEvent(completion) : null,
+        };
+      }),
+    };
+  }
+
+  listData(
+    filters: {
+      key?: string;
+      prefix?: string;
+      sender?: string;
+      latest?: boolean;
+    },
+    page: PageQuery,
+  ) {
+    const result = this.listEvents(
+      "DataStored",
+      {
+        data_key: filters.key,
+        data_key_prefix: filters.prefix,
+        account: filters.sender,
+      },
+      page,
+      filters.latest,
+    );
+    return {
+      ...result,
+      items: result.items.map((row) => ({
+        key: row.data_key!,
+        sender: row.account!,
+        ...toIndexedEvent(row),
+      })),
+    };
+  }
+}
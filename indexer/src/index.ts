@@ -0,0 +1,35 @@
+// indexer/src/index.ts
+import { loadConfig } from "./config";
+import { IndexerDb } from "./db";
+import { EventSync } from "./sync";
+import { createApiServer } from "./api";
+
+async function main() {
+  const config = loadConfig();
+  const db = new IndexerDb(config.dbPath);
+  const sync = new EventSync(config, db);
+  const server = createApiServer(db);
+
+  const shutdown = () => {
+    sync.stop();
+    server.close(() => {
+      db.close();
+      process.exit(0);
+    });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  server.listen(config.port, () => {
+    console.log(`Indexer API listening on http://localhost:${config.port}`);
+  });
+  console.log(
+    `Following payroll ${config.payrollAddress} and adapter ${config.adapterAddress} on ${config.rpcUrl}`,
+  );
+  await sync.start();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
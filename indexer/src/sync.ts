@@ -0,0 +1,192 @@
+// indexer/src/sync.ts
+import { ethers } from "ethers";
+import { IndexerConfig } from "./config";
+import { BlockRow, EventRow, IndexerDb } from "./db";
+
+// Only the events the API serves; the full ABIs live in frontend/web/src/abi
+export const PAYROLL_EVENTS = new ethers.Interface([
+  "event BatchOpened(uint256 indexed batchId, string currency, uint8 decimals)",
+  "event EmployeeDataSubmitted(uint256 indexed batchId, uint256 indexed employeeId, address indexed provider)",
+  "event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId)",
+  "event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalSalary, uint256 totalInvestmentAmount, string currency, uint8 decimals, bool overflowed, uint256 invalidEntries)",
+]);
+
+export const ADAPTER_EVENTS = new ethers.Interface([
+  "event DataStored(address indexed sender, string key, bytes value)",
+]);
+
+const topicsOf = (iface: ethers.Interface): string[] => {
+  const topics: string[] = [];
+  iface.forEachEvent((event) => topics.push(event.topicHash));
+  return topics;
+};
+
+// Thrown when the chain moves under a range while it is being read; the range is retried on the next poll
+class RangeChangedError extends Error {
+  constructor(blockNumber: number) {
+    super(`Block ${blockNumber} changed while its range was being indexed`);
+    this.name = "RangeChangedError";
+  }
+}
+
+const serializeArgs = (
+  fragment: ethers.EventFragment,
+  args: ethers.Result,
+): EventRow["args"] => {
+  const serialized: EventRow["args"] = {};
+  fragment.inputs.forEach((input, i) => {
+    const value = args[i];
+    serialized[input.name] =
+      typeof value === "bigint" ? value.toString() : value;
+  });
+  return serialized;
+};
+
+export class EventSync {
+  private readonly provider: ethers.JsonRpcProvider;
+  private readonly topics = [
+    ...topicsOf(PAYROLL_EVENTS),
+    ...topicsOf(ADAPTER_EVENTS),
+  ];
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly config: IndexerConfig,
+    private readonly db: IndexerDb,
+  ) {
+    this.provider = new ethers.JsonRpcProvider(config.rpcUrl, undefined, {
+      staticNetwork: true,
+    });
+  }
+
+  async start() {
+    const network = await this.provider.getNetwork();
+    this.db.bindTarget({
+      chainId: network.chainId.toString(),
+      payrollAddress: this.config.payrollAddress,
+      adapterAddress: this.config.adapterAddress,
+    });
+    this.stopped = false;
+    await this.loop();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private async loop() {
+    try {
+      // Catch up range by range, then wait for new blocks
+      while (!this.stopped && (await this.poll())) {}
+    } catch (e) {
+      console.error(
+        "Indexing failed, retrying:",
+        e instanceof Error ? e.message : e,
+      );
+    }
+    if (!this.stopped)
+      this.timer = setTimeout(() => this.loop(), this.config.pollIntervalMs);
+  }
+
+  // Indexes one range; returns whether the indexer is still behind the chain
+  async poll(): Promise<boolean> {
+    const head =
+      (await this.provider.getBlockNumber()) - this.config.confirmations;
+    const forkBlock = await this.findForkBlock();
+    if (forkBlock !== null) {
+      console.warn(`Reorg detected, rolling back to block ${forkBlock}`);
+      this.db.rollback(forkBlock);
+    }
+
+    const lastBlock = this.db.lastBlock();
+    const fromBlock =
+      lastBlock === null ? this.config.startBlock : lastBlock + 1;
+    if (fromBlock > head) return false;
+    const toBlock = Math.min(head, fromBlock + this.config.maxBlockRange - 1);
+
+    const logs = await this.provider.getLogs({
+      address: [this.config.payrollAddress, this.config.adapterAddress],
+      topics: [this.topics],
+      fromBlock,
+      toBlock,
+    });
+
+    // Every block with events gets its hash and timestamp stored, and so does the range end to detect later reorgs
+    const blockNumbers = [
+      ...new Set([...logs.map((log) => log.blockNumber), toBlock]),
+    ];
+    const blocks: BlockRow[] = [];
+    for (const blockNumber of blockNumbers) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (!block || !block.hash) throw new RangeChangedError(blockNumber);
+      blocks.push({
+        number: block.number,
+        hash: block.hash,
+        timestamp: block.timestamp,
+      });
+    }
+    const hashes = new Map(blocks.map((block) => [block.number, block.hash]));
+    const events = logs.map((log) => {
+      if (hashes.get(log.blockNumber) !== log.blockHash)
+        throw new RangeChangedError(log.blockNumber);
+      return this.toEventRow(log);
+    });
+
+    this.db.applyRange(
+      blocks,
+      events.filter((event): event is EventRow => event !== null),
+      toBlock,
+      this.config.reorgDepth,
+    );
+    return toBlock < head;
+  }
+
+  // Walks stored hashes back from the cursor until one still matches the chain; null while nothing was reorged
+  private async findForkBlock(): Promise<number | null> {
+    const lastBlock = this.db.lastBlock();
+    if (lastBlock === null) return null;
+    const stored = this.db.storedBlocksSince(
+      lastBlock - this.config.reorgDepth,
+    );
+    for (const block of stored) {
+      const onChain = await this.provider.getBlock(block.number);
+      if (onChain && onChain.hash === block.hash)
+        return block.number === lastBlock ? null : block.number;
+    }
+    // Deeper than the window: start over from the oldest block that can no longer change
+    return Math.max(
+      this.config.startBlock - 1,
+      lastBlock - this.config.reorgDepth - 1,
+    );
+  }
+
+  private toEventRow(log: ethers.Log): EventRow | null {
+    const isPayroll =
+      log.address.toLowerCase() === this.config.payrollAddress.toLowerCase();
+    const parsed = (isPayroll ? PAYROLL_EVENTS : ADAPTER_EVENTS).parseLog(log);
+    if (!parsed) return null;
+    const args = parsed.args;
+    const has = (name: string) =>
+      parsed.fragment.inputs.some((input) => input.name === name);
+    return {
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+      contract: isPayroll ? "StealthPayrollFHE" : "UniversalAdapter",
+      name: parsed.name,
+      batchId: has("batchId") ? args.batchId.toString() : null,
+      employeeId: has("employeeId") ? args.employeeId.toString() : null,
+      requestId: has("requestId") ? args.requestId.toString() : null,
+      account: has("provider")
+        ? args.provider
+        : has("sender")
+          ? args.sender
+          : null,
+      dataKey: has("key") ? args.key : null,
+      args: serializeArgs(parsed.fragment, args),
+    };
+  }
+}
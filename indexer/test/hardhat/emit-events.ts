@@ -0,0 +1,55 @@
+// Run with `hardhat run --network localhost` from the repository root. Deploys the payroll and adapter and emits
+// one of each indexed event, then prints the addresses for the indexer test.
+import { ethers, fhevm } from "hardhat";
+
+async function main() {
+  await fhevm.initializeCLIApi();
+  const [admin, approver, employee] = await ethers.getSigners();
+
+  const deductions = await ethers.deployContract("PayrollDeductions");
+  const payrollFactory = await ethers.getContractFactory("StealthPayrollFHE", {
+    libraries: { PayrollDeductions: await deductions.getAddress() },
+  });
+  const payroll = await payrollFactory.deploy(admin.address);
+  const payrollAddress = await payroll.getAddress();
+  const adapter = await ethers.deployContract("UniversalAdapter", [
+    ["fixture"],
+  ]);
+  const adapterAddress = await adapter.getAddress();
+
+  await (await payroll.setCooldown(1)).wait();
+  await (
+    await payroll.grantRole(await payroll.APPROVER_ROLE(), approver.address)
+  ).wait();
+  await (await payroll.onboardEmployee(1, employee.address)).wait();
+  await (await payroll.openBatch("USD", 6)).wait();
+  await (await payroll.carryForward(1)).wait();
+  const batchId = await payroll.currentBatchId();
+
+  const input = await fhevm
+    .createEncryptedInput(payrollAddress, admin.address)
+    .add64(1_000_000n)
+    .add32(0)
+    .encrypt();
+  await (
+    await payroll.submitEmployeeData(
+      1,
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    )
+  ).wait();
+  await (await payroll.requestBatchSummaryDecryption(batchId)).wait();
+  await fhevm.awaitDecryptionOracle();
+
+  await (await adapter.setData("fixture_a", ethers.toUtf8Bytes("a"))).wait();
+
+  console.log(
+    `INDEXER_FIXTURE ${JSON.stringify({ payrollAddress, adapterAddress })}`,
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,298 @@
+// indexer/test/indexer.test.ts
+import assert from "assert/strict";
+import { ChildProcess, execFile, spawn } from "child_process";
+import fs from "fs";
+import http from "http";
+import net from "net";
+import os from "os";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { AddressInfo } from "net";
+import { ethers } from "ethers";
+import { createApiServer } from "../src/api";
+import { IndexerConfig } from "../src/config";
+import { IndexerDb } from "../src/db";
+import { EventSync } from "../src/sync";
+
+// Compiled to indexer/dist-test/test
+const REPO_ROOT = path.join(__dirname, "..", "..", "..");
+const HARDHAT_CLI = path.join(
+  REPO_ROOT,
+  "node_modules",
+  "hardhat",
+  "internal",
+  "cli",
+  "cli.js",
+);
+const FIXTURE_SCRIPT = path.join(
+  "indexer",
+  "test",
+  "hardhat",
+  "emit-events.ts",
+);
+const RPC_PORT = 8545;
+const RPC_URL = `http://127.0.0.1:${RPC_PORT}`;
+
+const portInUse = (port: number) =>
+  new Promise<boolean>((resolve) => {
+    const socket = net.connect(port, "127.0.0.1");
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once("error", () => resolve(false));
+  });
+
+// Resolves once the node prints its RPC address; compiling the contracts comes first
+const startNode = () =>
+  new Promise<ChildProcess>((resolve, reject) => {
+    const node = spawn(process.execPath, [HARDHAT_CLI, "node"], {
+      cwd: REPO_ROOT,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let output = "";
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes("Started HTTP")) resolve(node);
+    };
+    node.stdout!.on("data", onData);
+    node.stderr!.on("data", onData);
+    node.once("exit", (code) =>
+      reject(new Error(`Hardhat node exited with ${code}:\n${output}`)),
+    );
+  });
+
+const runFixture = () =>
+  new Promise<{ payrollAddress: string; adapterAddress: string }>(
+    (resolve, reject) => {
+      execFile(
+        process.execPath,
+        [HARDHAT_CLI, "run", "--network", "localhost", FIXTURE_SCRIPT],
+        { cwd: REPO_ROOT, maxBuffer: 16 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          const line = stdout
+            .split("\n")
+            .find((l) => l.startsWith("INDEXER_FIXTURE "));
+          if (error || !line)
+            return reject(
+              new Error(`Fixture script failed:\n${stdout}\n${stderr}`),
+            );
+          resolve(JSON.parse(line.slice("INDEXER_FIXTURE ".length)));
+        },
+      );
+    },
+  );
+
+describe("indexer against a Hardhat node", { timeout: 900_000 }, () => {
+  let node: ChildProcess | undefined;
+  let provider: ethers.JsonRpcProvider;
+  let db: IndexerDb;
+  let sync: EventSync;
+  let server: http.Server;
+  let apiUrl: string;
+  let adapter: ethers.Contract;
+  let dbDir: string;
+
+  before(async () => {
+    assert.equal(
+      await portInUse(RPC_PORT),
+      false,
+      `Port ${RPC_PORT} is taken; stop the running node first`,
+    );
+    node = await startNode();
+    const fixture = await runFixture();
+
+    provider = new ethers.JsonRpcProvider(RPC_URL, undefined, {
+      staticNetwork: true,
+    });
+    adapter = new ethers.Contract(
+      fixture.adapterAddress,
+      ["function setData(string key, bytes value)"],
+      await provider.getSigner(0),
+    );
+
+    dbDir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-test-"));
+    const config: IndexerConfig = {
+      rpcUrl: RPC_URL,
+      payrollAddress: fixture.payrollAddress,
+      adapterAddress: fixture.adapterAddress,
+      startBlock: 0,
+      confirmations: 0,
+      reorgDepth: 64,
+      // Several ranges, so the cursor is exercised as well
+      maxBlockRange: 5,
+      pollIntervalMs: 0,
+      dbPath: path.join(dbDir, "indexer.db"),
+      port: 0,
+    };
+    db = new IndexerDb(config.dbPath);
+    db.bindTarget({
+      chainId: (await provider.getNetwork()).chainId.toString(),
+      payrollAddress: config.payrollAddress,
+      adapterAddress: config.adapterAddress,
+    });
+    sync = new EventSync(config, db);
+    server = createApiServer(db);
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    if (server) await new Promise((resolve) => server.close(resolve));
+    db?.close();
+    provider?.destroy();
+    if (dbDir) fs.rmSync(dbDir, { recursive: true, force: true });
+    node?.kill();
+  });
+
+  // The provider caches the head for a moment, so a poll right after a transaction may not see its block yet
+  const catchUp = async (toBlock: number) => {
+    while ((await sync.poll()) || (db.lastBlock() ?? -1) < toBlock) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  };
+
+  // Responses are checked field by field, so they stay untyped
+  const get = async (route: string): Promise<any> => {
+    const res = await fetch(`${apiUrl}${route}`);
+    assert.equal(res.status, 200, `${route} answered ${res.status}`);
+    return res.json();
+  };
+
+  // Returns the block the write landed in
+  const setData = async (key: string, value: string): Promise<number> => {
+    const receipt = await (
+      await adapter.setData(key, ethers.toUtf8Bytes(value))
+    ).wait();
+    return receipt.blockNumber;
+  };
+
+  it("serves every indexed event", async () => {
+    await catchUp(await provider.getBlockNumber());
+
+    const batches = await get("/batches");
+    assert.equal(batches.total, 1);
+    assert.equal(batches.items[0].args.currency, "USD");
+    assert.equal(batches.items[0].submissionCount, 1);
+
+    const submissions = await get(
+      `/submissions?batchId=${batches.items[0].batchId}`,
+    );
+    assert.equal(submissions.total, 1);
+    assert.equal(submissions.items[0].employeeId, "1");
+
+    const decryptions = await get("/decryptions");
+    assert.equal(decryptions.total, 1);
+    assert.notEqual(decryptions.items[0].completed, null);
+    assert.equal(decryptions.items[0].completed.args.totalSalary, "1000000");
+
+    const data = await get("/data?key=fixture_a");
+    assert.equal(data.total, 1);
+    assert.equal(
+      data.items[0].args.value,
+      ethers.hexlify(ethers.toUtf8Bytes("a")),
+    );
+  });
+
+  it("pages listings", async () => {
+    await setData("fixture_b", "b");
+    await catchUp(await setData("fixture_a", "a2"));
+
+    const first = await get("/data?limit=2");
+    assert.deepEqual(
+      {
+        total: first.total,
+        offset: first.offset,
+        limit: first.limit,
+        keys: first.items.map((item: any) => item.key),
+      },
+      { total: 3, offset: 0, limit: 2, keys: ["fixture_a", "fixture_b"] },
+    );
+    const second = await get("/data?offset=2&limit=2");
+    assert.deepEqual(
+      second.items.map((item: any) => item.key),
+      ["fixture_a"],
+    );
+    const newest = await get("/data?limit=1&order=desc");
+    assert.equal(
+      newest.items[0].args.value,
+      ethers.hexlify(ethers.toUtf8Bytes("a2")),
+    );
+    const latest = await get("/data?latest=true");
+    assert.deepEqual(latest.items.map((item: any) => item.key).sort(), [
+      "fixture_a",
+      "fixture_b",
+    ]);
+
+    const res = await fetch(`${apiUrl}/data?limit=0`);
+    assert.equal(res.status, 400);
+  });
+
+  it("drops events of blocks that were reorged out", async () => {
+    const snapshot = await provider.send("evm_snapshot", []);
+    const orphanBlock = await setData("fixture_orphan", "x");
+    await catchUp(orphanBlock);
+    assert.equal((await get("/data?key=fixture_orphan")).total, 1);
+
+    // Replaces the orphaned block with one at the same height, and mines one more so the indexer has to move past it
+    assert.equal(await provider.send("evm_revert", [snapshot]), true);
+    assert.equal(await setData("fixture_c", "c"), orphanBlock);
+    await provider.send("evm_mine", []);
+    await catchUp(orphanBlock + 1);
+
+    assert.equal((await get("/data?key=fixture_orphan")).total, 0);
+    assert.equal((await get("/data?key=fixture_c")).total, 1);
+    assert.equal((await get("/health")).lastBlock, orphanBlock + 1);
+  });
+});
+
+describe("indexer database", () => {
+  // Above Number.MAX_SAFE_INTEGER, where a JS number would round to ...992
+  const LARGE_ID = "9007199254740993";
+
+  it("keeps batch and employee IDs exact", () => {
+    const db = new IndexerDb(":memory:");
+    try {
+      db.applyRange(
+        [{ number: 1, hash: ethers.ZeroHash, timestamp: 1 }],
+        [
+          {
+            blockNumber: 1,
+            logIndex: 0,
+            txHash: ethers.ZeroHash,
+            contract: "StealthPayrollFHE",
+            name: "EmployeeDataSubmitted",
+            batchId: LARGE_ID,
+            employeeId: LARGE_ID,
+            requestId: null,
+            account: ethers.ZeroAddress,
+            dataKey: null,
+            args: {
+              batchId: LARGE_ID,
+              employeeId: LARGE_ID,
+              provider: ethers.ZeroAddress,
+            },
+          },
+        ],
+        1,
+        64,
+      );
+      const page = { offset: 0, limit: 10, order: "asc" as const };
+      const submissions = db.listSubmissions(
+        { batchId: LARGE_ID, employeeId: LARGE_ID },
+        page,
+      );
+      assert.equal(submissions.total, 1);
+      assert.equal(submissions.items[0].batchId, LARGE_ID);
+      assert.equal(submissions.items[0].employeeId, LARGE_ID);
+      assert.equal(
+        db.listSubmissions({ batchId: "9007199254740992" }, page).total,
+        0,
+      );
+    } finally {
+      db.close();
+    }
+  });
+});
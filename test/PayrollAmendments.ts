@@ -0,0 +1,168 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  Signers,
+  approveAndClose,
+  connect,
+  deployPayroll,
+  getSigners,
+  onboard,
+  submitSalaries,
+} from "./fixtures";
+
+const SALARIES = [1_000_000n, 2_000_000n];
+const REASON = "Wrong salary for employee 1";
+
+describe("PayrollAmendments", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let payrollAddress: string;
+  let amendments: Contract;
+  let batchId: bigint;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll, payrollAddress } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, SALARIES.length));
+    await (await payroll.openBatch("USD", 6)).wait();
+    await (await payroll.carryForward(SALARIES.length)).wait();
+    await submitSalaries(
+      payroll,
+      signers.admin,
+      SALARIES.map((salary, i) => ({
+        employeeId: i + 1,
+        salary,
+        investmentPercentage: 0,
+      })),
+    );
+    batchId = await approveAndClose(payroll, signers);
+
+    amendments = (await ethers.deployContract("PayrollAmendments", [
+      payrollAddress,
+    ])) as unknown as Contract;
+    await (
+      await payroll.grantRole(
+        await payroll.PAYROLL_MODULE_ROLE(),
+        await amendments.getAddress(),
+      )
+    ).wait();
+  });
+
+  // Opens a revision of parentBatchId that changes employee 1, carries the parent over and resubmits its salary
+  async function amend(parentBatchId: bigint, salary: bigint) {
+    await (await amendments.amendBatch(parentBatchId, [1], REASON)).wait();
+    const revisionBatchId = await payroll.currentBatchId();
+    await (await payroll.carryForward(SALARIES.length)).wait();
+    await submitSalaries(payroll, signers.admin, [
+      { employeeId: 1, salary, investmentPercentage: 0 },
+    ]);
+    return revisionBatchId;
+  }
+
+  it("supersedes the parent once the revision is closed", async function () {
+    const revisionBatchId = await amend(batchId, 1_200_000n);
+    expect(await amendments.latestApprovedBatchId(batchId)).to.equal(batchId);
+
+    await approveAndClose(payroll, signers);
+    expect(await amendments.latestApprovedBatchId(batchId)).to.equal(
+      revisionBatchId,
+    );
+    await expect(payroll.requestBatchSummaryDecryption.staticCall(batchId))
+      .to.be.revertedWithCustomError(payroll, "BatchSuperseded")
+      .withArgs(batchId, revisionBatchId);
+
+    // Employee 2 is carried over unchanged
+    const [salary] = await payroll.getEmployeeData(revisionBatchId, 2);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        salary,
+        payrollAddress,
+        signers.employees[1],
+      ),
+    ).to.equal(SALARIES[1]);
+  });
+
+  it("pays an amended batch only through its revision", async function () {
+    const revisionBatchId = await amend(batchId, 1_200_000n);
+    await expect(payroll.executeBatch.staticCall(batchId, SALARIES.length))
+      .to.be.revertedWithCustomError(payroll, "BatchSuperseded")
+      .withArgs(batchId, revisionBatchId);
+  });
+
+  it("accepts changes only for the listed employees", async function () {
+    await amend(batchId, 1_200_000n);
+    // A static call runs in the block of the last submission, which is still within its cooldown
+    await time.increase(1);
+    const input = await fhevm
+      .createEncryptedInput(payrollAddress, signers.admin.address)
+      .add64(1n)
+      .add32(0)
+      .encrypt();
+    await expect(
+      payroll.submitEmployeeData.staticCall(
+        2,
+        input.handles[0],
+        input.handles[1],
+        input.inputProof,
+      ),
+    )
+      .to.be.revertedWithCustomError(payroll, "EmployeeNotAmended")
+      .withArgs(2n);
+  });
+
+  it("numbers revisions along the chain and amends each batch once", async function () {
+    const first = await amend(batchId, 1_200_000n);
+    await approveAndClose(payroll, signers);
+    await expect(
+      amendments.amendBatch.staticCall(batchId, [1], REASON),
+    ).to.be.revertedWithCustomError(payroll, "BatchSuperseded");
+
+    const second = await amend(first, 1_300_000n);
+    await approveAndClose(payroll, signers);
+    expect(await amendments.latestApprovedBatchId(batchId)).to.equal(second);
+
+    const history = await amendments.getRevisionHistory(second);
+    expect(
+      history.map((revision: any) => [
+        revision.parentBatchId,
+        revision.rootBatchId,
+        revision.version,
+      ]),
+    ).to.deep.equal([
+      [batchId, batchId, 1n],
+      [first, batchId, 2n],
+    ]);
+  });
+
+  it("requires a reason, an employee list and the payroll admin role", async function () {
+    await expect(
+      amendments.amendBatch.staticCall(batchId, [1], ""),
+    ).to.be.revertedWithCustomError(amendments, "EmptyReason");
+    await expect(
+      amendments.amendBatch.staticCall(batchId, [], REASON),
+    ).to.be.revertedWithCustomError(amendments, "InvalidEmployeeList");
+    await expect(
+      connect(signers.approver, amendments).amendBatch.staticCall(
+        batchId,
+        [1],
+        REASON,
+      ),
+    ).to.be.revertedWithCustomError(amendments, "MissingRole");
+
+    await (await payroll.openBatch("USD", 6)).wait();
+    await expect(
+      amendments.amendBatch.staticCall(batchId, [1], REASON),
+    ).to.be.revertedWithCustomError(payroll, "BatchNotClosed");
+  });
+});
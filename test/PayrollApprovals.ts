@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { fhevm } from "hardhat";
+import {
+  Signers,
+  connect,
+  deployPayroll,
+  getSigners,
+  onboard,
+  submitSalaries,
+} from "./fixtures";
+
+describe("StealthPayrollFHE approvals", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let batchId: bigint;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, 1));
+    await (await payroll.openBatch("USD", 6)).wait();
+    await (await payroll.carryForward(1)).wait();
+    batchId = await payroll.currentBatchId();
+    await submit();
+  });
+
+  // The admin is the maker on every batch here
+  async function submit() {
+    await submitSalaries(payroll, signers.admin, [
+      { employeeId: 1, salary: 1_000_000n, investmentPercentage: 0 },
+    ]);
+  }
+
+  async function grantApprover(account: string) {
+    await (
+      await payroll.grantRole(await payroll.APPROVER_ROLE(), account)
+    ).wait();
+  }
+
+  it("refuses sign-off from an account that submitted to the batch", async function () {
+    await expect(
+      payroll.approveBatch.staticCall(batchId),
+    ).to.be.revertedWithCustomError(payroll, "SelfApproval");
+    await expect(connect(signers.approver, payroll).approveBatch(batchId))
+      .to.emit(payroll, "BatchApproved")
+      .withArgs(batchId, signers.approver.address, 1n);
+    await expect(
+      connect(signers.approver, payroll).approveBatch.staticCall(batchId),
+    ).to.be.revertedWithCustomError(payroll, "AlreadyApproved");
+  });
+
+  it("closes only once the threshold of distinct approvers is reached", async function () {
+    await grantApprover(signers.outsider.address);
+    await (await payroll.setApprovalThreshold(2)).wait();
+
+    await (
+      await connect(signers.approver, payroll).approveBatch(batchId)
+    ).wait();
+    await expect(connect(signers.approver, payroll).closeBatch.staticCall())
+      .to.be.revertedWithCustomError(payroll, "QuorumNotReached")
+      .withArgs(batchId, 1n, 2n);
+
+    await (
+      await connect(signers.outsider, payroll).approveBatch(batchId)
+    ).wait();
+    await expect(connect(signers.approver, payroll).closeBatch())
+      .to.emit(payroll, "BatchClosed")
+      .withArgs(batchId);
+  });
+
+  it("asks for fresh sign-off when the batch changes", async function () {
+    await (
+      await connect(signers.approver, payroll).approveBatch(batchId)
+    ).wait();
+    await expect(submit()).to.not.be.reverted;
+    expect(await payroll.approvalCount(batchId)).to.equal(0n);
+    await expect(connect(signers.approver, payroll).closeBatch.staticCall())
+      .to.be.revertedWithCustomError(payroll, "QuorumNotReached")
+      .withArgs(batchId, 0n, 1n);
+  });
+
+  it("stops counting sign-offs of accounts that lose the approver role", async function () {
+    await (
+      await connect(signers.approver, payroll).approveBatch(batchId)
+    ).wait();
+    await (
+      await payroll.revokeRole(
+        await payroll.APPROVER_ROLE(),
+        signers.approver.address,
+      )
+    ).wait();
+    expect(await payroll.approvalCount(batchId)).to.equal(0n);
+  });
+
+  it("lets approvers withdraw their sign-off", async function () {
+    await (
+      await connect(signers.approver, payroll).approveBatch(batchId)
+    ).wait();
+    await expect(
+      connect(signers.approver, payroll).revokeBatchApproval(batchId),
+    )
+      .to.emit(payroll, "BatchApprovalRevoked")
+      .withArgs(batchId, signers.approver.address, 0n);
+    await expect(
+      connect(signers.approver, payroll).revokeBatchApproval.staticCall(
+        batchId,
+      ),
+    ).to.be.revertedWithCustomError(payroll, "NotApproved");
+  });
+
+  it("keeps the threshold within the number of approvers", async function () {
+    await expect(
+      payroll.setApprovalThreshold.staticCall(0),
+    ).to.be.revertedWithCustomError(payroll, "InvalidThreshold");
+    // The admin and the approver hold APPROVER_ROLE
+    await expect(
+      payroll.setApprovalThreshold.staticCall(3),
+    ).to.be.revertedWithCustomError(payroll, "InvalidThreshold");
+    await expect(
+      connect(signers.approver, payroll).setApprovalThreshold.staticCall(1),
+    ).to.be.revertedWithCustomError(payroll, "MissingRole");
+  });
+
+  it("refuses to shrink the approver set below the threshold", async function () {
+    const approverRole = await payroll.APPROVER_ROLE();
+    await (await payroll.setApprovalThreshold(2)).wait();
+    await expect(
+      payroll.revokeRole.staticCall(approverRole, signers.approver.address),
+    )
+      .to.be.revertedWithCustomError(payroll, "QuorumUnreachable")
+      .withArgs(1n, 2n);
+    await expect(
+      connect(signers.approver, payroll).renounceRole.staticCall(
+        approverRole,
+        signers.approver.address,
+      ),
+    ).to.be.revertedWithCustomError(payroll, "QuorumUnreachable");
+
+    // Lowering the threshold first frees the approver to leave
+    await (await payroll.setApprovalThreshold(1)).wait();
+    await (
+      await payroll.revokeRole(approverRole, signers.approver.address)
+    ).wait();
+    await expect(
+      payroll.revokeRole.staticCall(approverRole, signers.admin.address),
+    )
+      .to.be.revertedWithCustomError(payroll, "QuorumUnreachable")
+      .withArgs(0n, 1n);
+  });
+});
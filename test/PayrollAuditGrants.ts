@@ -0,0 +1,189 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  Signers,
+  approveAndClose,
+  connect,
+  deployPayroll,
+  getSigners,
+  onboard,
+  submitSalaries,
+} from "./fixtures";
+
+const SALARIES = [1_000_000n, 2_000_000n];
+const DAY = 24 * 60 * 60;
+// PayrollDeductions.SUMMARY_CIPHERTEXTS; the first is the salary total
+const SUMMARY_CIPHERTEXTS = 10;
+
+describe("PayrollAuditGrants", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let grants: Contract;
+  let grantsAddress: string;
+  let batchId: bigint;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  // The outsider audits; grant 1 covers the closed batch and the first employee
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, SALARIES.length));
+    await (await payroll.openBatch("USD", 6)).wait();
+    await (await payroll.carryForward(SALARIES.length)).wait();
+    await submitSalaries(
+      payroll,
+      signers.admin,
+      SALARIES.map((salary, i) => ({
+        employeeId: i + 1,
+        salary,
+        investmentPercentage: 0,
+      })),
+    );
+    batchId = await approveAndClose(payroll, signers);
+
+    grants = (await ethers.deployContract("PayrollAuditGrants", [
+      await payroll.getAddress(),
+    ])) as unknown as Contract;
+    grantsAddress = await grants.getAddress();
+    await (
+      await payroll.grantRole(
+        await payroll.PAYROLL_MODULE_ROLE(),
+        grantsAddress,
+      )
+    ).wait();
+    await (
+      await grants.createGrant(
+        signers.outsider.address,
+        batchId,
+        batchId,
+        [1],
+        (await time.latest()) + 7 * DAY,
+      )
+    ).wait();
+  });
+
+  function issue(grantId = 1n, batch = batchId) {
+    return connect(signers.outsider, grants).issueCiphertexts(grantId, batch);
+  }
+
+  function simulateIssue(grantId = 1n, batch = batchId) {
+    return connect(signers.outsider, grants).issueCiphertexts.staticCall(
+      grantId,
+      batch,
+    );
+  }
+
+  function decrypt(handle: string) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      handle,
+      grantsAddress,
+      signers.outsider,
+    );
+  }
+
+  it("issues the batch aggregates and the granted employees to the auditor", async function () {
+    await expect(issue())
+      .to.emit(grants, "AuditCiphertextsIssued")
+      .withArgs(1n, batchId, signers.outsider.address);
+
+    const cts = await grants.getIssuedCiphertexts(1n, batchId);
+    expect(cts.length).to.equal(SUMMARY_CIPHERTEXTS + 7);
+    expect(await decrypt(cts[0])).to.equal(SALARIES[0] + SALARIES[1]);
+    expect(await decrypt(cts[SUMMARY_CIPHERTEXTS])).to.equal(SALARIES[0]);
+  });
+
+  it("refuses to issue once the issuance window closes and keeps what was issued before", async function () {
+    await (await issue()).wait();
+    const { issuableUntil } = await grants.getGrant(1n);
+    await time.increaseTo(issuableUntil);
+    expect(await grants.isGrantActive(1n)).to.equal(false);
+    await expect(simulateIssue())
+      .to.be.revertedWithCustomError(grants, "IssuanceClosed")
+      .withArgs(1n);
+
+    // ACL permissions are permanent, so issued handles stay decryptable
+    const cts = await grants.getIssuedCiphertexts(1n, batchId);
+    expect(await decrypt(cts[0])).to.equal(SALARIES[0] + SALARIES[1]);
+  });
+
+  it("refuses to issue after revocation and keeps what was issued before", async function () {
+    await (await issue()).wait();
+    await expect(grants.revokeGrant(1n))
+      .to.emit(grants, "AuditGrantRevoked")
+      .withArgs(1n, signers.admin.address);
+
+    await expect(simulateIssue())
+      .to.be.revertedWithCustomError(grants, "GrantRevoked")
+      .withArgs(1n);
+    await expect(
+      grants.revokeGrant.staticCall(1n),
+    ).to.be.revertedWithCustomError(grants, "GrantRevoked");
+    const cts = await grants.getIssuedCiphertexts(1n, batchId);
+    expect(await decrypt(cts[0])).to.equal(SALARIES[0] + SALARIES[1]);
+  });
+
+  it("issues only to the grantee and within the granted batches", async function () {
+    await expect(grants.issueCiphertexts.staticCall(1n, batchId))
+      .to.be.revertedWithCustomError(grants, "NotGrantee")
+      .withArgs(1n, signers.admin.address);
+    await expect(simulateIssue(1n, batchId + 1n))
+      .to.be.revertedWithCustomError(grants, "BatchOutOfRange")
+      .withArgs(1n, batchId + 1n);
+    await expect(simulateIssue(2n))
+      .to.be.revertedWithCustomError(grants, "GrantNotFound")
+      .withArgs(2n);
+  });
+
+  it("lets payroll admins grant bounded access only", async function () {
+    const now = await time.latest();
+    await expect(
+      grants.createGrant.staticCall(
+        signers.outsider.address,
+        1,
+        1,
+        [],
+        now + 91 * DAY,
+      ),
+    ).to.be.revertedWithCustomError(grants, "InvalidIssuanceWindow");
+    await expect(
+      grants.createGrant.staticCall(
+        signers.outsider.address,
+        2,
+        1,
+        [],
+        now + DAY,
+      ),
+    ).to.be.revertedWithCustomError(grants, "InvalidBatchRange");
+    await expect(
+      grants.createGrant.staticCall(
+        signers.outsider.address,
+        1,
+        1,
+        Array.from({ length: 21 }, (_, i) => i + 1),
+        now + DAY,
+      ),
+    ).to.be.revertedWithCustomError(grants, "TooManyEmployees");
+    await expect(
+      connect(signers.approver, grants).createGrant.staticCall(
+        signers.approver.address,
+        1,
+        1,
+        [],
+        now + DAY,
+      ),
+    ).to.be.revertedWithCustomError(grants, "MissingRole");
+    await expect(
+      connect(signers.approver, grants).revokeGrant.staticCall(1n),
+    ).to.be.revertedWithCustomError(grants, "MissingRole");
+  });
+});
@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  Signers,
+  approveAndClose,
+  connect,
+  deployPayroll,
+  getSigners,
+  onboard,
+  submitSalaries,
+} from "./fixtures";
+
+const MINIMUM_WAGE = 1_000_000n;
+const PAY_ROLE = 1;
+const PAY_BAND = { min: 2_000_000n, max: 3_000_000n };
+// Employee 1 has no pay role and earns below the floor; employees 2 and 3 are in the band's pay role
+const SALARIES = [900_000n, 4_000_000n, 2_500_000n];
+
+describe("PayrollCompliance", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let compliance: Contract;
+  let complianceAddress: string;
+  let batchId: bigint;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  // The outsider is the compliance officer; the compliance contract is the payroll's submission hook
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, SALARIES.length));
+
+    compliance = (await ethers.deployContract("PayrollCompliance", [
+      await payroll.getAddress(),
+    ])) as unknown as Contract;
+    complianceAddress = await compliance.getAddress();
+    await (
+      await payroll.setModule(ethers.id("PayrollCompliance"), complianceAddress)
+    ).wait();
+    await (
+      await payroll.grantRole(
+        await compliance.COMPLIANCE_ROLE(),
+        signers.outsider.address,
+      )
+    ).wait();
+
+    const floor = await fhevm
+      .createEncryptedInput(complianceAddress, signers.admin.address)
+      .add64(MINIMUM_WAGE)
+      .encrypt();
+    await (
+      await compliance.setMinimumWage("USD", floor.handles[0], floor.inputProof)
+    ).wait();
+    const band = await fhevm
+      .createEncryptedInput(complianceAddress, signers.admin.address)
+      .add64(PAY_BAND.min)
+      .add64(PAY_BAND.max)
+      .encrypt();
+    await (
+      await compliance.setPayBand(
+        "USD",
+        PAY_ROLE,
+        band.handles[0],
+        band.handles[1],
+        band.inputProof,
+      )
+    ).wait();
+    await (await compliance.setPayRole(2, PAY_ROLE)).wait();
+    await (await compliance.setPayRole(3, PAY_ROLE)).wait();
+
+    await (await payroll.openBatch("USD", 6)).wait();
+    await (await payroll.carryForward(SALARIES.length)).wait();
+    batchId = await payroll.currentBatchId();
+    await submit(SALARIES.map((salary, i) => ({ employeeId: i + 1, salary })));
+  });
+
+  function submit(entries: { employeeId: number; salary: bigint }[]) {
+    return submitSalaries(
+      payroll,
+      signers.admin,
+      entries.map((entry) => ({ ...entry, investmentPercentage: 0 })),
+    );
+  }
+
+  async function decryptViolationCount() {
+    await (
+      await connect(
+        signers.outsider,
+        compliance,
+      ).requestViolationCountDecryption(batchId)
+    ).wait();
+    await fhevm.awaitDecryptionOracle();
+    return (await compliance.complianceResults(batchId)).violationCount;
+  }
+
+  // Drills down as the compliance officer and decrypts the employee's two flags
+  async function flags(employeeId: number) {
+    await (
+      await connect(signers.outsider, compliance).drillDown(batchId, employeeId)
+    ).wait();
+    const violation = await compliance.getViolation(batchId, employeeId);
+    const decrypted: boolean[] = [];
+    for (const handle of [violation.belowMinimumWage, violation.outsidePayBand])
+      decrypted.push(
+        await fhevm.userDecryptEbool(
+          handle,
+          complianceAddress,
+          signers.outsider,
+        ),
+      );
+    return decrypted;
+  }
+
+  it("flags salaries below the minimum wage or outside their pay band", async function () {
+    expect(await flags(1)).to.deep.equal([true, false]);
+    expect(await flags(2)).to.deep.equal([false, true]);
+    expect(await flags(3)).to.deep.equal([false, false]);
+    await expect(
+      compliance.onEmployeeSubmitted.staticCall(batchId, 1, ethers.ZeroHash),
+    ).to.be.revertedWithCustomError(compliance, "OnlyPayroll");
+  });
+
+  it("decrypts the violation count of a closed batch", async function () {
+    await expect(
+      connect(
+        signers.outsider,
+        compliance,
+      ).requestViolationCountDecryption.staticCall(batchId),
+    )
+      .to.be.revertedWithCustomError(compliance, "BatchNotClosed")
+      .withArgs(batchId);
+    await approveAndClose(payroll, signers);
+
+    expect(await decryptViolationCount()).to.equal(2n);
+    expect((await compliance.complianceResults(batchId)).batchId).to.equal(
+      batchId,
+    );
+  });
+
+  it("replaces an employee's flags on resubmission instead of counting them twice", async function () {
+    // Employee 1 is brought up to the floor; employee 2 stays outside the band
+    await submit([
+      { employeeId: 1, salary: MINIMUM_WAGE },
+      { employeeId: 2, salary: 5_000_000n },
+    ]);
+    await approveAndClose(payroll, signers);
+
+    expect(await decryptViolationCount()).to.equal(1n);
+    expect(await flags(1)).to.deep.equal([false, false]);
+    expect(await flags(2)).to.deep.equal([false, true]);
+  });
+
+  it("releases individual flags to compliance officers only", async function () {
+    await expect(
+      connect(signers.approver, compliance).drillDown.staticCall(batchId, 1),
+    )
+      .to.be.revertedWithCustomError(compliance, "MissingRole")
+      .withArgs(await compliance.COMPLIANCE_ROLE(), signers.approver.address);
+    await expect(
+      connect(
+        signers.approver,
+        compliance,
+      ).requestViolationCountDecryption.staticCall(batchId),
+    ).to.be.revertedWithCustomError(compliance, "MissingRole");
+
+    await expect(connect(signers.outsider, compliance).drillDown(batchId, 1))
+      .to.emit(compliance, "ViolationDrillDown")
+      .withArgs(batchId, 1n, signers.outsider.address);
+    await expect(
+      connect(signers.outsider, compliance).drillDown.staticCall(batchId, 4),
+    )
+      .to.be.revertedWithCustomError(compliance, "EmployeeNotChecked")
+      .withArgs(batchId, 4n);
+  });
+});
@@ -0,0 +1,326 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  Signers,
+  approveAndClose,
+  connect,
+  deployPayroll,
+  deployTreasury,
+  getSigners,
+  onboard,
+  submitSalaries,
+} from "./fixtures";
+
+const OPEN_ENDED = 2n ** 64n - 1n;
+
+// Expected payslips under the rules configured below: no tax up to 1,000,000, 10% up to 3,000,000 and 25% above,
+// 5% flat withholding and a 50,000 benefit deduction
+const EXPECTED = [
+  {
+    employeeId: 1,
+    salary: 800_000n,
+    pct: 0,
+    investment: 0n,
+    tax: 0n,
+    withholding: 40_000n,
+    benefits: 50_000n,
+    netPay: 710_000n,
+  },
+  {
+    employeeId: 2,
+    salary: 2_500_000n,
+    pct: 10,
+    investment: 300_000n,
+    tax: 200_000n,
+    withholding: 150_000n,
+    benefits: 50_000n,
+    netPay: 2_300_000n,
+  },
+  {
+    employeeId: 3,
+    salary: 5_000_000n,
+    pct: 0,
+    investment: 0n,
+    tax: 700_000n,
+    withholding: 250_000n,
+    benefits: 50_000n,
+    netPay: 4_000_000n,
+  },
+  {
+    employeeId: 4,
+    salary: 1_000_000n,
+    pct: 150,
+    investment: 1_000_000n,
+    tax: 0n,
+    withholding: 0n,
+    benefits: 0n,
+    netPay: 0n,
+  },
+  {
+    employeeId: 5,
+    salary: 3_000_000n,
+    pct: 20,
+    investment: 600_000n,
+    tax: 200_000n,
+    withholding: 150_000n,
+    benefits: 50_000n,
+    netPay: 2_000_000n,
+  },
+];
+const BONUS = 500_000n; // Credited to employee 2, whose payslip above includes it
+
+describe("PayrollDeductions", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let payrollAddress: string;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll, payrollAddress } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, EXPECTED.length));
+
+    await (
+      await payroll.setTaxBrackets(
+        [1_000_000n, 2_000_000n, OPEN_ENDED],
+        [0, 1000, 2500],
+      )
+    ).wait();
+    await (
+      await payroll.setWithholdingRules(["Pension", "Health"], [300, 200])
+    ).wait();
+    const benefits = await fhevm
+      .createEncryptedInput(payrollAddress, signers.admin.address)
+      .add64(50_000n)
+      .encrypt();
+    await (
+      await payroll.setBenefitDeductions(
+        ["Dental"],
+        [benefits.handles[0]],
+        benefits.inputProof,
+      )
+    ).wait();
+    await (await payroll.openBatch("USD", 6)).wait();
+    // Nobody has a salary on file yet, so carrying forward only walks the registry
+    await (await payroll.carryForward(EXPECTED.length)).wait();
+  });
+
+  async function submitExpected() {
+    // A resubmission replaces the employee's earlier entry in the running totals
+    await submitSalaries(payroll, signers.admin, [
+      { employeeId: 1, salary: 900_000n, investmentPercentage: 5 },
+    ]);
+    await submitSalaries(payroll, signers.admin, [
+      {
+        employeeId: 1,
+        salary: EXPECTED[0].salary,
+        investmentPercentage: EXPECTED[0].pct,
+      },
+      {
+        employeeId: 2,
+        salary: EXPECTED[1].salary,
+        investmentPercentage: EXPECTED[1].pct,
+      },
+    ]);
+    await submitSalaries(payroll, signers.admin, [
+      {
+        employeeId: 3,
+        salary: EXPECTED[2].salary,
+        investmentPercentage: EXPECTED[2].pct,
+      },
+      {
+        employeeId: 4,
+        salary: EXPECTED[3].salary,
+        investmentPercentage: EXPECTED[3].pct,
+      },
+    ]);
+    await submitSalaries(payroll, signers.admin, [
+      {
+        employeeId: 5,
+        salary: EXPECTED[4].salary,
+        investmentPercentage: EXPECTED[4].pct,
+      },
+    ]);
+
+    const bonus = await fhevm
+      .createEncryptedInput(payrollAddress, signers.admin.address)
+      .add64(BONUS)
+      .addBool(false)
+      .encrypt();
+    await (
+      await payroll.submitAdjustment(
+        2,
+        bonus.handles[0],
+        bonus.handles[1],
+        0,
+        bonus.inputProof,
+      )
+    ).wait();
+  }
+
+  async function decryptPayout(batchId: bigint, index: number) {
+    const payout = await payroll.getEmployeePayout(
+      batchId,
+      EXPECTED[index].employeeId,
+    );
+    const employee = signers.employees[index];
+    const decrypt = (handle: string) =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        handle,
+        payrollAddress,
+        employee,
+      );
+    return {
+      investment: await decrypt(payout.investment),
+      tax: await decrypt(payout.tax),
+      withholding: await decrypt(payout.withholding),
+      benefits: await decrypt(payout.benefits),
+      netPay: await decrypt(payout.netPay),
+    };
+  }
+
+  it("prices every payout on submission under progressive brackets", async function () {
+    await submitExpected();
+    const batchId = await payroll.currentBatchId();
+
+    for (let i = 0; i < EXPECTED.length; i++) {
+      const { investment, tax, withholding, benefits, netPay } = EXPECTED[i];
+      expect(await decryptPayout(batchId, i)).to.deep.equal({
+        investment,
+        tax,
+        withholding,
+        benefits,
+        netPay,
+      });
+    }
+  });
+
+  it("keeps batch totals as running sums that decrypt without recomputation", async function () {
+    await submitExpected();
+    const batchId = await approveAndClose(payroll, signers);
+
+    await (await payroll.requestBatchSummaryDecryption(batchId)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    const [summary] = await payroll.getBatchSummaries(0, 1);
+    const sum = (
+      key:
+        | "salary"
+        | "investment"
+        | "tax"
+        | "withholding"
+        | "benefits"
+        | "netPay",
+    ) => EXPECTED.reduce((total, entry) => total + entry[key], 0n);
+    expect(summary.batchId).to.equal(batchId);
+    expect(summary.totalSalary).to.equal(sum("salary"));
+    expect(summary.totalInvestmentAmount).to.equal(sum("investment"));
+    expect(summary.totalTaxWithheld).to.equal(sum("tax"));
+    expect(summary.totalFlatWithheld).to.equal(sum("withholding"));
+    expect(summary.totalBenefitDeductions).to.equal(sum("benefits"));
+    expect(summary.totalNetPay).to.equal(sum("netPay"));
+    expect(summary.totalAdjustmentCredits).to.equal(BONUS);
+    expect(summary.totalAdjustmentDebits).to.equal(0n);
+    expect(summary.invalidEntries).to.equal(1n);
+    expect(summary.overflowed).to.equal(false);
+  });
+
+  it("pays a batch out in pages", async function () {
+    const { token, treasury } = await deployTreasury(
+      signers,
+      payroll,
+      10_000_000n,
+    );
+    await submitExpected();
+    const batchId = await approveAndClose(payroll, signers);
+    await (await treasury.requestSolvencyCheck(batchId)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    await expect(payroll.executeBatch(batchId, 2)).to.not.emit(
+      payroll,
+      "BatchExecuted",
+    );
+    await expect(payroll.executeBatch(batchId, 2)).to.not.emit(
+      payroll,
+      "BatchExecuted",
+    );
+    await expect(payroll.executeBatch(batchId, 2))
+      .to.emit(payroll, "BatchExecuted")
+      .withArgs(batchId);
+    await expect(
+      payroll.executeBatch.staticCall(batchId, 2),
+    ).to.be.revertedWithCustomError(payroll, "BatchAlreadyExecuted");
+    expect((await payroll.batchProgress(batchId)).paid).to.equal(
+      BigInt(EXPECTED.length),
+    );
+
+    const tokenAddress = await token.getAddress();
+    for (let i = 0; i < EXPECTED.length; i++) {
+      const employee = signers.employees[i];
+      const balance = await token.confidentialBalanceOf(employee.address);
+      const paid = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        balance,
+        tokenAddress,
+        employee,
+      );
+      expect(paid).to.equal(EXPECTED[i].netPay);
+    }
+  });
+
+  it("carries members into the next batch in pages before it can close", async function () {
+    await submitExpected();
+    await approveAndClose(payroll, signers);
+    await (await payroll.openBatch("USD", 6)).wait();
+    const batchId = await payroll.currentBatchId();
+
+    await (await payroll.carryForward(2)).wait();
+    await (
+      await connect(signers.approver, payroll).approveBatch(batchId)
+    ).wait();
+    await expect(connect(signers.approver, payroll).closeBatch.staticCall())
+      .to.be.revertedWithCustomError(payroll, "CarryForwardPending")
+      .withArgs(batchId, 3n);
+
+    await (await payroll.carryForward(2)).wait();
+    await (await payroll.carryForward(2)).wait();
+    expect((await payroll.batches(batchId)).employeeCount).to.equal(
+      BigInt(EXPECTED.length),
+    );
+    // The bonus belonged to the previous batch, so employee 2 is paid from salary alone this time
+    expect((await decryptPayout(batchId, 1)).netPay).to.equal(1_925_000n);
+    expect((await decryptPayout(batchId, 2)).netPay).to.equal(
+      EXPECTED[2].netPay,
+    );
+
+    // Carrying forward resets sign-offs, like any other change to the batch
+    await (
+      await connect(signers.approver, payroll).approveBatch(batchId)
+    ).wait();
+    await expect(connect(signers.approver, payroll).closeBatch())
+      .to.emit(payroll, "BatchClosed")
+      .withArgs(batchId);
+  });
+
+  it("rejects rates above 100%", async function () {
+    const deductions = await ethers.getContractAt(
+      "PayrollDeductions",
+      payrollAddress,
+    );
+    await expect(
+      payroll.setTaxBrackets.staticCall([1_000_000n], [10_001]),
+    ).to.be.revertedWithCustomError(deductions, "InvalidRate");
+    await expect(
+      payroll.setWithholdingRules.staticCall(["Pension"], [10_001]),
+    ).to.be.revertedWithCustomError(deductions, "InvalidRate");
+  });
+});
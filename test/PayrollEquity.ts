@@ -0,0 +1,181 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  Signers,
+  approveAndClose,
+  deployPayroll,
+  getSigners,
+  onboard,
+  submitSalaries,
+} from "./fixtures";
+
+const GENDER = 0;
+const MIN_GROUP_SIZE = 2;
+const LABELS = ["A", "B", "C"];
+
+// Group index per employee; index 5 is past the last label, which leaves employee 5 out
+const MEMBERS = [
+  { employeeId: 1, salary: 1_000_000n, group: 0 },
+  { employeeId: 2, salary: 2_000_000n, group: 0 },
+  { employeeId: 3, salary: 3_500_000n, group: 0 },
+  { employeeId: 4, salary: 4_000_000n, group: 1 },
+  { employeeId: 5, salary: 5_000_000n, group: 5 },
+];
+
+describe("PayrollEquity", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let equity: Contract;
+  let equityAddress: string;
+  let batchId: bigint;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, MEMBERS.length));
+    await (await payroll.openBatch("USD", 6)).wait();
+    await (await payroll.carryForward(MEMBERS.length)).wait();
+    for (let i = 0; i < MEMBERS.length; i += 2) {
+      await submitSalaries(
+        payroll,
+        signers.admin,
+        MEMBERS.slice(i, i + 2).map(({ employeeId, salary }) => ({
+          employeeId,
+          salary,
+          investmentPercentage: 0,
+        })),
+      );
+    }
+    batchId = await approveAndClose(payroll, signers);
+
+    equity = (await ethers.deployContract("PayrollEquity", [
+      await payroll.getAddress(),
+      MIN_GROUP_SIZE,
+    ])) as unknown as Contract;
+    equityAddress = await equity.getAddress();
+    await (
+      await payroll.grantRole(
+        await payroll.PAYROLL_MODULE_ROLE(),
+        equityAddress,
+      )
+    ).wait();
+    await (await equity.setGroupLabels(GENDER, LABELS)).wait();
+    for (const member of MEMBERS) await tag(member.employeeId, member.group);
+  });
+
+  async function tag(employeeId: number, group: number) {
+    const input = await fhevm
+      .createEncryptedInput(equityAddress, signers.admin.address)
+      .add8(group)
+      .add8(0)
+      .encrypt();
+    await (
+      await equity.setGroupTags(
+        employeeId,
+        input.handles[0],
+        input.handles[1],
+        input.inputProof,
+      )
+    ).wait();
+  }
+
+  async function createAndAccumulate() {
+    const reportId = (await equity.reportCount()) + 1n;
+    await (await equity.createReport(batchId, GENDER)).wait();
+    await (await equity.accumulate(reportId, 3)).wait();
+    await (await equity.accumulate(reportId, 3)).wait();
+    return reportId;
+  }
+
+  it("releases exact averages and rounded headcounts of groups at the threshold", async function () {
+    const reportId = await createAndAccumulate();
+
+    await (await equity.requestReportDecryption(reportId)).wait();
+    await fhevm.awaitDecryptionOracle();
+    expect((await equity.getReport(reportId)).status).to.equal(3n); // Averaging
+
+    await expect(equity.computeAverages(reportId, 2)).to.not.emit(
+      equity,
+      "ReportAveragesRequested",
+    );
+    await expect(equity.computeAverages(reportId, 2)).to.emit(
+      equity,
+      "ReportAveragesRequested",
+    );
+    await fhevm.awaitDecryptionOracle();
+
+    const results = await equity.getReportResults(reportId);
+    expect(
+      results.map((result: any) => ({
+        released: result.released,
+        minHeadcount: result.minHeadcount,
+        averageSalary: result.averageSalary,
+      })),
+    ).to.deep.equal([
+      { released: true, minHeadcount: 2n, averageSalary: 2_166_666n },
+      { released: false, minHeadcount: 0n, averageSalary: 0n },
+      { released: false, minHeadcount: 0n, averageSalary: 0n },
+    ]);
+    expect((await equity.getReport(reportId)).status).to.equal(5n); // Decrypted
+  });
+
+  it("refuses to decrypt before the whole batch is included", async function () {
+    const reportId = (await equity.reportCount()) + 1n;
+    await (await equity.createReport(batchId, GENDER)).wait();
+    await (await equity.accumulate(reportId, 3)).wait();
+    await expect(equity.requestReportDecryption.staticCall(reportId))
+      .to.be.revertedWithCustomError(equity, "ReportIncomplete")
+      .withArgs(reportId, 3n, BigInt(MEMBERS.length));
+    await expect(
+      equity.computeAverages.staticCall(reportId, 3),
+    ).to.be.revertedWithCustomError(equity, "ReportNotAveraging");
+  });
+
+  it("refuses a second report on a batch once tags have changed", async function () {
+    const first = await createAndAccumulate();
+    // Unchanged tags give the same totals, so another report reveals nothing new
+    await (await equity.createReport(batchId, GENDER)).wait();
+
+    await tag(4, 0);
+    await expect(equity.createReport.staticCall(batchId, GENDER))
+      .to.be.revertedWithCustomError(equity, "TagsChangedSinceReport")
+      .withArgs(batchId, first);
+    await (await equity.setGroupLabels(GENDER, LABELS)).wait();
+    await expect(
+      equity.createReport.staticCall(batchId, GENDER),
+    ).to.be.revertedWithCustomError(equity, "TagsChangedSinceReport");
+  });
+
+  it("refuses a second report on a batch once the minimum group size has changed", async function () {
+    const first = await createAndAccumulate();
+
+    await (await equity.setMinGroupSize(MIN_GROUP_SIZE + 1)).wait();
+    await expect(equity.createReport.staticCall(batchId, GENDER))
+      .to.be.revertedWithCustomError(equity, "MinGroupSizeChangedSinceReport")
+      .withArgs(batchId, first);
+
+    // Restoring the size the batch was first reported under reproduces the same results
+    await (await equity.setMinGroupSize(MIN_GROUP_SIZE)).wait();
+    await expect(equity.createReport(batchId, GENDER)).to.emit(
+      equity,
+      "ReportCreated",
+    );
+  });
+
+  it("bounds the minimum group size", async function () {
+    await expect(
+      equity.setMinGroupSize.staticCall(1),
+    ).to.be.revertedWithCustomError(equity, "InvalidMinGroupSize");
+    await expect(
+      equity.setMinGroupSize.staticCall(21),
+    ).to.be.revertedWithCustomError(equity, "InvalidMinGroupSize");
+  });
+});
@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  BLUEPRINT_PREAMBLE,
+  MAX_CODE_SIZE,
+  blueprintDeployData,
+} from "../deploy/blueprint";
+import { Signers, connect, getSigners } from "./fixtures";
+
+describe("PayrollFactory", function () {
+  let signers: Signers;
+  let creationCode: string;
+  let blueprintAddress: string;
+  let factory: Contract;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  // Deployed the way deploy/deploy.ts does it: a linked StealthPayrollFHE, its blueprint, then the factory
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    const deductions = await ethers.deployContract("PayrollDeductions");
+    creationCode = (
+      await ethers.getContractFactory("StealthPayrollFHE", {
+        libraries: { PayrollDeductions: await deductions.getAddress() },
+      })
+    ).bytecode;
+    const receipt = await (
+      await signers.admin.sendTransaction({
+        data: blueprintDeployData(creationCode),
+      })
+    ).wait();
+    blueprintAddress = receipt!.contractAddress!;
+    factory = (await ethers.deployContract("PayrollFactory", [
+      blueprintAddress,
+    ])) as unknown as Contract;
+  });
+
+  async function create(name: string, admin: string) {
+    await (await factory.createOrganization(name, admin)).wait();
+    const orgId = await factory.organizationCount();
+    const { payroll } = await factory.getOrganization(orgId);
+    return {
+      orgId,
+      payroll: (await ethers.getContractAt(
+        "StealthPayrollFHE",
+        payroll,
+      )) as unknown as Contract,
+    };
+  }
+
+  it("fits the payroll blueprint within the contract size limit", async function () {
+    // Growing StealthPayrollFHE past this point fails here rather than at deployment
+    const blueprintSize =
+      BLUEPRINT_PREAMBLE.length / 2 + ethers.dataLength(creationCode);
+    expect(blueprintSize).to.be.at.most(MAX_CODE_SIZE);
+    expect(await ethers.provider.getCode(blueprintAddress)).to.equal(
+      `0x${BLUEPRINT_PREAMBLE}${creationCode.slice(2)}`,
+    );
+
+    const factoryFactory = await ethers.getContractFactory("PayrollFactory");
+    await expect(
+      signers.admin.call(
+        await factoryFactory.getDeployTransaction(signers.admin.address),
+      ),
+    ).to.be.revertedWithCustomError(factory, "InvalidBlueprint");
+  });
+
+  it("registers each organization with its admin and instance", async function () {
+    const tx = await factory.createOrganization(
+      "Alpha DAO",
+      signers.admin.address,
+    );
+    const { payroll } = await factory.getOrganization(1n);
+    await expect(tx)
+      .to.emit(factory, "OrganizationCreated")
+      .withArgs(1n, "Alpha DAO", signers.admin.address, payroll);
+
+    expect(await factory.organizationIdByName(ethers.id("Alpha DAO"))).to.equal(
+      1n,
+    );
+    expect(await factory.organizationIdByPayroll(payroll)).to.equal(1n);
+    expect([
+      ...(await factory.getOrganizationIdsByAdmin(signers.admin.address)),
+    ]).to.deep.equal([1n]);
+    await expect(
+      factory.createOrganization.staticCall(
+        "Alpha DAO",
+        signers.approver.address,
+      ),
+    ).to.be.revertedWithCustomError(factory, "NameTaken");
+    await expect(factory.getOrganization(2n))
+      .to.be.revertedWithCustomError(factory, "OrganizationNotFound")
+      .withArgs(2n);
+  });
+
+  it("pages through the registry", async function () {
+    for (const name of ["A", "B", "C"]) {
+      await (
+        await factory.createOrganization(name, signers.admin.address)
+      ).wait();
+    }
+    const names = async (offset: number, limit: number) =>
+      (await factory.getOrganizations(offset, limit)).map(
+        (org: any) => org.name,
+      );
+
+    expect(await names(0, 2)).to.deep.equal(["A", "B"]);
+    expect(await names(2, 10)).to.deep.equal(["C"]);
+    expect(await names(3, 10)).to.deep.equal([]);
+  });
+
+  it("keeps the batches and roles of two organizations apart", async function () {
+    const alpha = await create("Alpha DAO", signers.admin.address);
+    const beta = await create("Beta DAO", signers.approver.address);
+    expect(await alpha.payroll.getAddress()).to.not.equal(
+      await beta.payroll.getAddress(),
+    );
+
+    const adminRole = await alpha.payroll.DEFAULT_ADMIN_ROLE();
+    expect(
+      await alpha.payroll.hasRole(adminRole, signers.admin.address),
+    ).to.equal(true);
+    expect(
+      await beta.payroll.hasRole(adminRole, signers.admin.address),
+    ).to.equal(false);
+    expect(
+      await beta.payroll.hasRole(adminRole, signers.approver.address),
+    ).to.equal(true);
+    // The factory keeps no role on the instances it deploys
+    expect(await alpha.payroll.getRoleMemberCount(adminRole)).to.equal(1n);
+
+    await (await alpha.payroll.openBatch("USD", 6)).wait();
+    const batchId = await alpha.payroll.currentBatchId();
+    expect((await alpha.payroll.batches(batchId)).isOpen).to.equal(true);
+    expect(await beta.payroll.currentBatchId()).to.equal(batchId - 1n);
+    expect((await beta.payroll.batches(batchId)).isOpen).to.equal(false);
+    await expect(
+      beta.payroll.openBatch.staticCall("USD", 6),
+    ).to.be.revertedWithCustomError(beta.payroll, "MissingRole");
+    await (
+      await connect(signers.approver, beta.payroll).openBatch("EUR", 2)
+    ).wait();
+    expect((await beta.payroll.batches(batchId)).currency).to.equal("EUR");
+    expect((await alpha.payroll.batches(batchId)).currency).to.equal("USD");
+  });
+
+  it("moves an organization only to an admin of its instance", async function () {
+    const alpha = await create("Alpha DAO", signers.admin.address);
+    await expect(
+      factory.setOrganizationAdmin.staticCall(
+        alpha.orgId,
+        signers.approver.address,
+      ),
+    )
+      .to.be.revertedWithCustomError(factory, "AdminNotGranted")
+      .withArgs(alpha.orgId, signers.approver.address);
+
+    await (
+      await alpha.payroll.grantRole(
+        await alpha.payroll.DEFAULT_ADMIN_ROLE(),
+        signers.approver.address,
+      )
+    ).wait();
+    await expect(
+      factory.setOrganizationAdmin(alpha.orgId, signers.approver.address),
+    )
+      .to.emit(factory, "OrganizationAdminChanged")
+      .withArgs(alpha.orgId, signers.admin.address, signers.approver.address);
+    await expect(
+      factory.setOrganizationAdmin.staticCall(
+        alpha.orgId,
+        signers.admin.address,
+      ),
+    ).to.be.revertedWithCustomError(factory, "NotOrganizationAdmin");
+  });
+});
@@ -0,0 +1,163 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  Signers,
+  connect,
+  deployPayroll,
+  getSigners,
+  onboard,
+} from "./fixtures";
+
+const EMPLOYEE_ID = 1;
+
+describe("StealthPayrollFHE encrypted inputs", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let payrollAddress: string;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll, payrollAddress } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, 1));
+    await (await payroll.openBatch("USD", 6)).wait();
+    await (await payroll.carryForward(1)).wait();
+  });
+
+  // Encrypts a salary and an investment percentage for contractAddress and the account that will submit them
+  function encryptPay(
+    contractAddress: string,
+    userAddress: string,
+    salary: bigint,
+    investmentPercentage: number,
+  ) {
+    return fhevm
+      .createEncryptedInput(contractAddress, userAddress)
+      .add64(salary)
+      .add32(investmentPercentage)
+      .encrypt();
+  }
+
+  function submit(
+    signer: Signers["admin"],
+    input: Awaited<ReturnType<typeof encryptPay>>,
+  ) {
+    return connect(signer, payroll).submitEmployeeData(
+      EMPLOYEE_ID,
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    );
+  }
+
+  function simulateSubmit(
+    signer: Signers["admin"],
+    input: Awaited<ReturnType<typeof encryptPay>>,
+  ) {
+    return connect(signer, payroll).submitEmployeeData.staticCall(
+      EMPLOYEE_ID,
+      input.handles[0],
+      input.handles[1],
+      input.inputProof,
+    );
+  }
+
+  it("stores submitted values for the employee to decrypt", async function () {
+    const input = await encryptPay(
+      payrollAddress,
+      signers.admin.address,
+      1_500_000n,
+      20,
+    );
+    await expect(submit(signers.admin, input))
+      .to.emit(payroll, "EmployeeDataSubmitted")
+      .withArgs(
+        await payroll.currentBatchId(),
+        EMPLOYEE_ID,
+        signers.admin.address,
+      );
+
+    const [salary, investment] = await payroll.getEmployeeData(
+      await payroll.currentBatchId(),
+      EMPLOYEE_ID,
+    );
+    const employee = signers.employees[0];
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        salary,
+        payrollAddress,
+        employee,
+      ),
+    ).to.equal(1_500_000n);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        investment,
+        payrollAddress,
+        employee,
+      ),
+    ).to.equal(20n);
+  });
+
+  it("rejects a proof made for another account", async function () {
+    await (
+      await payroll.grantRole(
+        await payroll.DATA_PROVIDER_ROLE(),
+        signers.outsider.address,
+      )
+    ).wait();
+    const input = await encryptPay(
+      payrollAddress,
+      signers.admin.address,
+      1_000_000n,
+      0,
+    );
+    await expect(simulateSubmit(signers.outsider, input)).to.be.reverted;
+  });
+
+  it("rejects a proof made for another contract", async function () {
+    const other = await ethers.deployContract("PayrollDeductions");
+    const input = await encryptPay(
+      await other.getAddress(),
+      signers.admin.address,
+      1_000_000n,
+      0,
+    );
+    await expect(simulateSubmit(signers.admin, input)).to.be.reverted;
+  });
+
+  it("caps and counts investment percentages above 100", async function () {
+    const input = await encryptPay(
+      payrollAddress,
+      signers.admin.address,
+      1_000_000n,
+      150,
+    );
+    await (await submit(signers.admin, input)).wait();
+
+    const batchId = await payroll.currentBatchId();
+    const [, investment] = await payroll.getEmployeeData(batchId, EMPLOYEE_ID);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        investment,
+        payrollAddress,
+        signers.admin,
+      ),
+    ).to.equal(100n);
+
+    await (await payroll.requestBatchSummaryDecryption(batchId)).wait();
+    await fhevm.awaitDecryptionOracle();
+    const [summary] = await payroll.getBatchSummaries(0, 1);
+    expect(summary.invalidEntries).to.equal(1n);
+  });
+});
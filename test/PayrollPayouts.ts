@@ -0,0 +1,132 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { fhevm } from "hardhat";
+import {
+  Signers,
+  approveAndClose,
+  connect,
+  deployPayroll,
+  deployTreasury,
+  getSigners,
+  onboard,
+  submitSalaries,
+} from "./fixtures";
+
+// 10% flat withholding, so net pay is 90% of salary
+const SALARIES = [1_000_000n, 2_000_000n];
+const NET_PAY = [900_000n, 1_800_000n];
+const FUNDING = 5_000_000n;
+
+describe("StealthPayrollFHE payouts", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let token: Contract;
+  let treasury: Contract;
+  let tokenAddress: string;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, SALARIES.length));
+    await (await payroll.setWithholdingRules(["Pension"], [1000])).wait();
+  });
+
+  async function closeBatch(decimals = 6) {
+    await (await payroll.openBatch("USD", decimals)).wait();
+    await (await payroll.carryForward(SALARIES.length)).wait();
+    await submitSalaries(
+      payroll,
+      signers.admin,
+      SALARIES.map((salary, i) => ({
+        employeeId: i + 1,
+        salary,
+        investmentPercentage: 0,
+      })),
+    );
+    return approveAndClose(payroll, signers);
+  }
+
+  async function fund() {
+    ({ token, tokenAddress, treasury } = await deployTreasury(
+      signers,
+      payroll,
+      FUNDING,
+    ));
+  }
+
+  async function checkSolvency(batchId: bigint) {
+    await (await treasury.requestSolvencyCheck(batchId)).wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  async function decryptBalance(account: Signers["admin"]) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await token.confidentialBalanceOf(account.address),
+      tokenAddress,
+      account,
+    );
+  }
+
+  it("pays each employee their net pay from the treasury", async function () {
+    await fund();
+    const batchId = await closeBatch();
+    await checkSolvency(batchId);
+
+    await expect(payroll.executeBatch(batchId, SALARIES.length))
+      .to.emit(payroll, "EmployeePaid")
+      .withArgs(batchId, 1n, signers.employees[0].address)
+      .and.to.emit(payroll, "BatchExecuted")
+      .withArgs(batchId);
+
+    for (let i = 0; i < SALARIES.length; i++) {
+      expect(await decryptBalance(signers.employees[i])).to.equal(NET_PAY[i]);
+    }
+  });
+
+  it("pays a batch once and freezes its approvals", async function () {
+    await fund();
+    const batchId = await closeBatch();
+    await checkSolvency(batchId);
+    await (await payroll.executeBatch(batchId, SALARIES.length)).wait();
+
+    await expect(
+      payroll.executeBatch.staticCall(batchId, SALARIES.length),
+    ).to.be.revertedWithCustomError(payroll, "BatchAlreadyExecuted");
+    await expect(
+      connect(signers.approver, payroll).revokeBatchApproval.staticCall(
+        batchId,
+      ),
+    ).to.be.revertedWithCustomError(payroll, "BatchAlreadyExecuted");
+  });
+
+  it("refuses to pay without a treasury or in another currency precision", async function () {
+    let batchId = await closeBatch();
+    await expect(
+      payroll.executeBatch.staticCall(batchId, SALARIES.length),
+    ).to.be.revertedWithCustomError(payroll, "PayoutNotConfigured");
+
+    await fund();
+    batchId = await closeBatch(2);
+    await expect(
+      payroll.executeBatch.staticCall(batchId, SALARIES.length),
+    ).to.be.revertedWithCustomError(payroll, "CurrencyMismatch");
+  });
+
+  it("lets only payroll admins execute a batch", async function () {
+    await fund();
+    const batchId = await closeBatch();
+    await checkSolvency(batchId);
+    await expect(
+      connect(signers.approver, payroll).executeBatch.staticCall(batchId, 1),
+    ).to.be.revertedWithCustomError(payroll, "MissingRole");
+  });
+});
@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { fhevm } from "hardhat";
+import { Signers, connect, deployPayroll, getSigners } from "./fixtures";
+
+const ROLES = [
+  "DEFAULT_ADMIN_ROLE",
+  "PAYROLL_ADMIN_ROLE",
+  "DATA_PROVIDER_ROLE",
+  "APPROVER_ROLE",
+  "AUDITOR_ROLE",
+  "PAUSER_ROLE",
+];
+
+describe("StealthPayrollFHE roles", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let role: Record<string, string>;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll } = await deployPayroll(signers));
+    role = {};
+    for (const name of ROLES) role[name] = await payroll[name]();
+  });
+
+  it("gives the deploying admin every role", async function () {
+    for (const name of ROLES) {
+      expect(await payroll.hasRole(role[name], signers.admin.address)).to.equal(
+        true,
+        name,
+      );
+    }
+    expect([
+      ...(await payroll.getRoleMembers(role.APPROVER_ROLE)),
+    ]).to.deep.equal([signers.admin.address, signers.approver.address]);
+  });
+
+  it("gates each duty behind its role", async function () {
+    const outsider = connect(signers.outsider, payroll);
+    const expectMissing = async (call: Promise<unknown>, roleName: string) =>
+      expect(call)
+        .to.be.revertedWithCustomError(payroll, "MissingRole")
+        .withArgs(role[roleName], signers.outsider.address);
+
+    await expectMissing(
+      outsider.onboardEmployee.staticCall(1, signers.outsider.address),
+      "PAYROLL_ADMIN_ROLE",
+    );
+    await expectMissing(
+      outsider.openBatch.staticCall("USD", 6),
+      "PAYROLL_ADMIN_ROLE",
+    );
+    await expectMissing(outsider.setPaused.staticCall(true), "PAUSER_ROLE");
+    await expectMissing(outsider.approveBatch.staticCall(1), "APPROVER_ROLE");
+    await expectMissing(
+      outsider.grantRole.staticCall(
+        role.APPROVER_ROLE,
+        signers.outsider.address,
+      ),
+      "DEFAULT_ADMIN_ROLE",
+    );
+    await expectMissing(
+      outsider.requestBatchSummaryDecryption.staticCall(1),
+      "AUDITOR_ROLE",
+    );
+    await expectMissing(
+      outsider.submitEmployeeData.staticCall(
+        1,
+        `0x${"00".repeat(32)}`,
+        `0x${"00".repeat(32)}`,
+        "0x",
+      ),
+      "DATA_PROVIDER_ROLE",
+    );
+  });
+
+  it("lets a role's admin role manage it", async function () {
+    await (
+      await payroll.setRoleAdmin(
+        role.DATA_PROVIDER_ROLE,
+        role.PAYROLL_ADMIN_ROLE,
+      )
+    ).wait();
+    await (
+      await payroll.grantRole(role.PAYROLL_ADMIN_ROLE, signers.approver.address)
+    ).wait();
+
+    const approver = connect(signers.approver, payroll);
+    await expect(
+      approver.grantRole(role.DATA_PROVIDER_ROLE, signers.outsider.address),
+    )
+      .to.emit(payroll, "RoleGranted")
+      .withArgs(
+        role.DATA_PROVIDER_ROLE,
+        signers.outsider.address,
+        signers.approver.address,
+      );
+    await expect(
+      approver.grantRole.staticCall(
+        role.AUDITOR_ROLE,
+        signers.outsider.address,
+      ),
+    ).to.be.revertedWithCustomError(payroll, "MissingRole");
+    await (
+      await approver.revokeRole(
+        role.DATA_PROVIDER_ROLE,
+        signers.outsider.address,
+      )
+    ).wait();
+    expect(
+      await payroll.hasRole(role.DATA_PROVIDER_ROLE, signers.outsider.address),
+    ).to.equal(false);
+  });
+
+  it("keeps the member list in step with grants and revocations", async function () {
+    const members = [
+      signers.approver.address,
+      signers.outsider.address,
+      signers.employees[0].address,
+    ];
+    for (const member of members) {
+      await (await payroll.grantRole(role.AUDITOR_ROLE, member)).wait();
+    }
+    await (
+      await payroll.revokeRole(role.AUDITOR_ROLE, signers.approver.address)
+    ).wait();
+
+    expect(await payroll.getRoleMemberCount(role.AUDITOR_ROLE)).to.equal(3n);
+    // The last member takes the revoked one's place
+    expect([
+      ...(await payroll.getRoleMembers(role.AUDITOR_ROLE)),
+    ]).to.deep.equal([
+      signers.admin.address,
+      signers.employees[0].address,
+      signers.outsider.address,
+    ]);
+  });
+
+  it("lets accounts renounce only their own roles", async function () {
+    const approver = connect(signers.approver, payroll);
+    await expect(
+      approver.renounceRole.staticCall(
+        role.APPROVER_ROLE,
+        signers.admin.address,
+      ),
+    ).to.be.revertedWithCustomError(payroll, "InvalidRoleRenounce");
+    await (
+      await approver.renounceRole(role.APPROVER_ROLE, signers.approver.address)
+    ).wait();
+    expect(
+      await payroll.hasRole(role.APPROVER_ROLE, signers.approver.address),
+    ).to.equal(false);
+  });
+
+  it("lets pausers halt batch changes", async function () {
+    await (
+      await payroll.grantRole(role.PAUSER_ROLE, signers.approver.address)
+    ).wait();
+    await (await connect(signers.approver, payroll).setPaused(true)).wait();
+    await expect(
+      payroll.openBatch.staticCall("USD", 6),
+    ).to.be.revertedWithCustomError(payroll, "Paused");
+  });
+});
@@ -0,0 +1,198 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  Signers,
+  connect,
+  deployPayroll,
+  getSigners,
+  onboard,
+} from "./fixtures";
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+const EMPLOYEE_ID = 1;
+const STREAM_ID = 1;
+
+describe("PayrollStreams", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let token: Contract;
+  let streams: Contract;
+  let tokenAddress: string;
+  let streamsAddress: string;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, 1));
+    await (await payroll.setPayModel(EMPLOYEE_ID, 1)).wait(); // Stream
+
+    token = (await ethers.deployContract("ConfidentialPayrollToken", [
+      "Payroll USD",
+      "pUSD",
+    ])) as unknown as Contract;
+    tokenAddress = await token.getAddress();
+    streams = (await ethers.deployContract("PayrollStreams", [
+      await payroll.getAddress(),
+      tokenAddress,
+    ])) as unknown as Contract;
+    streamsAddress = await streams.getAddress();
+
+    const funds = await fhevm
+      .createEncryptedInput(tokenAddress, signers.admin.address)
+      .add64(1_000_000n)
+      .encrypt();
+    await (
+      await token.mint(
+        signers.admin.address,
+        funds.handles[0],
+        funds.inputProof,
+      )
+    ).wait();
+    await (await token.setOperator(streamsAddress, 2n ** 48n - 1n)).wait();
+  });
+
+  // Returns the timestamp the stream started accruing at
+  async function createStream(ratePerSecond: bigint) {
+    const rate = await fhevm
+      .createEncryptedInput(streamsAddress, signers.admin.address)
+      .add64(ratePerSecond)
+      .encrypt();
+    const receipt = await (
+      await streams.createStream(EMPLOYEE_ID, rate.handles[0], rate.inputProof)
+    ).wait();
+    return (await ethers.provider.getBlock(receipt.blockNumber))!.timestamp;
+  }
+
+  async function topUp(amount: bigint) {
+    const input = await fhevm
+      .createEncryptedInput(streamsAddress, signers.admin.address)
+      .add64(amount)
+      .encrypt();
+    await (
+      await streams.topUp(STREAM_ID, input.handles[0], input.inputProof)
+    ).wait();
+  }
+
+  async function withdrawAt(timestamp: number, amount: bigint) {
+    const employee = signers.employees[0];
+    const input = await fhevm
+      .createEncryptedInput(streamsAddress, employee.address)
+      .add64(amount)
+      .encrypt();
+    await time.setNextBlockTimestamp(timestamp);
+    await (
+      await connect(employee, streams).withdraw(
+        STREAM_ID,
+        input.handles[0],
+        input.inputProof,
+      )
+    ).wait();
+  }
+
+  async function decryptStream() {
+    const employee = signers.employees[0];
+    const stream = await streams.getStream(STREAM_ID);
+    const decrypt = (handle: string, contractAddress: string) =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        handle,
+        contractAddress,
+        employee,
+      );
+    return {
+      accrued: await decrypt(stream.accrued, streamsAddress),
+      balance: await decrypt(stream.balance, streamsAddress),
+      paid: await decrypt(
+        await token.confidentialBalanceOf(employee.address),
+        tokenAddress,
+      ),
+    };
+  }
+
+  it("limits withdrawals to what has both accrued and been funded", async function () {
+    const startedAt = await createStream(10n);
+    await topUp(600n);
+
+    // 1,000 has accrued but only 600 is funded, so the request transfers nothing
+    await withdrawAt(startedAt + 100, 700n);
+    expect(await decryptStream()).to.deep.equal({
+      accrued: 1_000n,
+      balance: 600n,
+      paid: 0n,
+    });
+
+    await withdrawAt(startedAt + 101, 500n);
+    expect(await decryptStream()).to.deep.equal({
+      accrued: 510n,
+      balance: 100n,
+      paid: 500n,
+    });
+  });
+
+  it("saturates accrual instead of wrapping around", async function () {
+    const startedAt = await createStream(2n ** 63n);
+    await withdrawAt(startedAt + 2, 0n);
+    expect((await decryptStream()).accrued).to.equal(MAX_UINT64);
+
+    await withdrawAt(startedAt + 3, 0n);
+    expect((await decryptStream()).accrued).to.equal(MAX_UINT64);
+  });
+
+  it("does not accrue while paused", async function () {
+    const startedAt = await createStream(10n);
+    await time.setNextBlockTimestamp(startedAt + 20);
+    await (await streams.pauseStream(STREAM_ID)).wait();
+    await time.setNextBlockTimestamp(startedAt + 80);
+    await (await streams.cancelStream(STREAM_ID)).wait();
+
+    await withdrawAt(startedAt + 100, 0n);
+    expect((await decryptStream()).accrued).to.equal(200n);
+  });
+
+  it("stops accruing when the employee is offboarded", async function () {
+    const startedAt = await createStream(10n);
+    await time.setNextBlockTimestamp(startedAt + 50);
+    await (await payroll.offboardEmployee(EMPLOYEE_ID)).wait();
+
+    await withdrawAt(startedAt + 200, 0n);
+    expect((await decryptStream()).accrued).to.equal(500n);
+
+    await (await streams.pauseStream(STREAM_ID)).wait();
+    await expect(streams.resumeStream.staticCall(STREAM_ID))
+      .to.be.revertedWithCustomError(streams, "EmploymentEnded")
+      .withArgs(STREAM_ID);
+  });
+
+  it("does not resume accruing for a stream from before a rehire", async function () {
+    const startedAt = await createStream(10n);
+    await time.setNextBlockTimestamp(startedAt + 50);
+    await (await streams.pauseStream(STREAM_ID)).wait();
+    await (await payroll.offboardEmployee(EMPLOYEE_ID)).wait();
+    await (
+      await payroll.onboardEmployee(EMPLOYEE_ID, signers.employees[0].address)
+    ).wait();
+
+    await expect(
+      streams.resumeStream.staticCall(STREAM_ID),
+    ).to.be.revertedWithCustomError(streams, "EmploymentEnded");
+    await withdrawAt(startedAt + 200, 0n);
+    expect((await decryptStream()).accrued).to.equal(500n);
+  });
+
+  it("lets only payroll admins manage streams", async function () {
+    await createStream(10n);
+    await expect(
+      connect(signers.outsider, streams).pauseStream.staticCall(STREAM_ID),
+    ).to.be.revertedWithCustomError(streams, "MissingRole");
+  });
+});
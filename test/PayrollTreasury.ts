@@ -0,0 +1,162 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { fhevm } from "hardhat";
+import {
+  Signers,
+  approveAndClose,
+  deployPayroll,
+  deployTreasury,
+  getSigners,
+  onboard,
+  submitSalaries,
+} from "./fixtures";
+
+// Net pay equals salary: no rules are configured
+const SALARIES = [1_000_000n, 2_000_000n, 3_000_000n];
+
+describe("PayrollTreasury", function () {
+  let signers: Signers;
+  let payroll: Contract;
+  let token: Contract;
+  let treasury: Contract;
+  let tokenAddress: string;
+  let treasuryAddress: string;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ payroll } = await deployPayroll(signers));
+    await onboard(payroll, signers.employees.slice(0, SALARIES.length));
+    await (await payroll.openBatch("USD", 6)).wait();
+    await (await payroll.carryForward(SALARIES.length)).wait();
+  });
+
+  async function closeFundedBatch(funding: bigint) {
+    ({ token, tokenAddress, treasury, treasuryAddress } = await deployTreasury(
+      signers,
+      payroll,
+      funding,
+    ));
+    await submitSalaries(payroll, signers.admin, [
+      { employeeId: 1, salary: SALARIES[0], investmentPercentage: 0 },
+      { employeeId: 2, salary: SALARIES[1], investmentPercentage: 0 },
+    ]);
+    await submitSalaries(payroll, signers.admin, [
+      { employeeId: 3, salary: SALARIES[2], investmentPercentage: 0 },
+    ]);
+    return approveAndClose(payroll, signers);
+  }
+
+  async function checkSolvency(batchId: bigint) {
+    await (await treasury.requestSolvencyCheck(batchId)).wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  async function encryptAmount(amount: bigint) {
+    return fhevm
+      .createEncryptedInput(treasuryAddress, signers.admin.address)
+      .add64(amount)
+      .encrypt();
+  }
+
+  async function withdraw(amount: bigint) {
+    const input = await encryptAmount(amount);
+    return treasury.withdraw(
+      signers.admin.address,
+      input.handles[0],
+      input.inputProof,
+    );
+  }
+
+  async function simulateWithdraw(amount: bigint) {
+    const input = await encryptAmount(amount);
+    return treasury.withdraw.staticCall(
+      signers.admin.address,
+      input.handles[0],
+      input.inputProof,
+    );
+  }
+
+  async function balanceOf(index: number) {
+    const employee = signers.employees[index];
+    const balance = await token.confidentialBalanceOf(employee.address);
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      balance,
+      tokenAddress,
+      employee,
+    );
+  }
+
+  it("refuses a payout without a passed solvency check", async function () {
+    const batchId = await closeFundedBatch(5_000_000n);
+    await expect(payroll.executeBatch.staticCall(batchId, 3))
+      .to.be.revertedWithCustomError(treasury, "SolvencyNotChecked")
+      .withArgs(batchId);
+
+    await checkSolvency(batchId);
+    expect((await treasury.getSolvencyCheck(batchId)).status).to.equal(3n); // Underfunded
+    await expect(payroll.executeBatch.staticCall(batchId, 3))
+      .to.be.revertedWithCustomError(treasury, "BatchUnderfunded")
+      .withArgs(batchId);
+  });
+
+  it("invalidates a check once the balance is drawn on", async function () {
+    const batchId = await closeFundedBatch(7_000_000n);
+    await checkSolvency(batchId);
+    expect((await treasury.getSolvencyCheck(batchId)).status).to.equal(2n); // Funded
+
+    await (await withdraw(1n)).wait();
+    await expect(payroll.executeBatch.staticCall(batchId, 3))
+      .to.be.revertedWithCustomError(treasury, "StaleSolvencyCheck")
+      .withArgs(batchId);
+  });
+
+  it("pays the net pay that was checked even if the rules change afterwards", async function () {
+    const batchId = await closeFundedBatch(6_000_000n);
+    await checkSolvency(batchId);
+    await (await payroll.setWithholdingRules(["Pension"], [5000])).wait();
+
+    await (await payroll.executeBatch(batchId, 3)).wait();
+    for (let i = 0; i < SALARIES.length; i++) {
+      expect(await balanceOf(i)).to.equal(SALARIES[i]);
+    }
+  });
+
+  it("locks the balance until a paged payout completes", async function () {
+    const batchId = await closeFundedBatch(7_000_000n);
+    await checkSolvency(batchId);
+    await (await payroll.executeBatch(batchId, 1)).wait();
+
+    await expect(simulateWithdraw(1_000_000n))
+      .to.be.revertedWithCustomError(treasury, "PayoutInProgress")
+      .withArgs(batchId);
+    await expect(treasury.requestSolvencyCheck.staticCall(batchId + 1n))
+      .to.be.revertedWithCustomError(treasury, "PayoutInProgress")
+      .withArgs(batchId);
+
+    await (await payroll.executeBatch(batchId, 2)).wait();
+    for (let i = 0; i < SALARIES.length; i++) {
+      expect(await balanceOf(i)).to.equal(SALARIES[i]);
+    }
+    await expect(withdraw(1_000_000n)).to.emit(treasury, "Withdrawn");
+  });
+
+  it("lets only the payroll consume a check", async function () {
+    const batchId = await closeFundedBatch(7_000_000n);
+    await checkSolvency(batchId);
+    await expect(
+      treasury.consumeSolvencyCheck.staticCall(
+        batchId,
+        await treasury.balance(),
+      ),
+    ).to.be.revertedWithCustomError(treasury, "OnlyPayroll");
+  });
+});
@@ -0,0 +1,398 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+import { Signers, connect, getSigners } from "./fixtures";
+
+const COLLECTION = "payroll";
+const KEY = "1";
+const VALUE = ethers.toUtf8Bytes("{}");
+const GAS_LIMIT = { gasLimit: 1_000_000 };
+
+// UniversalAdapter.RecordStatus
+const NONE = 0n;
+const PENDING = 1n;
+const PROCESSED = 2n;
+const FAILED = 3n;
+
+describe("UniversalAdapter namespaces", function () {
+  let signers: Signers;
+  let adapter: Contract;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  // The admin deploys, which reserves the payroll namespace for it
+  beforeEach(async function () {
+    adapter = (await ethers.deployContract("UniversalAdapter", [
+      [COLLECTION],
+    ])) as unknown as Contract;
+  });
+
+  function write(signer: Signers["admin"], key: string) {
+    return connect(signer, adapter).setData(key, VALUE);
+  }
+
+  it("keys a namespace by the part before the first underscore", async function () {
+    expect(await adapter.namespaceOf("payroll_keys")).to.equal(COLLECTION);
+    expect(await adapter.namespaceOf("payroll_a_b")).to.equal(COLLECTION);
+    expect(await adapter.namespaceOf("payroll")).to.equal(COLLECTION);
+    expect(await adapter.namespaceOf("_x")).to.equal("");
+  });
+
+  it("lets only the owner and its writers write", async function () {
+    await expect(write(signers.admin, "payroll_1")).to.emit(
+      adapter,
+      "DataStored",
+    );
+    await expect(
+      connect(signers.outsider, adapter).setData.staticCall("payroll_1", VALUE),
+    )
+      .to.be.revertedWithCustomError(adapter, "NotWriter")
+      .withArgs(COLLECTION, signers.outsider.address);
+    // Nobody owns "other" yet, so nobody may write to it
+    await expect(adapter.setData.staticCall("other_1", VALUE))
+      .to.be.revertedWithCustomError(adapter, "NotWriter")
+      .withArgs("other", signers.admin.address);
+
+    await (
+      await adapter.setWriter(COLLECTION, signers.outsider.address, true)
+    ).wait();
+    await expect(write(signers.outsider, "payroll_2")).to.emit(
+      adapter,
+      "DataStored",
+    );
+    expect([...(await adapter.getWriters(COLLECTION))]).to.deep.equal([
+      signers.outsider.address,
+    ]);
+
+    await (
+      await adapter.setWriter(COLLECTION, signers.outsider.address, false)
+    ).wait();
+    await expect(
+      connect(signers.outsider, adapter).setData.staticCall("payroll_3", VALUE),
+    ).to.be.revertedWithCustomError(adapter, "NotWriter");
+    expect([...(await adapter.getWriters(COLLECTION))]).to.deep.equal([]);
+  });
+
+  it("gives a namespace to whoever claims it first", async function () {
+    await expect(connect(signers.outsider, adapter).claimNamespace("other"))
+      .to.emit(adapter, "NamespaceOwnerSet")
+      .withArgs("other", ethers.ZeroAddress, signers.outsider.address);
+    await expect(adapter.claimNamespace.staticCall("other"))
+      .to.be.revertedWithCustomError(adapter, "NamespaceTaken")
+      .withArgs("other", signers.outsider.address);
+    await expect(
+      connect(signers.outsider, adapter).claimNamespace.staticCall(COLLECTION),
+    )
+      .to.be.revertedWithCustomError(adapter, "NamespaceTaken")
+      .withArgs(COLLECTION, signers.admin.address);
+    await expect(write(signers.outsider, "other_1")).to.emit(
+      adapter,
+      "DataStored",
+    );
+  });
+
+  it("lets only the owner manage and hand over its namespace", async function () {
+    const outsider = connect(signers.outsider, adapter);
+    await expect(
+      outsider.setWriter.staticCall(COLLECTION, signers.outsider.address, true),
+    )
+      .to.be.revertedWithCustomError(adapter, "NotNamespaceOwner")
+      .withArgs(COLLECTION, signers.outsider.address);
+    await expect(
+      outsider.transferNamespace.staticCall(
+        COLLECTION,
+        signers.outsider.address,
+      ),
+    ).to.be.revertedWithCustomError(adapter, "NotNamespaceOwner");
+    await expect(
+      adapter.transferNamespace.staticCall(COLLECTION, ethers.ZeroAddress),
+    ).to.be.revertedWithCustomError(adapter, "InvalidAddress");
+
+    await (
+      await adapter.transferNamespace(COLLECTION, signers.outsider.address)
+    ).wait();
+    expect(await adapter.namespaceOwner(COLLECTION)).to.equal(
+      signers.outsider.address,
+    );
+    await expect(
+      adapter.setData.staticCall("payroll_1", VALUE),
+    ).to.be.revertedWithCustomError(adapter, "NotWriter");
+    await expect(write(signers.outsider, "payroll_1")).to.emit(
+      adapter,
+      "DataStored",
+    );
+  });
+});
+
+describe("UniversalAdapter records", function () {
+  let signers: Signers;
+  let adapter: Contract;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  // The approver writes to the admin's payroll namespace
+  beforeEach(async function () {
+    adapter = (await ethers.deployContract("UniversalAdapter", [
+      [COLLECTION],
+    ])) as unknown as Contract;
+    await (
+      await adapter.setWriter(COLLECTION, signers.approver.address, true)
+    ).wait();
+  });
+
+  function append(
+    signer: Signers["admin"],
+    key: string,
+    value = "{}",
+    overrides = {},
+  ) {
+    return connect(signer, adapter).appendRecord(
+      COLLECTION,
+      key,
+      ethers.toUtf8Bytes(value),
+      overrides,
+    );
+  }
+
+  it("keeps both of two appends mined in the same block", async function () {
+    await ethers.provider.send("evm_setAutomine", [false]);
+    try {
+      // Hardhat otherwise gives each transaction the whole block gas limit, and the second would wait for the next block
+      const first = await append(signers.admin, "a", "{}", GAS_LIMIT);
+      const second = await append(signers.approver, "b", "{}", GAS_LIMIT);
+      await ethers.provider.send("evm_mine", []);
+      const [firstReceipt, secondReceipt] = await Promise.all([
+        first.wait(),
+        second.wait(),
+      ]);
+      expect(firstReceipt.blockNumber).to.equal(secondReceipt.blockNumber);
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+
+    expect(await adapter.keyCount(COLLECTION)).to.equal(2n);
+    expect([...(await adapter.getKeys(COLLECTION, 0, 10))]).to.deep.equal([
+      "a",
+      "b",
+    ]);
+    expect(await adapter.recordStatus(COLLECTION, "b")).to.equal(PENDING);
+  });
+
+  it("never overwrites an existing record", async function () {
+    await expect(append(signers.admin, "a"))
+      .to.emit(adapter, "RecordAppended")
+      .withArgs(COLLECTION, 0n, "a", signers.admin.address);
+    await expect(
+      connect(signers.approver, adapter).appendRecord.staticCall(
+        COLLECTION,
+        "a",
+        ethers.toUtf8Bytes('{"x":1}'),
+      ),
+    )
+      .to.be.revertedWithCustomError(adapter, "RecordExists")
+      .withArgs(COLLECTION, "a");
+    await expect(
+      adapter.appendRecord.staticCall(COLLECTION, "c", "0x"),
+    ).to.be.revertedWithCustomError(adapter, "EmptyValue");
+    await expect(
+      connect(signers.outsider, adapter).appendRecord.staticCall(
+        COLLECTION,
+        "d",
+        VALUE,
+      ),
+    )
+      .to.be.revertedWithCustomError(adapter, "NotWriter")
+      .withArgs(COLLECTION, signers.outsider.address);
+    expect(ethers.toUtf8String(await adapter.getData("payroll_a"))).to.equal(
+      "{}",
+    );
+  });
+
+  it("writes several keys in one transaction, or none of them", async function () {
+    const keys = ["payroll_x", "payroll_y"];
+    const values = ["1", "2"].map((value) => ethers.toUtf8Bytes(value));
+    const receipt = await (await adapter.setDataBatch(keys, values)).wait();
+    expect(
+      receipt.logs.filter((log: any) => log.fragment?.name === "DataStored"),
+    ).to.have.length(2);
+    expect(
+      (await adapter.getDataBatch(keys)).map((value: string) =>
+        ethers.toUtf8String(value),
+      ),
+    ).to.deep.equal(["1", "2"]);
+
+    // The second key is outside the writer's namespace, so the first is not written either
+    await expect(
+      connect(signers.approver, adapter).setDataBatch.staticCall(
+        ["payroll_z", "other_z"],
+        values,
+      ),
+    )
+      .to.be.revertedWithCustomError(adapter, "NotWriter")
+      .withArgs("other", signers.approver.address);
+    expect(await adapter.getData("payroll_z")).to.equal("0x");
+
+    await expect(adapter.setDataBatch.staticCall(keys, [values[0]]))
+      .to.be.revertedWithCustomError(adapter, "LengthMismatch")
+      .withArgs(2n, 1n);
+    await expect(
+      adapter.setDataBatch.staticCall(
+        Array(51).fill("payroll_x"),
+        Array(51).fill("0x01"),
+      ),
+    ).to.be.revertedWithCustomError(adapter, "BatchTooLarge");
+  });
+
+  it("pages through the keys of a collection", async function () {
+    expect(await adapter.keyCount(COLLECTION)).to.equal(0n);
+    expect([...(await adapter.getKeys(COLLECTION, 0, 10))]).to.deep.equal([]);
+
+    for (const key of ["a", "b", "c"]) {
+      await (await append(signers.admin, key)).wait();
+    }
+    expect([...(await adapter.getKeys(COLLECTION, 0, 2))]).to.deep.equal([
+      "a",
+      "b",
+    ]);
+    // A limit past the end returns what remains
+    expect([...(await adapter.getKeys(COLLECTION, 2, 10))]).to.deep.equal([
+      "c",
+    ]);
+    expect([...(await adapter.getKeys(COLLECTION, 3, 10))]).to.deep.equal([]);
+    expect([...(await adapter.getKeys(COLLECTION, 100, 10))]).to.deep.equal([]);
+    expect([...(await adapter.getKeys(COLLECTION, 1, 0))]).to.deep.equal([]);
+  });
+});
+
+describe("UniversalAdapter record statuses", function () {
+  let signers: Signers;
+  let adapter: Contract;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  // The admin owns the payroll namespace and the approver processes its records
+  beforeEach(async function () {
+    adapter = (await ethers.deployContract("UniversalAdapter", [
+      [COLLECTION],
+    ])) as unknown as Contract;
+    await (
+      await adapter.setProcessor(COLLECTION, signers.approver.address, true)
+    ).wait();
+    await (
+      await adapter.setData(`${COLLECTION}_${KEY}`, ethers.toUtf8Bytes("{}"))
+    ).wait();
+  });
+
+  async function track(key = KEY) {
+    await (await adapter.trackRecord(COLLECTION, key)).wait();
+  }
+
+  function setStatus(signer: Signers["admin"], status: bigint) {
+    return connect(signer, adapter).setRecordStatus(COLLECTION, KEY, status);
+  }
+
+  function simulateStatus(signer: Signers["admin"], status: bigint) {
+    return connect(signer, adapter).setRecordStatus.staticCall(
+      COLLECTION,
+      KEY,
+      status,
+    );
+  }
+
+  it("records every transition with its actor and time", async function () {
+    await expect(adapter.trackRecord(COLLECTION, KEY))
+      .to.emit(adapter, "RecordStatusChanged")
+      .withArgs(COLLECTION, KEY, NONE, PENDING, signers.admin.address);
+    await (await setStatus(signers.approver, FAILED)).wait();
+    await (await setStatus(signers.admin, PENDING)).wait();
+    await expect(setStatus(signers.approver, PROCESSED))
+      .to.emit(adapter, "RecordStatusChanged")
+      .withArgs(COLLECTION, KEY, PENDING, PROCESSED, signers.approver.address);
+
+    const history = await adapter.getStatusHistory(COLLECTION, KEY);
+    expect(
+      history.map((change: any) => [change.status, change.actor]),
+    ).to.deep.equal([
+      [PENDING, signers.admin.address],
+      [FAILED, signers.approver.address],
+      [PENDING, signers.admin.address],
+      [PROCESSED, signers.approver.address],
+    ]);
+    const latest = await ethers.provider.getBlock("latest");
+    expect(history[3].changedAt).to.equal(BigInt(latest!.timestamp));
+  });
+
+  it("rejects transitions out of a settled record", async function () {
+    await track();
+    await (await setStatus(signers.approver, PROCESSED)).wait();
+    for (const status of [PENDING, FAILED, PROCESSED]) {
+      await expect(simulateStatus(signers.admin, status))
+        .to.be.revertedWithCustomError(adapter, "IllegalTransition")
+        .withArgs(PROCESSED, status);
+    }
+  });
+
+  it("lets only processors settle and only the owner reopen", async function () {
+    await track();
+    await expect(simulateStatus(signers.outsider, PROCESSED))
+      .to.be.revertedWithCustomError(adapter, "NotProcessor")
+      .withArgs(COLLECTION, signers.outsider.address);
+
+    await (await setStatus(signers.approver, FAILED)).wait();
+    await expect(simulateStatus(signers.approver, PENDING))
+      .to.be.revertedWithCustomError(adapter, "NotNamespaceOwner")
+      .withArgs(COLLECTION, signers.approver.address);
+  });
+
+  it("tracks a record once, whichever way its key is split", async function () {
+    await expect(simulateStatus(signers.approver, PROCESSED))
+      .to.be.revertedWithCustomError(adapter, "RecordNotFound")
+      .withArgs(COLLECTION, KEY);
+    await expect(adapter.trackRecord.staticCall(COLLECTION, "2"))
+      .to.be.revertedWithCustomError(adapter, "RecordNotFound")
+      .withArgs(COLLECTION, "2");
+
+    await (
+      await adapter.setData(`${COLLECTION}_a_b`, ethers.toUtf8Bytes("{}"))
+    ).wait();
+    await (await adapter.trackRecord(`${COLLECTION}_a`, "b")).wait();
+    await expect(
+      adapter.trackRecord.staticCall(COLLECTION, "a_b"),
+    ).to.be.revertedWithCustomError(adapter, "RecordTracked");
+    expect(await adapter.recordStatus(COLLECTION, "a_b")).to.equal(NONE);
+  });
+
+  it("freezes the value of a tracked record", async function () {
+    await track();
+    await expect(
+      adapter.setData.staticCall(
+        `${COLLECTION}_${KEY}`,
+        ethers.toUtf8Bytes("{}"),
+      ),
+    )
+      .to.be.revertedWithCustomError(adapter, "RecordFrozen")
+      .withArgs(`${COLLECTION}_${KEY}`);
+  });
+
+  it("reads statuses in batches", async function () {
+    await track();
+    await (
+      await adapter.setData(`${COLLECTION}_2`, ethers.toUtf8Bytes("{}"))
+    ).wait();
+    await track("2");
+    await (await setStatus(signers.approver, FAILED)).wait();
+
+    expect(
+      await adapter.recordStatuses(COLLECTION, [KEY, "2", "3"]),
+    ).to.deep.equal([FAILED, PENDING, NONE]);
+    await expect(
+      adapter.recordStatuses.staticCall(COLLECTION, Array(51).fill(KEY)),
+    ).to.be.revertedWithCustomError(adapter, "BatchTooLarge");
+  });
+});
@@ -0,0 +1,126 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+export type Signers = {
+  admin: HardhatEthersSigner;
+  approver: HardhatEthersSigner;
+  employees: HardhatEthersSigner[];
+  outsider: HardhatEthersSigner;
+};
+
+// Expected reverts are asserted on static calls. Hardhat raises some reverts of sent transactions as a bare
+// ProviderError, which the fhevm plugin fails on before chai can decode the custom error.
+
+// Contract.connect is typed as BaseContract; the contracts here are used without generated types
+export function connect(
+  signer: HardhatEthersSigner,
+  contract: Contract,
+): Contract {
+  return contract.connect(signer) as Contract;
+}
+
+export async function getSigners(): Promise<Signers> {
+  const [admin, approver, outsider, ...employees] = await ethers.getSigners();
+  return { admin, approver, outsider, employees: employees.slice(0, 6) };
+}
+
+// A payroll whose admin submits data and a second account signs off, since makers cannot approve their own batch
+export async function deployPayroll(signers: Signers) {
+  const deductions = await ethers.deployContract("PayrollDeductions");
+  const payrollFactory = await ethers.getContractFactory("StealthPayrollFHE", {
+    libraries: { PayrollDeductions: await deductions.getAddress() },
+  });
+  const payroll = (await payrollFactory.deploy(
+    signers.admin.address,
+  )) as unknown as Contract;
+  const payrollAddress = await payroll.getAddress();
+
+  await (
+    await payroll.grantRole(
+      await payroll.APPROVER_ROLE(),
+      signers.approver.address,
+    )
+  ).wait();
+  await (await payroll.setCooldown(1)).wait();
+  return { payroll, payrollAddress };
+}
+
+// Token with 6 decimals, and a treasury holding `funding` of it
+export async function deployTreasury(
+  signers: Signers,
+  payroll: Contract,
+  funding: bigint,
+) {
+  const payrollAddress = await payroll.getAddress();
+  const token = (await ethers.deployContract("ConfidentialPayrollToken", [
+    "Payroll USD",
+    "pUSD",
+  ])) as unknown as Contract;
+  const tokenAddress = await token.getAddress();
+  const treasury = (await ethers.deployContract("PayrollTreasury", [
+    payrollAddress,
+    tokenAddress,
+  ])) as unknown as Contract;
+  const treasuryAddress = await treasury.getAddress();
+
+  await (
+    await payroll.grantRole(
+      await payroll.PAYROLL_MODULE_ROLE(),
+      treasuryAddress,
+    )
+  ).wait();
+  await (await payroll.setTreasury(treasuryAddress)).wait();
+  const input = await fhevm
+    .createEncryptedInput(tokenAddress, signers.admin.address)
+    .add64(funding)
+    .encrypt();
+  await (
+    await token.mint(treasuryAddress, input.handles[0], input.inputProof)
+  ).wait();
+  return { token, tokenAddress, treasury, treasuryAddress };
+}
+
+export async function onboard(
+  payroll: Contract,
+  employees: HardhatEthersSigner[],
+) {
+  for (let i = 0; i < employees.length; i++) {
+    await (await payroll.onboardEmployee(i + 1, employees[i].address)).wait();
+  }
+}
+
+// Submits every entry in one transaction; salaries are in minor units
+export async function submitSalaries(
+  payroll: Contract,
+  signer: HardhatEthersSigner,
+  entries: {
+    employeeId: number;
+    salary: bigint;
+    investmentPercentage: number;
+  }[],
+) {
+  const input = fhevm.createEncryptedInput(
+    await payroll.getAddress(),
+    signer.address,
+  );
+  for (const entry of entries)
+    input.add64(entry.salary).add32(entry.investmentPercentage);
+  const encrypted = await input.encrypt();
+  await (
+    await connect(signer, payroll).submitEmployeeDataBatch(
+      entries.map((entry) => entry.employeeId),
+      entries.map((_, i) => encrypted.handles[2 * i]),
+      entries.map((_, i) => encrypted.handles[2 * i + 1]),
+      encrypted.inputProof,
+    )
+  ).wait();
+}
+
+// Approves and closes the current batch, which the admin has submitted to
+export async function approveAndClose(payroll: Contract, signers: Signers) {
+  const batchId = await payroll.currentBatchId();
+  await (await connect(signers.approver, payroll).approveBatch(batchId)).wait();
+  await (await connect(signers.approver, payroll).closeBatch()).wait();
+  return batchId;
+}
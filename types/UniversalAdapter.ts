@@ -3,6 +3,7 @@
 /* eslint-disable */
 import type {
   BaseContract,
+  BigNumberish,
   BytesLike,
   FunctionFragment,
   Result,
@@ -22,29 +23,216 @@ import type {
   TypedContractMethod,
 } from "./common";
 
+export declare namespace UniversalAdapter {
+  export type StatusChangeStruct = {
+    status: BigNumberish;
+    actor: AddressLike;
+    changedAt: BigNumberish;
+  };
+
+  export type StatusChangeStructOutput = [
+    status: bigint,
+    actor: string,
+    changedAt: bigint
+  ] & { status: bigint; actor: string; changedAt: bigint };
+}
+
 export interface UniversalAdapterInterface extends Interface {
   getFunction(
-    nameOrSignature: "getData" | "isAvailable" | "setData"
+    nameOrSignature:
+      | "MAX_BATCH_SIZE"
+      | "appendRecord"
+      | "canProcess"
+      | "canWrite"
+      | "claimNamespace"
+      | "getData"
+      | "getDataBatch"
+      | "getKeys"
+      | "getProcessors"
+      | "getStatusHistory"
+      | "getWriters"
+      | "isAvailable"
+      | "keyCount"
+      | "namespaceOf"
+      | "namespaceOwner"
+      | "recordStatus"
+      | "recordStatuses"
+      | "setData"
+      | "setDataBatch"
+      | "setProcessor"
+      | "setRecordStatus"
+      | "setWriter"
+      | "trackRecord"
+      | "transferNamespace"
   ): FunctionFragment;
 
-  getEvent(nameOrSignatureOrTopic: "DataStored"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DataStored"
+      | "NamespaceOwnerSet"
+      | "ProcessorSet"
+      | "RecordAppended"
+      | "RecordStatusChanged"
+      | "WriterSet"
+  ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "appendRecord",
+    values: [string, string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canProcess",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canWrite",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimNamespace",
+    values: [string]
+  ): string;
   encodeFunctionData(functionFragment: "getData", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getDataBatch",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getKeys",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProcessors",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getStatusHistory",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(functionFragment: "getWriters", values: [string]): string;
   encodeFunctionData(
     functionFragment: "isAvailable",
     values?: undefined
   ): string;
+  encodeFunctionData(functionFragment: "keyCount", values: [string]): string;
+  encodeFunctionData(functionFragment: "namespaceOf", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "namespaceOwner",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordStatus",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordStatuses",
+    values: [string, string[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "setData",
     values: [string, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setDataBatch",
+    values: [string[], BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setProcessor",
+    values: [string, AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRecordStatus",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setWriter",
+    values: [string, AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trackRecord",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferNamespace",
+    values: [string, AddressLike]
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "appendRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "canProcess", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "canWrite", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimNamespace",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "getData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getDataBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getKeys", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getProcessors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getStatusHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getWriters", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isAvailable",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "keyCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "namespaceOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "namespaceOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordStatuses",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "setData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setDataBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setProcessor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRecordStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setWriter", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "trackRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferNamespace",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace DataStoredEvent {
@@ -61,6 +249,125 @@ export namespace DataStoredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace NamespaceOwnerSetEvent {
+  export type InputTuple = [
+    namespace_: string,
+    previousOwner: AddressLike,
+    newOwner: AddressLike
+  ];
+  export type OutputTuple = [
+    namespace_: string,
+    previousOwner: string,
+    newOwner: string
+  ];
+  export interface OutputObject {
+    namespace: string;
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProcessorSetEvent {
+  export type InputTuple = [
+    namespace_: string,
+    processor: AddressLike,
+    allowed: boolean
+  ];
+  export type OutputTuple = [
+    namespace_: string,
+    processor: string,
+    allowed: boolean
+  ];
+  export interface OutputObject {
+    namespace: string;
+    processor: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordAppendedEvent {
+  export type InputTuple = [
+    collection: string,
+    index: BigNumberish,
+    key: string,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [
+    collection: string,
+    index: bigint,
+    key: string,
+    sender: string
+  ];
+  export interface OutputObject {
+    collection: string;
+    index: bigint;
+    key: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordStatusChangedEvent {
+  export type InputTuple = [
+    collection: string,
+    key: string,
+    from: BigNumberish,
+    to: BigNumberish,
+    actor: AddressLike
+  ];
+  export type OutputTuple = [
+    collection: string,
+    key: string,
+    from: bigint,
+    to: bigint,
+    actor: string
+  ];
+  export interface OutputObject {
+    collection: string;
+    key: string;
+    from: bigint;
+    to: bigint;
+    actor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WriterSetEvent {
+  export type InputTuple = [
+    namespace_: string,
+    writer: AddressLike,
+    allowed: boolean
+  ];
+  export type OutputTuple = [
+    namespace_: string,
+    writer: string,
+    allowed: boolean
+  ];
+  export interface OutputObject {
+    namespace: string;
+    writer: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface UniversalAdapter extends BaseContract {
   connect(runner?: ContractRunner | null): UniversalAdapter;
   waitForDeployment(): Promise<this>;
@@ -104,29 +411,238 @@ export interface UniversalAdapter extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  MAX_BATCH_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  appendRecord: TypedContractMethod<
+    [collection: string, key: string, value: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  canProcess: TypedContractMethod<
+    [namespace: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  canWrite: TypedContractMethod<
+    [namespace: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  claimNamespace: TypedContractMethod<
+    [namespace: string],
+    [void],
+    "nonpayable"
+  >;
+
   getData: TypedContractMethod<[key: string], [string], "view">;
 
+  getDataBatch: TypedContractMethod<[keys: string[]], [string[]], "view">;
+
+  getKeys: TypedContractMethod<
+    [collection: string, offset: BigNumberish, limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getProcessors: TypedContractMethod<[namespace: string], [string[]], "view">;
+
+  getStatusHistory: TypedContractMethod<
+    [collection: string, key: string],
+    [UniversalAdapter.StatusChangeStructOutput[]],
+    "view"
+  >;
+
+  getWriters: TypedContractMethod<[namespace: string], [string[]], "view">;
+
   isAvailable: TypedContractMethod<[], [boolean], "view">;
 
+  keyCount: TypedContractMethod<[collection: string], [bigint], "view">;
+
+  namespaceOf: TypedContractMethod<[key: string], [string], "view">;
+
+  namespaceOwner: TypedContractMethod<[arg0: string], [string], "view">;
+
+  recordStatus: TypedContractMethod<
+    [collection: string, key: string],
+    [bigint],
+    "view"
+  >;
+
+  recordStatuses: TypedContractMethod<
+    [collection: string, keys: string[]],
+    [bigint[]],
+    "view"
+  >;
+
   setData: TypedContractMethod<
     [key: string, value: BytesLike],
     [void],
     "nonpayable"
   >;
 
+  setDataBatch: TypedContractMethod<
+    [keys: string[], values: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  setProcessor: TypedContractMethod<
+    [namespace: string, processor: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setRecordStatus: TypedContractMethod<
+    [collection: string, key: string, status: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setWriter: TypedContractMethod<
+    [namespace: string, writer: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  trackRecord: TypedContractMethod<
+    [collection: string, key: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  transferNamespace: TypedContractMethod<
+    [namespace: string, newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "appendRecord"
+  ): TypedContractMethod<
+    [collection: string, key: string, value: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "canProcess"
+  ): TypedContractMethod<
+    [namespace: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "canWrite"
+  ): TypedContractMethod<
+    [namespace: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "claimNamespace"
+  ): TypedContractMethod<[namespace: string], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "getData"
   ): TypedContractMethod<[key: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getDataBatch"
+  ): TypedContractMethod<[keys: string[]], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getKeys"
+  ): TypedContractMethod<
+    [collection: string, offset: BigNumberish, limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProcessors"
+  ): TypedContractMethod<[namespace: string], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getStatusHistory"
+  ): TypedContractMethod<
+    [collection: string, key: string],
+    [UniversalAdapter.StatusChangeStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getWriters"
+  ): TypedContractMethod<[namespace: string], [string[]], "view">;
   getFunction(
     nameOrSignature: "isAvailable"
   ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "keyCount"
+  ): TypedContractMethod<[collection: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "namespaceOf"
+  ): TypedContractMethod<[key: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "namespaceOwner"
+  ): TypedContractMethod<[arg0: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "recordStatus"
+  ): TypedContractMethod<[collection: string, key: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordStatuses"
+  ): TypedContractMethod<
+    [collection: string, keys: string[]],
+    [bigint[]],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "setData"
   ): TypedContractMethod<[key: string, value: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDataBatch"
+  ): TypedContractMethod<
+    [keys: string[], values: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setProcessor"
+  ): TypedContractMethod<
+    [namespace: string, processor: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setRecordStatus"
+  ): TypedContractMethod<
+    [collection: string, key: string, status: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setWriter"
+  ): TypedContractMethod<
+    [namespace: string, writer: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "trackRecord"
+  ): TypedContractMethod<
+    [collection: string, key: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferNamespace"
+  ): TypedContractMethod<
+    [namespace: string, newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
 
   getEvent(
     key: "DataStored"
@@ -135,6 +651,41 @@ export interface UniversalAdapter extends BaseContract {
     DataStoredEvent.OutputTuple,
     DataStoredEvent.OutputObject
   >;
+  getEvent(
+    key: "NamespaceOwnerSet"
+  ): TypedContractEvent<
+    NamespaceOwnerSetEvent.InputTuple,
+    NamespaceOwnerSetEvent.OutputTuple,
+    NamespaceOwnerSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProcessorSet"
+  ): TypedContractEvent<
+    ProcessorSetEvent.InputTuple,
+    ProcessorSetEvent.OutputTuple,
+    ProcessorSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordAppended"
+  ): TypedContractEvent<
+    RecordAppendedEvent.InputTuple,
+    RecordAppendedEvent.OutputTuple,
+    RecordAppendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordStatusChanged"
+  ): TypedContractEvent<
+    RecordStatusChangedEvent.InputTuple,
+    RecordStatusChangedEvent.OutputTuple,
+    RecordStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WriterSet"
+  ): TypedContractEvent<
+    WriterSetEvent.InputTuple,
+    WriterSetEvent.OutputTuple,
+    WriterSetEvent.OutputObject
+  >;
 
   filters: {
     "DataStored(address,string,bytes)": TypedContractEvent<
@@ -147,5 +698,60 @@ export interface UniversalAdapter extends BaseContract {
       DataStoredEvent.OutputTuple,
       DataStoredEvent.OutputObject
     >;
+
+    "NamespaceOwnerSet(string,address,address)": TypedContractEvent<
+      NamespaceOwnerSetEvent.InputTuple,
+      NamespaceOwnerSetEvent.OutputTuple,
+      NamespaceOwnerSetEvent.OutputObject
+    >;
+    NamespaceOwnerSet: TypedContractEvent<
+      NamespaceOwnerSetEvent.InputTuple,
+      NamespaceOwnerSetEvent.OutputTuple,
+      NamespaceOwnerSetEvent.OutputObject
+    >;
+
+    "ProcessorSet(string,address,bool)": TypedContractEvent<
+      ProcessorSetEvent.InputTuple,
+      ProcessorSetEvent.OutputTuple,
+      ProcessorSetEvent.OutputObject
+    >;
+    ProcessorSet: TypedContractEvent<
+      ProcessorSetEvent.InputTuple,
+      ProcessorSetEvent.OutputTuple,
+      ProcessorSetEvent.OutputObject
+    >;
+
+    "RecordAppended(string,uint256,string,address)": TypedContractEvent<
+      RecordAppendedEvent.InputTuple,
+      RecordAppendedEvent.OutputTuple,
+      RecordAppendedEvent.OutputObject
+    >;
+    RecordAppended: TypedContractEvent<
+      RecordAppendedEvent.InputTuple,
+      RecordAppendedEvent.OutputTuple,
+      RecordAppendedEvent.OutputObject
+    >;
+
+    "RecordStatusChanged(string,string,uint8,uint8,address)": TypedContractEvent<
+      RecordStatusChangedEvent.InputTuple,
+      RecordStatusChangedEvent.OutputTuple,
+      RecordStatusChangedEvent.OutputObject
+    >;
+    RecordStatusChanged: TypedContractEvent<
+      RecordStatusChangedEvent.InputTuple,
+      RecordStatusChangedEvent.OutputTuple,
+      RecordStatusChangedEvent.OutputObject
+    >;
+
+    "WriterSet(string,address,bool)": TypedContractEvent<
+      WriterSetEvent.InputTuple,
+      WriterSetEvent.OutputTuple,
+      WriterSetEvent.OutputObject
+    >;
+    WriterSet: TypedContractEvent<
+      WriterSetEvent.InputTuple,
+      WriterSetEvent.OutputTuple,
+      WriterSetEvent.OutputObject
+    >;
   };
 }
@@ -15,45 +15,615 @@ import type {
 } from "../UniversalAdapter";
 
 const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "reservedNamespaces",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "size",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "BatchTooLarge",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyKey",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyValue",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum UniversalAdapter.RecordStatus",
+        name: "from",
+        type: "uint8",
+      },
+      {
+        internalType: "enum UniversalAdapter.RecordStatus",
+        name: "to",
+        type: "uint8",
+      },
+    ],
+    name: "IllegalTransition",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAddress",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "keys",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "values",
+        type: "uint256",
+      },
+    ],
+    name: "LengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "NamespaceTaken",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotNamespaceOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotProcessor",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotWriter",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "RecordExists",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "RecordFrozen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "RecordNotFound",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "RecordTracked",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "DataStored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "NamespaceOwnerSet",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
+        indexed: false,
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "processor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "ProcessorSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RecordAppended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "enum UniversalAdapter.RecordStatus",
+        name: "from",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "enum UniversalAdapter.RecordStatus",
+        name: "to",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "actor",
+        type: "address",
+      },
+    ],
+    name: "RecordStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "writer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "WriterSet",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "appendRecord",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canProcess",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canWrite",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+    ],
+    name: "claimNamespace",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "getData",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "keys",
+        type: "string[]",
       },
+    ],
+    name: "getDataBatch",
+    outputs: [
+      {
+        internalType: "bytes[]",
+        name: "values",
+        type: "bytes[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        indexed: false,
         internalType: "string",
-        name: "key",
+        name: "collection",
         type: "string",
       },
       {
-        indexed: false,
-        internalType: "bytes",
-        name: "value",
-        type: "bytes",
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
       },
     ],
-    name: "DataStored",
-    type: "event",
+    name: "getKeys",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "page",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+    ],
+    name: "getProcessors",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
   },
   {
     inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
       {
         internalType: "string",
         name: "key",
         type: "string",
       },
     ],
-    name: "getData",
+    name: "getStatusHistory",
     outputs: [
       {
-        internalType: "bytes",
+        components: [
+          {
+            internalType: "enum UniversalAdapter.RecordStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "actor",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "changedAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct UniversalAdapter.StatusChange[]",
         name: "",
-        type: "bytes",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+    ],
+    name: "getWriters",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
       },
     ],
     stateMutability: "view",
@@ -72,6 +642,111 @@ const _abi = [
     stateMutability: "pure",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+    ],
+    name: "keyCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "namespaceOf",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "namespaceOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "recordStatus",
+    outputs: [
+      {
+        internalType: "enum UniversalAdapter.RecordStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "keys",
+        type: "string[]",
+      },
+    ],
+    name: "recordStatuses",
+    outputs: [
+      {
+        internalType: "enum UniversalAdapter.RecordStatus[]",
+        name: "statuses",
+        type: "uint8[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -90,10 +765,139 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "keys",
+        type: "string[]",
+      },
+      {
+        internalType: "bytes[]",
+        name: "values",
+        type: "bytes[]",
+      },
+    ],
+    name: "setDataBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "processor",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setProcessor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "enum UniversalAdapter.RecordStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "setRecordStatus",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "writer",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setWriter",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "trackRecord",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferNamespace",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x6080806040523461001657610468908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081636c67bdfa146101a257508063856c71dd146101875763ae55c88814610040575f80fd5b3461018357602091826003193601126101835780359067ffffffffffffffff8211610183576100719136910161039f565b61009284845183819483830196873781015f838201520380845201826103cd565b5190205f525f8252805f2082825180925f9080546100af81610403565b808552916001918083169081156101605750600114610122575b5050506100db925094929403846103cd565b815192818492835281519182828501525f5b83811061010c5750505f83830185015250601f01601f19168101030190f35b81810183015187820187015286945082016100ed565b5f90815285812095935091905b8183106101485750879450508201016100db5f806100c9565b8554878401850152948501948694509183019161012f565b925050506100db94925060ff191682840152151560051b82010185925f806100c9565b5f80fd5b5034610183575f366003190112610183576020905160018152f35b83833461018357806003193601126101835767ffffffffffffffff908235828111610183576101d4903690850161039f565b9290602435828111610183576101ed903690870161039f565b92909560209788810190878583376102138a828a81015f838201520380845201826103cd565b5190205f525f8852845f2091841161038c57506102308154610403565b601f8111610349575b505f601f84116001146102bd577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b1578296979284926102ad9561029e935f916102b2575b508460011b905f198660031b1c19161790555b855196868897885287019161043b565b9184830390850152339661043b565b0390a2005b90508a01358b61027b565b601f19841690825f52885f20915f5b81811061033257509261029e927ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782999a9592876102ad989610610319575b5050600184811b01905561028e565b8b01355f19600387901b60f8161c191690558a8061030a565b91928a60018192868d0135815501940192016102cc565b815f52875f20601f850160051c810191898610610382575b601f0160051c01905b8181106103775750610239565b5f815560010161036a565b9091508190610361565b604190634e487b7160e01b5f525260245ffd5b9181601f840112156101835782359167ffffffffffffffff8311610183576020838186019501011161018357565b90601f8019910116810190811067ffffffffffffffff8211176103ef57604052565b634e487b7160e01b5f52604160045260245ffd5b90600182811c92168015610431575b602083101461041d57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610412565b908060209392818452848401375f828201840152601f01601f191601019056fea164736f6c6343000818000a";
+  "0x60406080815234620002195762002406803803806200001e8162000231565b92833981016020908183820312620002195782516001600160401b0393848211620002195701601f82601f8301121562000219578151948086116200021d576005938660051b9186806200007481860162000231565b809a81520193860101948286116200021957878101935b868510620001ae578a8a8a8a5f5b83518110156200019f578281831b850101518051156200018e57855181519085830191620000c981838562000257565b60029082018181528290038701909120546001600160a01b0316806200015f575085600194939262000106928a5180948193875192839162000257565b82019081520301902033848060a01b03198254161790555f7fe109e653ffaa33e7248667c4b218e60e6183d93723e7b8793e6e841e950e35a58851878152806200015533958a8301906200027a565b0390a30162000099565b8851631ba5f10960e11b8152600481018a90529081906200018460448301876200027a565b9060248301520390fd5b8551630f35a7eb60e21b8152600490fd5b84516121649081620002a28239f35b8451838111620002195782019084603f83011215620002195789820151908482116200021d578c86620001e9848b01601f19168e0162000231565b91848352848601011162000219576200020d8c94938f948695868501910162000257565b8152019401936200008b565b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b6040519190601f01601f191682016001600160401b038111838210176200021d57604052565b5f5b838110620002695750505f910152565b818101518382015260200162000259565b90602091620002958151809281855285808601910162000257565b601f01601f191601019056fe604060808152600480361015610013575f80fd5b5f3560e01c90816303072d9c1461118e5781631335e1da1461106c57816323150ce514610fc057816331a99dfc14610f26578163355eb2c014610f0b578163388ef62e14610beb57816344d38d3d14610b86578163479c776f14610b3857816359853f00146109ea57816361c526e6146109be578163657cc71e1461099a5781636583b9ef1461085d5781636c67bdfa1461083857816375e19195146107285781637c015de5146106d8578163856c71dd146106bd578163ab6c7d101461061b578163ae55c888146105a4578163b17d6d3514610492578163b268793014610398578163b780b71c146102c6578163bee61c4e14610228578163bfb8829a14610143575063cfdbf25414610125575f80fd5b3461013f575f36600319011261013f576020905160328152f35b5f80fd5b823461013f578060031936011261013f576001600160401b03823581811161013f5761017290369085016114e5565b92909160243590811161013f5761018c90369086016114e5565b94909185850361020b57603285116101ee5750505f5b8381106101ab57005b806101e86101e26101bf60019488886117d8565b6101da6101d0868c8a9695966117d8565b949092369161140a565b92369161140a565b90611de2565b016101a2565b5163bb1cb70b60e01b815290810184905260326024820152604490fd5b516355c5b3e360e11b815290810184905260248101859052604490fd5b90503461013f57606036600319011261013f5780356001600160401b03811161013f576102699161025b91369101611295565b9060443591602435916119d7565b81519060208083016020845282518091526020858501958260051b8601019301915f955b82871061029a5785850386f35b9091929382806102b6600193603f198a820301865288516114c0565b960192019601959291909261028d565b823461013f576102d53661130c565b8451939592949192858786376002858701908152859003602001909420546001600160a01b03949085163303610376575061033981848451888a82376020818a810160058152030190208551898b82376020818b8101600681520301902090611fd7565b61033f57005b7f3400d31672b190749c1c4a01ce7adcd0012cbdfc6428e1c7e950e4426fee6076946103719251948594169684611633565b0390a2005b86610394879285519384936390de79cd60e01b85523392850161161a565b0390fd5b823461013f578060031936011261013f5781356001600160401b03811161013f576103c69036908401611295565b916024359360018060a01b0380861680960361013f5782518585823760208187810160028152030190205416330361047757841561046957507fe109e653ffaa33e7248667c4b218e60e6183d93723e7b8793e6e841e950e35a591816104649251858382376020818781016002815203019020866bffffffffffffffffffffffff60a01b8254161790555191829160208352339560208401916115d3565b0390a3005b905163e6c4247b60e01b8152fd5b61039491519384936390de79cd60e01b85523392850161161a565b823461013f576104ad6104a4366112c2565b92919091612129565b5f52602060078152815f208054916104c4836117a5565b926104d1855194856113ce565b80845281840180935f52825f205f915b8383106105525750505050835192818401908285525180915284840192915f5b82811061050e5785850386f35b909192938260606001926001600160401b038a895161052e848251611515565b868060a01b038682015116868501520151168a820152019501910192919092610501565b60018581928a999799516105658161139f565b6001600160401b03865461057c60ff8216846119cb565b858060a01b038160081c168584015260a81c168c8201528152019201920191909593956104e1565b90503461013f57602036600319011261013f578035916001600160401b03831161013f5761060560206105e06105fe9461061796369101611295565b9190828551938492833781015f81520301902082519384809261182d565b03836113ce565b519182916020835260208301906114c0565b0390f35b90503461013f57602090602060031936011261013f5780356001600160401b03811161013f5761065060209136908401611295565b9283865194859384378201908152030190209180519182602085549182815201945f5260205f20915f905b82821061069d576106178686610693828b03836113ce565b519182918261135b565b83546001600160a01b03168752958601956001938401939091019061067b565b823461013f575f36600319011261013f576020905160018152f35b823461013f57602036600319011261013f578135916001600160401b03831161013f5761070c602093918492369101611295565b9190828451938492833781016001815203019020549051908152f35b90503461013f576020918260031936011261013f5781356001600160401b03811161013f5761075d6107649136908501611295565b369161140a565b9182511561082a578151908351918585019261078181838661149f565b600290820190815281900386019020546001600160a01b03168061080e57855f7fe109e653ffaa33e7248667c4b218e60e6183d93723e7b8793e6e841e950e35a561046488886107dc868a835180938192875192839161149f565b81016002815203019020336bffffffffffffffffffffffff60a01b8254161790555191829186835233968301906114c0565b9251631ba5f10960e11b81529384936103949350918401611573565b9051630f35a7eb60e21b8152fd5b3461013f5761085b6101da6101e261084f366112c2565b9491929092369161140a565b005b90503461013f578160031936011261013f576001600160401b0390803582811161013f5761088e9036908301611295565b91909260243590811161013f576108a890369083016114e5565b916032831161097c57506108bf82959493956117a5565b946108cc855196876113ce565b8286526108d8836117a5565b936020936020880195601f19013687375f5b818110610943575050505050825193849360208501916020865251809252840192915f5b82811061091d57505050500390f35b9193839550908082610933600194839751611515565b019501910191859493919261090e565b8061097261096361095b600194868a9e9c9d9e6117d8565b9088886118f4565b61096d838b611819565b6119cb565b01979695976108ea565b855163bb1cb70b60e01b815290810183905260326024820152604490fd5b823461013f576020906109b56109af3661145e565b90611939565b90519015158152f35b823461013f576020906109e86109df6109d6366112c2565b929190916118f4565b91518092611515565bf35b90503461013f576020908160031936011261013f5780356001600160401b03811161013f57610a1c90369083016114e5565b9160328311610b1a575091610a30826117a5565b92610a3d855194856113ce565b828452610a49836117a5565b92610a5b83860194601f1901856117bc565b5f5b818110610abe575050508351928184019082855251809152848401948160051b85010192915f955b828710610a925785850386f35b909192938280610aae600193603f198a820301865288516114c0565b9601920196019592919092610a85565b80610af4610afb86610ad660019587899c9a9c6117d8565b9190828d51938492833781015f8152030190208a519283809261182d565b03826113ce565b610b058287611819565b52610b108186611819565b5001949294610a5d565b845163bb1cb70b60e01b815290810183905260326024820152604490fd5b823461013f57602036600319011261013f578135916001600160401b03831161013f57610b6e610b739161061794369101611440565b61170d565b90519182916020835260208301906114c0565b823461013f57602036600319011261013f5781356001600160401b03811161013f57602092610bb791369101611440565b82610bca8351928381519384920161149f565b6002908201908152819003830190205490516001600160a01b039091168152f35b90503461013f57606036600319011261013f576001600160401b0390803582811161013f57610c1d9036908301611295565b9290602490813583811161013f57610c389036908601611295565b9190926044359580871015958661013f57610c5585878b87611536565b96610c6286888c886118f4565b9783891015610ef9578815610edd57610c7a9061170d565b906001891480610ec5575b15610e115750610c953382611939565b15610df457505b610ca885878b87612129565b5f526007602052895f208a5193610cbe8561139f565b610cc88a866119cb565b60208501913383528c86019342168452805490600160401b821015610de25790610cf7916001820181556118df565b959095610dd057519380851015610dbf5750508354905191516001600160e81b031990911660ff9093169290921760089190911b610100600160a81b03161760a89190911b67ffffffffffffffff60a81b16179055865160808082527f2583d79dc4b038504b44ebcbedb863675c671a9c758d071d9aa04c389fcc972e979196610db7969095610dad959194610da4949193610d9692908b01916115d3565b9188830360208a01526115d3565b96850190611515565b6060830190611515565b8033930390a2005b602190634e487b7160e01b5f52525ffd5b50634e487b7160e01b5f908152808552fd5b82604187634e487b7160e01b5f52525ffd5b8a51631640542160e01b8152928392506103949133918401611573565b600389149081610ea3575b5015610e77578a518151610e3481836020860161149f565b60029082019081528190036020019020546001600160a01b03163303610e5a5750610c9c565b8a516390de79cd60e01b8152928392506103949133918401611573565b5050610ea187604493610e99898d5195631d63bee360e31b8752860190611515565b830190611515565bfd5b9050610eb357600189145f610e1c565b83602184634e487b7160e01b5f52525ffd5b50505f60028a1480610c855750505f60038a14610c85565b8b516310bb45f160e31b815280610394898b8f8b858b016115f3565b84602185634e487b7160e01b5f52525ffd5b823461013f576020906109b5610f203661145e565b90611654565b90503461013f57602090602060031936011261013f5780356001600160401b03811161013f57602091610f5b91369101611295565b91908285519384928337810160068152030190209180519182602085549182815201945f5260205f20915f905b828210610fa0576106178686610693828b03836113ce565b83546001600160a01b031687529586019560019384019390910190610f88565b823461013f57610fcf3661130c565b8451939592949192858786376002858701908152859003602001909420546001600160a01b03949085163303610376578184611034928860208b8851838282378281858101600381520301902093895193849283378c82019081520301902090611fd7565b61103a57005b7faa9e9219efcb13dffe5ff79a71b64582db3f6edbd160130d17ae64a1814c2585946103719251948594169684611633565b823461013f57606036600319011261013f576001600160401b0391803583811161013f5761109d9036908301611295565b909360243581811161013f576110b69036908501611295565b92909160443590811161013f576110d09036908601611295565b82158015611186575b611176578015611166576110ef8585858b611536565b956111188851602081816111098c8381519384920161149f565b81015f8152030190205461159b565b61114857509661113c611136611141979695949360209a369161140a565b86611de2565b611b36565b9051908152f35b969150506103949450519586956317d9281360e31b875286016115f3565b8651631208b21b60e01b81528690fd5b8651630f35a7eb60e21b81528690fd5b5084156110d9565b90503461013f5761119e366112c2565b906111ad828285879997611536565b926111b78461170d565b958551968051976020986111ce81838c860161149f565b600290820190815281900389019020546001600160a01b0316330361127a575085516112078651918981818a019461110981838861149f565b1561125c576112238860ff928951809381928b5192839161149f565b81016008815203019020541661123f5750611141949596611b36565b61039484848a94895195869563ff7c400f60e01b875286016115f3565b5061039484848a9489519586956310bb45f160e31b875286016115f3565b61039487519283926390de79cd60e01b845233918401611573565b9181601f8401121561013f578235916001600160401b03831161013f576020838186019501011161013f57565b604060031982011261013f576001600160401b039160043583811161013f57826112ee91600401611295565b9390939260243591821161013f5761130891600401611295565b9091565b606060031982011261013f57600435906001600160401b03821161013f5761133691600401611295565b90916024356001600160a01b038116810361013f5790604435801515810361013f5790565b60209060206040818301928281528551809452019301915f5b828110611382575050505090565b83516001600160a01b031685529381019392810192600101611374565b606081019081106001600160401b038211176113ba57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f801991011681019081106001600160401b038211176113ba57604052565b6001600160401b0381116113ba57601f01601f191660200190565b929192611416826113ef565b9161142460405193846113ce565b82948184528183011161013f578281602093845f960137010152565b9080601f8301121561013f5781602061145b9335910161140a565b90565b604060031982011261013f57600435906001600160401b03821161013f5761148891600401611440565b906024356001600160a01b038116810361013f5790565b5f5b8381106114b05750505f910152565b81810151838201526020016114a1565b906020916114d98151809281855285808601910161149f565b601f01601f1916010190565b9181601f8401121561013f578235916001600160401b03831161013f576020808501948460051b01011161013f57565b9060048210156115225752565b634e487b7160e01b5f52602160045260245ffd5b60219194936115719381876040519889956020870137840191605f60f81b602084015285830137015f838201520360018101855201836113ce565b565b9061158b6020919493946040845260408401906114c0565b6001600160a01b03909416910152565b90600182811c921680156115c9575b60208310146115b557565b634e487b7160e01b5f52602260045260245ffd5b91607f16916115aa565b908060209392818452848401375f828201840152601f01601f1916010190565b929061160c9061145b95936040865260408601916115d3565b9260208185039101526115d3565b9160209161158b919594956040855260408501916115d3565b9160209161164c919594956040855260408501916115d3565b931515910152565b6001600160a01b03918216801515928361166f575b50505090565b9080929350604051918451926020818188019561168d81838961149f565b810160028152030190205416149283156116ad575b5050505f8080611669565b6116c89293509060209160405193849283925192839161149f565b81016003815203019020905f5260205260ff60405f2054165f80806116a2565b9081518110156116f9570160200190565b634e487b7160e01b5f52603260045260245ffd5b5f5b81518110156117a1576001600160f81b0319605f60f81b8161173184866116e8565b511614611741575060010161170f565b61174a826113ef565b9261175860405194856113ce565b828452601f19611767846113ef565b013660208601375f5b83811061177e575050505090565b808361178c600193856116e8565b51165f1a61179a82886116e8565b5301611770565b5090565b6001600160401b0381116113ba5760051b60200190565b5f5b8281106117ca57505050565b6060828201526020016117be565b91908110156116f95760051b81013590601e198136030182121561013f5701908135916001600160401b03831161013f57602001823603811361013f579190565b80518210156116f95760209160051b010190565b80545f939261183b8261159b565b918282526020936001916001811690815f1461189f5750600114611861575b5050505050565b90939495505f92919252835f2092845f945b83861061188b57505050500101905f8080808061185a565b805485870183015294019385908201611873565b60ff19168685015250505090151560051b010191505f8080808061185a565b919082039182116118cb57565b634e487b7160e01b5f52601160045260245ffd5b80548210156116f9575f5260205f2001905f90565b90611900939291612129565b5f52600760205260405f2080549081155f1461191c5750505f90565b5f1982019182116118cb5760ff91611933916118df565b50541690565b6001600160a01b0391821680151592836119535750505090565b9080929350604051918451926020818188019561197181838961149f565b81016002815203019020541614928315611990575050505f8080611669565b6119ab9293509060209160405193849283925192839161149f565b81016005815203019020905f5260205260ff60405f2054165f80806116a2565b60048210156115225752565b91909392936040908060405194853783019260208160019560018152030190209485549081841015611abe57611a0d84836118be565b811115611aad5750915b611a2181846118be565b90611a55611a2e836117a5565b92611a3c60405194856113ce565b808452611a4b601f19916117a5565b01602084016117bc565b8196815b858110611a695750505050505050565b80611aa6611a788993856118df565b50610af4611a95611a8988866118be565b928a519283809261182d565b611a9f8289611819565b5286611819565b5001611a59565b905082018083116118cb5791611a17565b50505050509050604051602081018181106001600160401b038211176113ba576040525f815290565b601f8211611af457505050565b5f5260205f20906020601f840160051c83019310611b2c575b601f0160051c01905b818110611b21575050565b5f8155600101611b16565b9091508190611b0d565b9194939294604093845191838584378383019280600194858152602092839103019020549887518688823782818881018881520301902092835493600160401b94858110156113ba57611b8d9188820181556118df565b611d60576001600160401b03958684116113ba578490611bb785611bb1855461159b565b85611ae7565b5f9285601f8111600114611d7e5780611be891611bfd965f91611d73575b508160011b915f199060031b1c19161790565b90555b818c519382858094519384920161149f565b810160088152030190209360ff199487868254161790558951888a8237808981015f81520390208c8b51918683527fe1c134963dac309cf9075782f3999cc428481314115b0d526c0685c94fa2d513339380611c5c8a82018a8a6115d3565b0390a4611c6b83838a8c612129565b5f5260078452895f20988a5199611c818b61139f565b888b52858b01923384528c8c0198421689528154908110156113ba57611cab918a820181556118df565b9a909a611d6057519960048b1015611522578054925197516001600160e81b031990931660ff909b169a909a1760089790971b610100600160a81b03169690961760a89190911b67ffffffffffffffff60a81b1617909755875160808082527f2583d79dc4b038504b44ebcbedb863675c671a9c758d071d9aa04c389fcc972e9891975f96611d4f9650611d42928a0191906115d3565b92878403908801526115d3565b9483015260608201528033930390a2565b634e487b7160e01b5f525f60045260245ffd5b90508701355f611bd5565b50601f19861693815f52835f2090875f5b8d888210611dca575050611bfd9610611db1575b50508986811b019055611beb565b8601355f19600389901b60f8161c191690555f80611da3565b8984013585558b97940193928301928a925001611d8f565b9190825115611fc557604092835193815160ff602096878181870194611e0981838861149f565b810160088152030190205416611fa157611e228361170d565b611e2c3382611654565b15611f83575085611e4791835180938192875192839161149f565b81015f81520301902083516001600160401b0381116113ba57611e7481611e6e845461159b565b84611ae7565b86601f8211600114611efc5791611ec7827ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b1578297989993611eec955f91611ef157508160011b915f199060031b1c19161790565b90555b611edd83519484869586528501906114c0565b908382039084015233956114c0565b0390a2565b90508901515f611bd5565b601f19821690835f52885f20915f5b818110611f6c575092611eec9492600192827ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b157829a9b9c9610611f54575b5050811b019055611eca565b8a01515f1960f88460031b161c191690555f80611f48565b91928a60018192868c015181550194019201611f0b565b825163188d8ba160e21b815290819061039490339060048401611573565b5051630795dcd560e21b8152600481018590529081906103949060248301906114c0565b604051630f35a7eb60e21b8152600490fd5b90926001600160a01b0383811692909190831561211757835f5260205260405f2080548215158060ff831615151461210b5760ff169060ff19161790555f14612061575050815491600160401b8310156113ba578261203e91600161205c950181556118df565b90919060018060a01b038084549260031b9316831b921b1916179055565b600190565b9150915f5b8154808210156121015783908561207d84866118df565b939054600394851b1c1614612096575050600101612066565b9094509192915f19918282019182116118cb5761203e846120ba6120c894886118df565b905490891b1c1691866118df565b825480156120ed5701926120dc84846118df565b81939154921b1b1916905555600190565b634e487b7160e01b5f52603160045260245ffd5b5050505050600190565b50505050505050505f90565b60405163e6c4247b60e01b8152600490fd5b9290612143612151926040519485936020850197886115f3565b03601f1981018352826113ce565b5190209056fea164736f6c6343000818000a";
 
 type UniversalAdapterConstructorParams =
   | [signer?: Signer]
@@ -113,12 +917,16 @@ export class UniversalAdapter__factory extends ContractFactory {
   }
 
   override getDeployTransaction(
+    reservedNamespaces: string[],
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
+    return super.getDeployTransaction(reservedNamespaces, overrides || {});
   }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
+  override deploy(
+    reservedNamespaces: string[],
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(reservedNamespaces, overrides || {}) as Promise<
       UniversalAdapter & {
         deploymentTransaction(): ContractTransactionResponse;
       }